@@ -0,0 +1,68 @@
+import type { CliConfig } from "./config";
+
+export class ApiError extends Error {
+  constructor(readonly status: number, message: string) {
+    super(message);
+  }
+}
+
+// What the server's error responses look like: `{ message }`
+function errorMessage(status: number, body: string): string {
+  try {
+    const message = JSON.parse(body).message;
+    if (typeof message === "string") return message;
+  } catch {
+    // Not JSON - fall through to the raw body
+  }
+  return body || `Request failed with status ${status}`;
+}
+
+// Thin client for the REST routes in server/routes.ts, authenticated with a
+// personal API token
+export class ApiClient {
+  private readonly baseUrl: string;
+  private readonly token: string;
+
+  constructor(config: CliConfig) {
+    if (!config.url || !config.token) {
+      throw new Error("No server configured. Run `gtd config --url <url> --token <token>` or set GTD_URL and GTD_TOKEN.");
+    }
+    this.baseUrl = config.url.replace(/\/+$/, "");
+    this.token = config.token;
+  }
+
+  async request<T>(method: string, route: string, body?: unknown): Promise<T> {
+    let res: Response;
+    try {
+      res = await fetch(`${this.baseUrl}${route}`, {
+        method,
+        headers: {
+          Authorization: `Bearer ${this.token}`,
+          ...(body !== undefined ? { "Content-Type": "application/json" } : {}),
+        },
+        body: body !== undefined ? JSON.stringify(body) : undefined,
+      });
+    } catch (error) {
+      const cause = (error as Error & { cause?: Error }).cause;
+      throw new Error(`Could not reach ${this.baseUrl}: ${cause?.message ?? (error as Error).message}`);
+    }
+
+    const text = await res.text();
+    if (!res.ok) {
+      throw new ApiError(res.status, errorMessage(res.status, text));
+    }
+    return (text ? JSON.parse(text) : undefined) as T;
+  }
+
+  get<T>(route: string): Promise<T> {
+    return this.request<T>("GET", route);
+  }
+
+  post<T>(route: string, body: unknown): Promise<T> {
+    return this.request<T>("POST", route, body);
+  }
+
+  patch<T>(route: string, body: unknown): Promise<T> {
+    return this.request<T>("PATCH", route, body);
+  }
+}
@@ -0,0 +1,45 @@
+import { mkdir, readFile, writeFile } from "fs/promises";
+import { homedir } from "os";
+import path from "path";
+import { z } from "zod";
+
+// Where the server lives and the personal API token to send, from Settings.
+// GTD_URL and GTD_TOKEN override whatever `gtd config` saved.
+const configSchema = z.object({
+  url: z.string().url().optional(),
+  token: z.string().min(1).optional(),
+});
+
+export type CliConfig = z.infer<typeof configSchema>;
+
+function configPath(): string {
+  const base = process.env.XDG_CONFIG_HOME || path.join(homedir(), ".config");
+  return path.join(base, "gtd", "config.json");
+}
+
+async function readSavedConfig(): Promise<CliConfig> {
+  try {
+    return configSchema.parse(JSON.parse(await readFile(configPath(), "utf8")));
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === "ENOENT") return {};
+    throw new Error(`Could not read ${configPath()}: ${(error as Error).message}`);
+  }
+}
+
+export async function loadConfig(): Promise<CliConfig> {
+  const saved = await readSavedConfig();
+  return {
+    url: process.env.GTD_URL || saved.url,
+    token: process.env.GTD_TOKEN || saved.token,
+  };
+}
+
+// Merges the given values into the saved config. The file holds a token, so
+// only the current user can read it.
+export async function saveConfig(values: CliConfig): Promise<string> {
+  const file = configPath();
+  const config = configSchema.parse({ ...(await readSavedConfig()), ...values });
+  await mkdir(path.dirname(file), { recursive: true });
+  await writeFile(file, JSON.stringify(config, null, 2) + "\n", { mode: 0o600 });
+  return file;
+}
@@ -0,0 +1,303 @@
+import { parseArgs } from "util";
+import { differenceInDays, format, isBefore } from "date-fns";
+import { z } from "zod";
+import {
+  insertTaskSchema,
+  updateTaskSchema,
+  EnergyLevel,
+  TaskStatus,
+  TimeEstimate,
+  type Context,
+  type Project,
+  type Task,
+  type WeeklyReview,
+} from "@shared/schema";
+import { getQuickCaptureFields, parseQuickCapture, parseTimeEstimate } from "@shared/quick-capture";
+import { buildProjectTree, flattenProjectTree } from "@shared/project-tree";
+import { ApiClient } from "./api";
+import { loadConfig, saveConfig } from "./config";
+import { printFields, printJson, printTable, type Column } from "./output";
+
+const USAGE = `Usage: gtd <command> [options]
+
+Commands:
+  add <text> [--notes <text>]   Capture into the inbox. Understands the quick
+                                capture syntax: @context #project ~15m !low due:fri
+  ls [filters]                  List available next actions
+      --context <@name>         Only this context
+      --project <name>          Only this project
+      --energy <low|medium|high>
+      --time <15m|30m|1h|2h+>   Only this time estimate
+      --status <status>         Another list, e.g. waiting or someday
+  done <id...>                  Mark tasks done
+  inbox                         List what's waiting to be processed
+  review-status                 How current the weekly review is
+  config [--url <url>] [--token <token>]
+                                Save the server and API token, or show them
+
+Options:
+  --json                        Print JSON instead of a table
+  -h, --help                    Show this help
+
+GTD_URL and GTD_TOKEN override the saved config. Create a token under
+Settings > API Tokens: \`add\` needs the capture scope (and read to resolve
+@context or #project), \`done\` needs write and the rest read.`;
+
+// Reviews older than this are due again
+const REVIEW_INTERVAL_DAYS = 7;
+
+type Options = {
+  json?: boolean;
+  help?: boolean;
+  notes?: string;
+  context?: string;
+  project?: string;
+  energy?: string;
+  time?: string;
+  status?: string;
+  url?: string;
+  token?: string;
+};
+
+class UsageError extends Error {}
+
+function formatDate(value: Date | string | null, pattern = "yyyy-MM-dd"): string {
+  return value ? format(new Date(value), pattern) : "";
+}
+
+// Context names are saved with their @; either form is accepted
+function sameContextName(a: string, b: string): boolean {
+  return a.replace(/^@/, "").toLowerCase() === b.replace(/^@/, "").toLowerCase();
+}
+
+function taskColumns(contexts: Context[], projects: Project[]): Column<Task>[] {
+  return [
+    { header: "id", value: (task) => task.id },
+    { header: "title", value: (task) => task.title },
+    { header: "context", value: (task) => contexts.find((c) => c.id === task.contextId)?.name },
+    { header: "project", value: (task) => projects.find((p) => p.id === task.projectId)?.name },
+    { header: "time", value: (task) => task.timeEstimate },
+    { header: "energy", value: (task) => task.energyLevel },
+    { header: "due", value: (task) => formatDate(task.dueDate) },
+  ];
+}
+
+async function add(api: ApiClient, words: string[], options: Options) {
+  const text = words.join(" ").trim();
+  if (!text) throw new UsageError("Usage: gtd add <text> [--notes <text>]");
+
+  // Contexts and projects are only fetched when the text names one, so a
+  // capture-only token can add plain items
+  let parsed = parseQuickCapture(text, [], []);
+  if (parsed.context || parsed.project) {
+    const [contexts, projects] = await Promise.all([
+      api.get<Context[]>("/api/contexts"),
+      api.get<Project[]>("/api/projects"),
+    ]);
+    parsed = parseQuickCapture(text, contexts, projects);
+  }
+  if (!parsed.title) throw new UsageError("The task needs a title as well as tokens");
+
+  if (parsed.context?.id === null) {
+    console.error(`No context named ${parsed.context.name} - left in the title`);
+  }
+  if (parsed.project?.id === null) {
+    console.error(`No project named ${parsed.project.name} - left in the title`);
+  }
+
+  const task = insertTaskSchema.parse({
+    status: TaskStatus.INBOX,
+    notes: options.notes ?? null,
+    ...getQuickCaptureFields(parsed),
+  });
+  const created = await api.post<Task>("/api/tasks", task);
+
+  if (options.json) {
+    printJson(created);
+  } else {
+    console.log(`Captured #${created.id}: ${created.title}`);
+  }
+}
+
+async function list(api: ApiClient, options: Options) {
+  const status = options.status ?? TaskStatus.NEXT_ACTION;
+  if (!(Object.values(TaskStatus) as string[]).includes(status)) {
+    throw new UsageError(`Unknown status "${status}". Use one of: ${Object.values(TaskStatus).join(", ")}`);
+  }
+  if (options.energy && !(Object.values(EnergyLevel) as string[]).includes(options.energy)) {
+    throw new UsageError(`Unknown energy "${options.energy}". Use one of: ${Object.values(EnergyLevel).join(", ")}`);
+  }
+  const timeEstimate = options.time
+    ? ((Object.values(TimeEstimate) as string[]).includes(options.time) ? options.time : parseTimeEstimate(options.time))
+    : null;
+  if (options.time && !timeEstimate) {
+    throw new UsageError(`Unknown time estimate "${options.time}". Try 15m, 30m, 1h or 2h+`);
+  }
+
+  const [tasks, contexts, projects] = await Promise.all([
+    api.get<Task[]>(`/api/tasks/status/${status}`),
+    api.get<Context[]>("/api/contexts"),
+    api.get<Project[]>("/api/projects"),
+  ]);
+
+  const context = options.context ? contexts.find((c) => sameContextName(c.name, options.context!)) : undefined;
+  if (options.context && !context) throw new UsageError(`No context named ${options.context}`);
+  const project = options.project
+    ? projects.find((p) => p.name.toLowerCase() === options.project!.toLowerCase())
+    : undefined;
+  if (options.project && !project) throw new UsageError(`No project named ${options.project}`);
+
+  const matching = tasks.filter((task) =>
+    (!context || task.contextId === context.id) &&
+    (!project || task.projectId === project.id) &&
+    (!options.energy || task.energyLevel === options.energy) &&
+    (!timeEstimate || task.timeEstimate === timeEstimate)
+  );
+
+  if (options.json) {
+    printJson(matching);
+  } else {
+    printTable(matching, taskColumns(contexts, projects), "No matching tasks.");
+  }
+}
+
+async function done(api: ApiClient, ids: string[], options: Options) {
+  if (ids.length === 0) throw new UsageError("Usage: gtd done <id...>");
+  const taskIds = ids.map((id) => z.coerce.number().int().positive().parse(id.replace(/^#/, "")));
+
+  const update = updateTaskSchema.parse({ status: TaskStatus.DONE });
+  const completed: Task[] = [];
+  for (const id of taskIds) {
+    completed.push(await api.patch<Task>(`/api/tasks/${id}`, update));
+  }
+
+  if (options.json) {
+    printJson(completed);
+  } else {
+    completed.forEach((task) => console.log(`Done #${task.id}: ${task.title}`));
+  }
+}
+
+async function inbox(api: ApiClient, options: Options) {
+  const tasks = await api.get<Task[]>(`/api/tasks/status/${TaskStatus.INBOX}`);
+
+  if (options.json) {
+    printJson(tasks);
+  } else {
+    printTable(tasks, [
+      { header: "id", value: (task) => task.id },
+      { header: "title", value: (task) => task.title },
+      { header: "captured", value: (task) => formatDate(task.createdAt, "yyyy-MM-dd HH:mm") },
+    ], "Inbox zero.");
+  }
+}
+
+async function reviewStatus(api: ApiClient, options: Options) {
+  const [latest, tasks, projects] = await Promise.all([
+    api.get<WeeklyReview | null>("/api/weekly-reviews/latest"),
+    api.get<Task[]>("/api/tasks"),
+    api.get<Project[]>("/api/projects"),
+  ]);
+
+  const now = new Date();
+  const daysSinceReview = latest ? differenceInDays(now, new Date(latest.completedAt)) : null;
+  const stalledProjects = flattenProjectTree(buildProjectTree(projects, tasks))
+    .filter((node) => node.stalled)
+    .map((node) => node.project.name);
+  const status = {
+    lastReviewAt: latest?.completedAt ?? null,
+    daysSinceReview,
+    reviewDue: daysSinceReview === null || daysSinceReview >= REVIEW_INTERVAL_DAYS,
+    inbox: tasks.filter((task) => task.status === TaskStatus.INBOX).length,
+    nextActions: tasks.filter((task) => task.status === TaskStatus.NEXT_ACTION).length,
+    overdueWaitingFor: tasks.filter((task) =>
+      task.status === TaskStatus.WAITING &&
+      !!task.waitingForFollowUp &&
+      isBefore(new Date(task.waitingForFollowUp), now)
+    ).length,
+    stalledProjects,
+  };
+
+  if (options.json) {
+    printJson(status);
+    return;
+  }
+  printFields([
+    ["Last review", latest ? `${formatDate(latest.completedAt)} (${daysSinceReview}d ago)` : "Never"],
+    ["Review due", status.reviewDue ? "Yes" : "No"],
+    ["Inbox", status.inbox],
+    ["Next actions", status.nextActions],
+    ["Overdue waiting for", status.overdueWaitingFor],
+    ["Stalled projects", stalledProjects.length > 0 ? `${stalledProjects.length} (${stalledProjects.join(", ")})` : 0],
+  ]);
+}
+
+async function config(options: Options) {
+  if (options.url || options.token) {
+    const file = await saveConfig({ url: options.url, token: options.token });
+    console.log(`Saved to ${file}`);
+    return;
+  }
+
+  const current = await loadConfig();
+  const token = current.token ? `${current.token.slice(0, 10)}…` : null;
+  if (options.json) {
+    printJson({ url: current.url ?? null, token });
+  } else {
+    printFields([["URL", current.url ?? "(not set)"], ["Token", token ?? "(not set)"]]);
+  }
+}
+
+async function main(argv: string[]) {
+  const { values: options, positionals } = parseArgs({
+    args: argv,
+    allowPositionals: true,
+    options: {
+      json: { type: "boolean" },
+      help: { type: "boolean", short: "h" },
+      notes: { type: "string" },
+      context: { type: "string" },
+      project: { type: "string" },
+      energy: { type: "string" },
+      time: { type: "string" },
+      status: { type: "string" },
+      url: { type: "string" },
+      token: { type: "string" },
+    },
+  });
+  const [command, ...args] = positionals;
+
+  if (options.help || !command || command === "help") {
+    console.log(USAGE);
+    return;
+  }
+  if (command === "config") {
+    await config(options);
+    return;
+  }
+
+  const api = new ApiClient(await loadConfig());
+  switch (command) {
+    case "add":
+      return add(api, args, options);
+    case "ls":
+      return list(api, options);
+    case "done":
+      return done(api, args, options);
+    case "inbox":
+      return inbox(api, options);
+    case "review-status":
+      return reviewStatus(api, options);
+    default:
+      throw new UsageError(`Unknown command "${command}". Run \`gtd --help\` for the list.`);
+  }
+}
+
+main(process.argv.slice(2)).catch((error) => {
+  if (error instanceof z.ZodError) {
+    console.error(`gtd: ${error.errors.map((issue) => `${issue.path.join(".") || "value"}: ${issue.message}`).join("; ")}`);
+  } else {
+    console.error(`gtd: ${error instanceof Error ? error.message : error}`);
+  }
+  process.exitCode = error instanceof UsageError ? 2 : 1;
+});
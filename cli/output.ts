@@ -0,0 +1,42 @@
+// Longest a table cell may get before it's cut short with an ellipsis
+const MAX_CELL_WIDTH = 60;
+
+export interface Column<T> {
+  header: string;
+  value: (row: T) => string | number | null | undefined;
+}
+
+function cell(value: string | number | null | undefined): string {
+  const text = value === null || value === undefined ? "" : String(value);
+  return text.length > MAX_CELL_WIDTH ? `${text.slice(0, MAX_CELL_WIDTH - 1)}…` : text;
+}
+
+export function printJson(data: unknown) {
+  console.log(JSON.stringify(data, null, 2));
+}
+
+export function printTable<T>(rows: T[], columns: Column<T>[], empty = "Nothing here.") {
+  if (rows.length === 0) {
+    console.log(empty);
+    return;
+  }
+
+  const cells = rows.map((row) => columns.map((column) => cell(column.value(row))));
+  const widths = columns.map((column, i) =>
+    Math.max(column.header.length, ...cells.map((row) => row[i].length))
+  );
+  const line = (values: string[]) => values.map((value, i) => value.padEnd(widths[i])).join("  ").trimEnd();
+
+  console.log(line(columns.map((column) => column.header.toUpperCase())));
+  for (const row of cells) {
+    console.log(line(row));
+  }
+}
+
+// Label/value pairs, one per line with the values lined up
+export function printFields(fields: [string, string | number][]) {
+  const width = Math.max(...fields.map(([label]) => label.length));
+  for (const [label, value] of fields) {
+    console.log(`${label.padEnd(width)}  ${value}`);
+  }
+}
@@ -8,6 +8,9 @@ import Inbox from "@/pages/inbox";
 import Projects from "@/pages/projects";
 import NextActions from "@/pages/next-actions";
 import WaitingFor from "@/pages/waiting-for";
+import People from "@/pages/people";
+import Agendas from "@/pages/agendas";
+import Templates from "@/pages/templates";
 import Calendar from "@/pages/calendar";
 import Reference from "@/pages/reference";
 import Incubate from "@/pages/incubate";
@@ -15,7 +18,11 @@ import Trash from "@/pages/trash";
 import Done from "@/pages/done";
 import Settings from "@/pages/settings";
 import WeeklyReview from "@/pages/weekly-review";
+import AuthPage from "@/pages/auth";
 import SidebarNav from "@/components/sidebar-nav";
+import CommandPalette from "@/components/command-palette";
+import { useAuth } from "@/hooks/use-auth";
+import { Loader2 } from "lucide-react";
 
 function Router() {
   const [location] = useLocation();
@@ -30,8 +37,11 @@ function Router() {
           <Route path="/" component={Dashboard} />
           <Route path="/inbox" component={Inbox} />
           <Route path="/projects" component={Projects} />
+          <Route path="/templates" component={Templates} />
           <Route path="/next-actions" component={NextActions} />
           <Route path="/waiting-for" component={WaitingFor} />
+          <Route path="/people" component={People} />
+          <Route path="/agendas" component={Agendas} />
           <Route path="/calendar" component={Calendar} />
           <Route path="/weekly-review" component={WeeklyReview} />
           <Route path="/done" component={Done} />
@@ -42,14 +52,30 @@ function Router() {
           <Route component={NotFound} />
         </Switch>
       </main>
+      <CommandPalette />
     </div>
   );
 }
 
+// Signed-out visitors only ever see the sign-in page
+function AuthGate() {
+  const { user, isLoading } = useAuth();
+
+  if (isLoading) {
+    return (
+      <div className="flex h-screen items-center justify-center">
+        <Loader2 className="h-8 w-8 animate-spin text-muted-foreground" />
+      </div>
+    );
+  }
+
+  return user ? <Router /> : <AuthPage />;
+}
+
 function App() {
   return (
     <QueryClientProvider client={queryClient}>
-      <Router />
+      <AuthGate />
       <Toaster />
     </QueryClientProvider>
   );
@@ -0,0 +1,226 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import {
+  ApiTokenScope,
+  insertApiTokenSchema,
+  type CreatedApiToken,
+  type InsertApiToken,
+  type PublicApiToken,
+} from "@shared/schema";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Checkbox } from "@/components/ui/checkbox";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import {
+  Form,
+  FormControl,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import { Copy, Loader2, Plus, Trash2 } from "lucide-react";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { formatDistanceToNow } from "date-fns";
+
+const SCOPE_OPTIONS = [
+  { value: ApiTokenScope.CAPTURE, label: "Capture", description: "Add items to the inbox" },
+  { value: ApiTokenScope.READ, label: "Read", description: "View tasks, projects and everything else" },
+  { value: ApiTokenScope.WRITE, label: "Write", description: "Create, change and delete anything" },
+];
+
+const DEFAULT_VALUES: InsertApiToken = {
+  name: "",
+  scopes: [ApiTokenScope.CAPTURE],
+};
+
+// Personal access tokens for scripts. A new token is shown once, right after
+// it's created; the server only keeps its hash.
+export default function ApiTokenSettings() {
+  const { toast } = useToast();
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [createdToken, setCreatedToken] = useState<CreatedApiToken | null>(null);
+
+  const { data: tokens = [], isLoading } = useQuery<PublicApiToken[]>({
+    queryKey: ["/api/tokens"],
+  });
+
+  const form = useForm<InsertApiToken>({
+    resolver: zodResolver(insertApiTokenSchema),
+    defaultValues: DEFAULT_VALUES,
+  });
+
+  const createMutation = useMutation({
+    mutationFn: async (data: InsertApiToken) => {
+      const res = await apiRequest("POST", "/api/tokens", data);
+      return res.json() as Promise<CreatedApiToken>;
+    },
+    onSuccess: (token) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/tokens"] });
+      setCreatedToken(token);
+    },
+    onError: (error: Error) => {
+      toast({ title: "Failed to create token", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const revokeMutation = useMutation({
+    mutationFn: async (id: number) => {
+      await apiRequest("DELETE", `/api/tokens/${id}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/tokens"] });
+      toast({ title: "Token revoked" });
+    },
+  });
+
+  const handleOpenChange = (open: boolean) => {
+    setDialogOpen(open);
+    if (!open) {
+      setCreatedToken(null);
+      form.reset(DEFAULT_VALUES);
+    }
+  };
+
+  const copyToken = async (token: string) => {
+    await navigator.clipboard.writeText(token);
+    toast({ title: "Token copied" });
+  };
+
+  return (
+    <div className="space-y-3">
+      {isLoading ? (
+        <Loader2 className="h-4 w-4 animate-spin text-muted-foreground" />
+      ) : (
+        tokens.map((token) => (
+          <div
+            key={token.id}
+            className="flex items-center justify-between p-3 bg-muted rounded-lg"
+            data-testid={`api-token-${token.id}`}
+          >
+            <div className="min-w-0 space-y-1">
+              <div className="flex items-center gap-2">
+                <p className="text-sm font-medium truncate">{token.name}</p>
+                {token.scopes.map((scope) => (
+                  <Badge key={scope} variant="outline">{scope}</Badge>
+                ))}
+              </div>
+              <p className="text-xs text-muted-foreground">
+                <code>{token.tokenPrefix}…</code>
+                {" · "}
+                {token.lastUsedAt
+                  ? `Last used ${formatDistanceToNow(new Date(token.lastUsedAt), { addSuffix: true })}`
+                  : "Never used"}
+              </p>
+            </div>
+            <Button
+              variant="ghost"
+              size="icon"
+              title="Revoke"
+              onClick={() => revokeMutation.mutate(token.id)}
+              disabled={revokeMutation.isPending}
+              data-testid={`button-revoke-api-token-${token.id}`}
+            >
+              <Trash2 className="h-4 w-4" />
+            </Button>
+          </div>
+        ))
+      )}
+
+      <Dialog open={dialogOpen} onOpenChange={handleOpenChange}>
+        <DialogTrigger asChild>
+          <Button variant="outline" size="sm" className="w-full" data-testid="button-add-api-token">
+            <Plus className="h-4 w-4 mr-2" />
+            New Token
+          </Button>
+        </DialogTrigger>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>New API Token</DialogTitle>
+            <DialogDescription>
+              Send it as <code>Authorization: Bearer &lt;token&gt;</code> with requests to <code>/api</code>.
+            </DialogDescription>
+          </DialogHeader>
+          {createdToken ? (
+            <div className="space-y-4">
+              <p className="text-sm">
+                Copy your token now - it won't be shown again.
+              </p>
+              <div className="flex items-center gap-2">
+                <Input readOnly value={createdToken.token} className="font-mono text-xs" data-testid="input-created-api-token" />
+                <Button variant="outline" size="icon" onClick={() => copyToken(createdToken.token)} data-testid="button-copy-api-token">
+                  <Copy className="h-4 w-4" />
+                </Button>
+              </div>
+              <Button className="w-full" onClick={() => handleOpenChange(false)}>
+                Done
+              </Button>
+            </div>
+          ) : (
+            <Form {...form}>
+              <form onSubmit={form.handleSubmit((data) => createMutation.mutate(data))} className="space-y-4">
+                <FormField
+                  control={form.control}
+                  name="name"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Name</FormLabel>
+                      <FormControl>
+                        <Input placeholder="Shell alias" {...field} data-testid="input-api-token-name" />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={form.control}
+                  name="scopes"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Scopes</FormLabel>
+                      <div className="space-y-2">
+                        {SCOPE_OPTIONS.map((option) => (
+                          <label key={option.value} className="flex items-start gap-2 text-sm cursor-pointer">
+                            <Checkbox
+                              checked={field.value.includes(option.value)}
+                              onCheckedChange={(checked) => field.onChange(
+                                checked
+                                  ? [...field.value, option.value]
+                                  : field.value.filter((scope) => scope !== option.value)
+                              )}
+                              data-testid={`checkbox-api-token-scope-${option.value}`}
+                            />
+                            <span>
+                              <span className="font-medium">{option.label}</span>
+                              <span className="text-muted-foreground"> - {option.description}</span>
+                            </span>
+                          </label>
+                        ))}
+                      </div>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <Button type="submit" className="w-full" disabled={createMutation.isPending}>
+                  {createMutation.isPending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                  Create Token
+                </Button>
+              </form>
+            </Form>
+          )}
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
@@ -0,0 +1,105 @@
+import { useState } from "react";
+import { type AttachmentMeta, INLINE_ATTACHMENT_TYPES } from "@shared/schema";
+import { Button } from "@/components/ui/button";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Download, Eye, FileText, Image as ImageIcon, Paperclip } from "lucide-react";
+
+interface AttachmentListProps {
+  attachments: AttachmentMeta[] | null | undefined;
+  // e.g. `/api/emails/12/attachments`; the attachment index is appended
+  baseUrl: string;
+  className?: string;
+}
+
+function formatSize(bytes: number) {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${Math.round(bytes / 1024)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
+
+function canPreview(attachment: AttachmentMeta) {
+  return INLINE_ATTACHMENT_TYPES.includes(attachment.contentType.toLowerCase());
+}
+
+export default function AttachmentList({ attachments, baseUrl, className }: AttachmentListProps) {
+  const [previewIndex, setPreviewIndex] = useState<number | null>(null);
+
+  if (!attachments || attachments.length === 0) return null;
+
+  const preview = previewIndex !== null ? attachments[previewIndex] : null;
+  const nameOf = (attachment: AttachmentMeta, index: number) =>
+    attachment.filename || `Attachment ${index + 1}`;
+
+  return (
+    <div className={className}>
+      <div className="flex items-center gap-2 mb-2 text-sm font-medium text-muted-foreground">
+        <Paperclip className="h-4 w-4" />
+        {attachments.length} Attachment{attachments.length > 1 ? "s" : ""}
+      </div>
+      <div className="flex flex-wrap gap-2">
+        {attachments.map((attachment, index) => {
+          const Icon = attachment.contentType.startsWith("image/") ? ImageIcon : FileText;
+          // Entries synced before attachments were stored have no checksum and no file
+          const stored = !!attachment.checksum;
+
+          return (
+            <div
+              key={index}
+              className="flex items-center gap-2 pl-3 pr-1 py-1 bg-background rounded-lg border"
+              data-testid={`attachment-${index}`}
+            >
+              <Icon className="h-4 w-4 text-muted-foreground" />
+              <span className="text-sm">{nameOf(attachment, index)}</span>
+              {attachment.size > 0 && (
+                <span className="text-xs text-muted-foreground">{formatSize(attachment.size)}</span>
+              )}
+              {stored && canPreview(attachment) && (
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  className="h-7 w-7"
+                  onClick={() => setPreviewIndex(index)}
+                  data-testid={`button-preview-attachment-${index}`}
+                >
+                  <Eye className="h-4 w-4" />
+                </Button>
+              )}
+              {stored && (
+                <Button variant="ghost" size="icon" className="h-7 w-7" asChild>
+                  <a href={`${baseUrl}/${index}?download`} download={nameOf(attachment, index)}>
+                    <Download className="h-4 w-4" />
+                  </a>
+                </Button>
+              )}
+            </div>
+          );
+        })}
+      </div>
+
+      <Dialog open={preview !== null} onOpenChange={(open) => !open && setPreviewIndex(null)}>
+        <DialogContent className="max-w-4xl">
+          <DialogHeader>
+            <DialogTitle className="truncate">
+              {preview && previewIndex !== null && nameOf(preview, previewIndex)}
+            </DialogTitle>
+          </DialogHeader>
+          {preview && previewIndex !== null && (
+            preview.contentType === "application/pdf" ? (
+              <iframe
+                src={`${baseUrl}/${previewIndex}`}
+                title={nameOf(preview, previewIndex)}
+                className="w-full h-[75vh] rounded border"
+              />
+            ) : (
+              <img
+                src={`${baseUrl}/${previewIndex}`}
+                alt={nameOf(preview, previewIndex)}
+                className="max-h-[75vh] mx-auto object-contain"
+              />
+            )
+          )}
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
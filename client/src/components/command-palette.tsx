@@ -0,0 +1,148 @@
+import { useState, useEffect } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { useLocation } from "wouter";
+import DOMPurify from "dompurify";
+import { TaskStatus, SearchResultType, type SearchResult } from "@shared/schema";
+import { Dialog, DialogContent, DialogTitle } from "@/components/ui/dialog";
+import {
+  Command,
+  CommandInput,
+  CommandList,
+  CommandEmpty,
+  CommandGroup,
+  CommandItem,
+} from "@/components/ui/command";
+import { Badge } from "@/components/ui/badge";
+import { CheckSquare, FolderOpen, Mail } from "lucide-react";
+
+// Dispatch on window to open the palette from anywhere (e.g. a nav button)
+export const OPEN_COMMAND_PALETTE_EVENT = "open-command-palette";
+
+const SEARCH_DEBOUNCE_MS = 200;
+
+const TASK_STATUS_ROUTES: Record<string, string> = {
+  [TaskStatus.INBOX]: "/inbox",
+  [TaskStatus.NEXT_ACTION]: "/next-actions",
+  [TaskStatus.WAITING]: "/waiting-for",
+  [TaskStatus.SOMEDAY]: "/incubate",
+  [TaskStatus.REFERENCE]: "/reference",
+  [TaskStatus.DONE]: "/done",
+  [TaskStatus.TRASH]: "/trash",
+};
+
+const GROUPS = [
+  { type: SearchResultType.TASK, heading: "Tasks", icon: CheckSquare },
+  { type: SearchResultType.PROJECT, heading: "Projects", icon: FolderOpen },
+  { type: SearchResultType.EMAIL, heading: "Emails", icon: Mail },
+];
+
+function getResultRoute(result: SearchResult) {
+  if (result.type === SearchResultType.PROJECT) return "/projects";
+  if (result.type === SearchResultType.EMAIL) return "/inbox";
+  return TASK_STATUS_ROUTES[result.status || ""] || "/next-actions";
+}
+
+export default function CommandPalette() {
+  const [, setLocation] = useLocation();
+  const [open, setOpen] = useState(false);
+  const [query, setQuery] = useState("");
+  const [debouncedQuery, setDebouncedQuery] = useState("");
+
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key.toLowerCase() === "k" && (e.metaKey || e.ctrlKey)) {
+        e.preventDefault();
+        setOpen((isOpen) => !isOpen);
+      }
+    };
+    const handleOpen = () => setOpen(true);
+
+    window.addEventListener("keydown", handleKeyDown);
+    window.addEventListener(OPEN_COMMAND_PALETTE_EVENT, handleOpen);
+    return () => {
+      window.removeEventListener("keydown", handleKeyDown);
+      window.removeEventListener(OPEN_COMMAND_PALETTE_EVENT, handleOpen);
+    };
+  }, []);
+
+  useEffect(() => {
+    const timeout = setTimeout(() => setDebouncedQuery(query.trim()), SEARCH_DEBOUNCE_MS);
+    return () => clearTimeout(timeout);
+  }, [query]);
+
+  const { data: results = [], isFetching } = useQuery<SearchResult[]>({
+    queryKey: [`/api/search?q=${encodeURIComponent(debouncedQuery)}`],
+    enabled: open && debouncedQuery.length > 0,
+    staleTime: 0,
+  });
+
+  const handleOpenChange = (isOpen: boolean) => {
+    setOpen(isOpen);
+    if (!isOpen) setQuery("");
+  };
+
+  const handleSelect = (result: SearchResult) => {
+    handleOpenChange(false);
+    setLocation(getResultRoute(result));
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogContent className="overflow-hidden p-0 shadow-lg">
+        <DialogTitle className="sr-only">Search</DialogTitle>
+        <Command
+          shouldFilter={false}
+          className="[&_[cmdk-group-heading]]:px-2 [&_[cmdk-group-heading]]:font-medium [&_[cmdk-group-heading]]:text-muted-foreground [&_[cmdk-group]]:px-2 [&_[cmdk-input]]:h-12 [&_[cmdk-item]]:px-2 [&_[cmdk-item]]:py-3"
+        >
+          <CommandInput
+            value={query}
+            onValueChange={setQuery}
+            placeholder="Search tasks, projects, reference and email..."
+            data-testid="input-command-palette"
+          />
+          <CommandList>
+            {debouncedQuery && !isFetching && (
+              <CommandEmpty>No results for "{debouncedQuery}"</CommandEmpty>
+            )}
+            {GROUPS.map(({ type, heading, icon: Icon }) => {
+              const groupResults = results.filter((result) => result.type === type);
+              if (groupResults.length === 0) return null;
+
+              return (
+                <CommandGroup key={type} heading={heading}>
+                  {groupResults.map((result) => (
+                    <CommandItem
+                      key={`${result.type}-${result.id}`}
+                      value={`${result.type}-${result.id}`}
+                      onSelect={() => handleSelect(result)}
+                      className="items-start gap-3"
+                      data-testid={`search-result-${result.type}-${result.id}`}
+                    >
+                      <Icon className="h-4 w-4 mt-0.5 flex-shrink-0" />
+                      <div className="flex-1 min-w-0">
+                        <div className="flex items-center gap-2">
+                          <span className="font-medium truncate">{result.title}</span>
+                          {result.status && (
+                            <Badge variant="outline" className="text-xs">{result.status}</Badge>
+                          )}
+                        </div>
+                        {result.snippet.trim() && (
+                          <p
+                            className="text-xs text-muted-foreground line-clamp-2 [&_mark]:bg-yellow-200 [&_mark]:text-foreground"
+                            dangerouslySetInnerHTML={{
+                              __html: DOMPurify.sanitize(result.snippet, { ALLOWED_TAGS: ["mark"] }),
+                            }}
+                          />
+                        )}
+                      </div>
+                    </CommandItem>
+                  ))}
+                </CommandGroup>
+              );
+            })}
+          </CommandList>
+        </Command>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,342 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { insertEmailAccountSchema, type InsertEmailAccount, type PublicEmailAccount } from "@shared/schema";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Switch } from "@/components/ui/switch";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import {
+  Form,
+  FormControl,
+  FormDescription,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import { Loader2, Plus, Star, Trash2, Zap } from "lucide-react";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+
+interface EmailTestResponse {
+  message: string;
+}
+
+const DEFAULT_VALUES: InsertEmailAccount = {
+  email: "",
+  name: "",
+  username: "",
+  password: "",
+  imapHost: "",
+  imapPort: 993,
+  smtpHost: "",
+  smtpPort: 587,
+  useSSL: true,
+  isDefault: false,
+};
+
+function invalidateAccounts() {
+  queryClient.invalidateQueries({ queryKey: ["/api/email-accounts"] });
+  queryClient.invalidateQueries({ queryKey: ["/api/integrations/status"] });
+}
+
+export default function EmailAccountSettings() {
+  const { toast } = useToast();
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [testingId, setTestingId] = useState<number | null>(null);
+
+  const { data: accounts = [], isLoading } = useQuery<PublicEmailAccount[]>({
+    queryKey: ["/api/email-accounts"],
+  });
+
+  const form = useForm<InsertEmailAccount>({
+    resolver: zodResolver(insertEmailAccountSchema),
+    defaultValues: DEFAULT_VALUES,
+  });
+
+  const createMutation = useMutation({
+    mutationFn: async (data: InsertEmailAccount) => {
+      await apiRequest("POST", "/api/email-accounts", {
+        ...data,
+        username: data.username || null,
+      });
+    },
+    onSuccess: () => {
+      invalidateAccounts();
+      setDialogOpen(false);
+      form.reset(DEFAULT_VALUES);
+      toast({ title: "Email account added" });
+    },
+    onError: () => {
+      toast({
+        title: "Failed to add account",
+        description: "Check the account details and try again.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const setDefaultMutation = useMutation({
+    mutationFn: async (id: number) => {
+      await apiRequest("PATCH", `/api/email-accounts/${id}`, { isDefault: true });
+    },
+    onSuccess: invalidateAccounts,
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: number) => {
+      await apiRequest("DELETE", `/api/email-accounts/${id}`);
+    },
+    onSuccess: () => {
+      invalidateAccounts();
+      toast({ title: "Email account removed" });
+    },
+  });
+
+  const testMutation = useMutation<EmailTestResponse, Error, number>({
+    mutationFn: async (id: number) => {
+      setTestingId(id);
+      const res = await apiRequest("POST", `/api/email-accounts/${id}/test`);
+      return res.json() as Promise<EmailTestResponse>;
+    },
+    onSuccess: (data) => {
+      toast({ title: "Email Connected", description: data.message });
+    },
+    onError: () => {
+      toast({
+        title: "Connection Failed",
+        description: "Could not connect to email server. For Gmail, you need an App Password (not your regular password). Go to Google Account → Security → 2-Step Verification → App passwords.",
+        variant: "destructive",
+        duration: 10000,
+      });
+    },
+    onSettled: () => setTestingId(null),
+  });
+
+  return (
+    <div className="space-y-3">
+      {isLoading ? (
+        <Loader2 className="h-4 w-4 animate-spin text-muted-foreground" />
+      ) : (
+        accounts.map((account) => (
+          <div
+            key={account.id}
+            className="flex items-center justify-between p-3 bg-muted rounded-lg"
+            data-testid={`email-account-${account.id}`}
+          >
+            <div className="min-w-0">
+              <div className="flex items-center gap-2">
+                <p className="text-sm font-medium truncate">{account.name}</p>
+                {account.isDefault && <Badge variant="outline">Default</Badge>}
+              </div>
+              <p className="text-sm text-muted-foreground truncate">{account.email}</p>
+            </div>
+            <div className="flex items-center gap-1">
+              {!account.isDefault && (
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  title="Send from this account by default"
+                  onClick={() => setDefaultMutation.mutate(account.id)}
+                  disabled={setDefaultMutation.isPending}
+                  data-testid={`button-default-email-account-${account.id}`}
+                >
+                  <Star className="h-4 w-4" />
+                </Button>
+              )}
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => testMutation.mutate(account.id)}
+                disabled={testMutation.isPending}
+                data-testid={`button-test-email-account-${account.id}`}
+              >
+                {testingId === account.id ? (
+                  <Loader2 className="h-4 w-4 animate-spin" />
+                ) : (
+                  <>
+                    <Zap className="h-4 w-4 mr-2" />
+                    Test
+                  </>
+                )}
+              </Button>
+              <Button
+                variant="ghost"
+                size="icon"
+                onClick={() => deleteMutation.mutate(account.id)}
+                disabled={deleteMutation.isPending}
+                data-testid={`button-delete-email-account-${account.id}`}
+              >
+                <Trash2 className="h-4 w-4" />
+              </Button>
+            </div>
+          </div>
+        ))
+      )}
+
+      <Dialog open={dialogOpen} onOpenChange={setDialogOpen}>
+        <DialogTrigger asChild>
+          <Button variant="outline" size="sm" className="w-full" data-testid="button-add-email-account">
+            <Plus className="h-4 w-4 mr-2" />
+            Add Email Account
+          </Button>
+        </DialogTrigger>
+        <DialogContent className="max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>Add Email Account</DialogTitle>
+          </DialogHeader>
+          <Form {...form}>
+            <form onSubmit={form.handleSubmit((data) => createMutation.mutate(data))} className="space-y-4">
+              <div className="grid grid-cols-2 gap-4">
+                <FormField
+                  control={form.control}
+                  name="name"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Display Name</FormLabel>
+                      <FormControl>
+                        <Input placeholder="Work" {...field} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={form.control}
+                  name="email"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Email Address</FormLabel>
+                      <FormControl>
+                        <Input type="email" placeholder="you@example.com" {...field} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              </div>
+              <FormField
+                control={form.control}
+                name="username"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Username</FormLabel>
+                    <FormControl>
+                      <Input placeholder="Defaults to the email address" {...field} value={field.value ?? ""} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="password"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Password</FormLabel>
+                    <FormControl>
+                      <Input type="password" autoComplete="new-password" {...field} />
+                    </FormControl>
+                    <FormDescription>For Gmail, use an App Password.</FormDescription>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <div className="grid grid-cols-3 gap-4">
+                <FormField
+                  control={form.control}
+                  name="imapHost"
+                  render={({ field }) => (
+                    <FormItem className="col-span-2">
+                      <FormLabel>IMAP Host</FormLabel>
+                      <FormControl>
+                        <Input placeholder="imap.gmail.com" {...field} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={form.control}
+                  name="imapPort"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Port</FormLabel>
+                      <FormControl>
+                        <Input type="number" {...field} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={form.control}
+                  name="smtpHost"
+                  render={({ field }) => (
+                    <FormItem className="col-span-2">
+                      <FormLabel>SMTP Host</FormLabel>
+                      <FormControl>
+                        <Input placeholder="smtp.gmail.com" {...field} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={form.control}
+                  name="smtpPort"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Port</FormLabel>
+                      <FormControl>
+                        <Input type="number" {...field} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              </div>
+              <FormField
+                control={form.control}
+                name="useSSL"
+                render={({ field }) => (
+                  <FormItem className="flex items-center justify-between">
+                    <FormLabel>Use SSL for IMAP</FormLabel>
+                    <FormControl>
+                      <Switch checked={field.value ?? true} onCheckedChange={field.onChange} />
+                    </FormControl>
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="isDefault"
+                render={({ field }) => (
+                  <FormItem className="flex items-center justify-between">
+                    <FormLabel>Send new emails from this account</FormLabel>
+                    <FormControl>
+                      <Switch checked={field.value ?? false} onCheckedChange={field.onChange} />
+                    </FormControl>
+                  </FormItem>
+                )}
+              />
+              <Button type="submit" className="w-full" disabled={createMutation.isPending}>
+                {createMutation.isPending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                Add Account
+              </Button>
+            </form>
+          </Form>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
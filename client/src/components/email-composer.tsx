@@ -1,7 +1,14 @@
-import { useState, useRef } from "react";
+import { useState, useRef, useEffect } from "react";
 import { useMutation } from "@tanstack/react-query";
-import { type Email } from "@shared/schema";
-import { apiRequest, queryClient } from "@/lib/queryClient";
+import {
+  type Email,
+  type EmailDraft,
+  type AttachmentMeta,
+  MAX_ATTACHMENT_SIZE,
+  BLOCKED_ATTACHMENT_EXTENSIONS,
+  BLOCKED_ATTACHMENT_TYPES,
+} from "@shared/schema";
+import { apiRequest, apiUpload, queryClient } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
 import {
   Dialog,
@@ -15,15 +22,37 @@ import { Input } from "@/components/ui/input";
 import { Textarea } from "@/components/ui/textarea";
 import { Label } from "@/components/ui/label";
 import { Badge } from "@/components/ui/badge";
-import { Send, Paperclip, X } from "lucide-react";
+import { Send, Paperclip, X, Loader2, Trash2 } from "lucide-react";
 
 type ComposerMode = "new" | "reply" | "forward";
 
+// Mirrors the server's upload checks so problems show up before sending
+function getAttachmentProblem(file: File): string | null {
+  const extension = file.name.split(".").pop()?.toLowerCase() || "";
+  if (file.size > MAX_ATTACHMENT_SIZE) {
+    return `${file.name} is larger than ${MAX_ATTACHMENT_SIZE / (1024 * 1024)} MB`;
+  }
+  if (BLOCKED_ATTACHMENT_EXTENSIONS.includes(extension) || BLOCKED_ATTACHMENT_TYPES.includes(file.type)) {
+    return `Files of this type can't be attached: ${file.name}`;
+  }
+  return null;
+}
+
+async function uploadAttachment(file: File): Promise<AttachmentMeta> {
+  const res = await apiUpload("/api/attachments", file);
+  return res.json();
+}
+
+// Wait this long after the last keystroke before autosaving the draft
+const DRAFT_AUTOSAVE_MS = 1000;
+
 interface EmailComposerProps {
   open: boolean;
   onOpenChange: (open: boolean) => void;
   mode?: ComposerMode;
   originalEmail?: Email;
+  // A saved draft to resume; otherwise reply/forward drafts are keyed by the original email
+  draft?: EmailDraft;
 }
 
 export default function EmailComposer({
@@ -31,17 +60,23 @@ export default function EmailComposer({
   onOpenChange,
   mode = "new",
   originalEmail,
+  draft,
 }: EmailComposerProps) {
   const { toast } = useToast();
   const fileInputRef = useRef<HTMLInputElement>(null);
 
+  const [draftKey] = useState(() =>
+    draft?.key ?? (originalEmail && mode !== "new" ? `${mode}-${originalEmail.id}` : `new-${Date.now()}`)
+  );
+  const [isDirty, setIsDirty] = useState(false);
+
   const [to, setTo] = useState(
-    mode === "reply" && originalEmail ? originalEmail.sender : ""
+    draft ? draft.to : mode === "reply" && originalEmail ? originalEmail.sender : ""
   );
-  const [cc, setCc] = useState("");
-  const [bcc, setBcc] = useState("");
+  const [cc, setCc] = useState(draft?.cc ?? "");
+  const [bcc, setBcc] = useState(draft?.bcc ?? "");
   const [subject, setSubject] = useState(
-    mode === "reply" && originalEmail
+    draft ? draft.subject : mode === "reply" && originalEmail
       ? originalEmail.subject.startsWith("Re: ")
         ? originalEmail.subject
         : `Re: ${originalEmail.subject}`
@@ -52,13 +87,58 @@ export default function EmailComposer({
       : ""
   );
   const [body, setBody] = useState(
-    mode === "forward" && originalEmail
+    draft ? draft.body : mode === "forward" && originalEmail
       ? `\n\n---------- Forwarded message ---------\nFrom: ${originalEmail.sender}\nSubject: ${originalEmail.subject}\n\n${originalEmail.content}`
       : ""
   );
-  const [attachments, setAttachments] = useState<File[]>([]);
-  const [showCc, setShowCc] = useState(false);
-  const [showBcc, setShowBcc] = useState(false);
+  const [attachments, setAttachments] = useState<AttachmentMeta[]>(draft?.attachments || []);
+  const [uploadingCount, setUploadingCount] = useState(0);
+  const forwardedAttachments = mode === "forward"
+    ? (originalEmail?.attachments || []).filter((attachment) => attachment.checksum)
+    : [];
+  const [showCc, setShowCc] = useState(!!draft?.cc);
+  const [showBcc, setShowBcc] = useState(!!draft?.bcc);
+
+  // Marks the draft as changed so the autosave below picks it up
+  const edit = <T,>(setter: (value: T) => void) => (value: T) => {
+    setter(value);
+    setIsDirty(true);
+  };
+
+  const saveDraft = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("PUT", `/api/drafts/${draftKey}`, {
+        mode,
+        originalEmailId: originalEmail?.id ?? draft?.originalEmailId ?? null,
+        to,
+        cc,
+        bcc,
+        subject,
+        body,
+        attachments,
+      });
+      return res.json() as Promise<EmailDraft>;
+    },
+    onSuccess: () => {
+      setIsDirty(false);
+      queryClient.invalidateQueries({ queryKey: ["/api/drafts"] });
+    },
+  });
+
+  const deleteDraft = useMutation({
+    mutationFn: async () => {
+      await apiRequest("DELETE", `/api/drafts/${draftKey}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/drafts"] });
+    },
+  });
+
+  useEffect(() => {
+    if (!isDirty) return;
+    const timeout = setTimeout(() => saveDraft.mutate(), DRAFT_AUTOSAVE_MS);
+    return () => clearTimeout(timeout);
+  }, [isDirty, to, cc, bcc, subject, body, attachments]);
 
   const sendEmail = useMutation({
     mutationFn: async (data: {
@@ -67,7 +147,7 @@ export default function EmailComposer({
       text: string;
       cc?: string;
       bcc?: string;
-      attachments?: any[];
+      attachments?: AttachmentMeta[];
     }) => {
       if (mode === "reply" && originalEmail) {
         const res = await apiRequest("POST", `/api/emails/${originalEmail.id}/reply`, {
@@ -89,11 +169,13 @@ export default function EmailComposer({
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["/api/emails"] });
+      setIsDirty(false);
+      deleteDraft.mutate();
       toast({
         title: "Email sent",
         description: "Your email has been sent successfully",
       });
-      handleClose();
+      onOpenChange(false);
     },
     onError: (error: Error) => {
       toast({
@@ -106,13 +188,34 @@ export default function EmailComposer({
 
   const handleFileSelect = (e: React.ChangeEvent<HTMLInputElement>) => {
     if (e.target.files) {
-      const newFiles = Array.from(e.target.files);
-      setAttachments((prev) => [...prev, ...newFiles]);
+      const newFiles = Array.from(e.target.files).filter((file) => {
+        const problem = getAttachmentProblem(file);
+        if (problem) {
+          toast({ title: "Can't attach file", description: problem, variant: "destructive" });
+        }
+        return !problem;
+      });
+
+      // Files are uploaded straight away so an autosaved draft keeps them
+      setUploadingCount((count) => count + newFiles.length);
+      for (const file of newFiles) {
+        uploadAttachment(file)
+          .then((attachment) => {
+            setAttachments((prev) => [...prev, attachment]);
+            setIsDirty(true);
+          })
+          .catch((error: Error) => {
+            toast({ title: `Failed to upload ${file.name}`, description: error.message, variant: "destructive" });
+          })
+          .finally(() => setUploadingCount((count) => count - 1));
+      }
+      // Allow picking the same file again after removing it
+      e.target.value = "";
     }
   };
 
   const handleRemoveAttachment = (index: number) => {
-    setAttachments((prev) => prev.filter((_, i) => i !== index));
+    edit(setAttachments)(attachments.filter((_, i) => i !== index));
   };
 
   const handleSend = () => {
@@ -134,31 +237,27 @@ export default function EmailComposer({
       return;
     }
 
-    const attachmentData = attachments.map((file) => ({
-      filename: file.name,
-      content: file,
-      contentType: file.type,
-    }));
-
     sendEmail.mutate({
       to: to.trim(),
       subject: subject.trim(),
       text: body.trim(),
       cc: cc.trim() || undefined,
       bcc: bcc.trim() || undefined,
-      attachments: attachmentData.length > 0 ? attachmentData : undefined,
+      attachments: attachments.length > 0 ? attachments : undefined,
     });
   };
 
+  // Closing keeps the draft; save any edits the autosave hasn't caught yet
   const handleClose = () => {
-    setTo("");
-    setCc("");
-    setBcc("");
-    setSubject("");
-    setBody("");
-    setAttachments([]);
-    setShowCc(false);
-    setShowBcc(false);
+    if (isDirty) {
+      saveDraft.mutate();
+    }
+    onOpenChange(false);
+  };
+
+  const handleDiscard = () => {
+    setIsDirty(false);
+    deleteDraft.mutate();
     onOpenChange(false);
   };
 
@@ -190,7 +289,7 @@ export default function EmailComposer({
                 type="email"
                 placeholder="recipient@example.com"
                 value={to}
-                onChange={(e) => setTo(e.target.value)}
+                onChange={(e) => edit(setTo)(e.target.value)}
                 multiple
               />
             </div>
@@ -234,7 +333,7 @@ export default function EmailComposer({
                 type="email"
                 placeholder="cc@example.com"
                 value={cc}
-                onChange={(e) => setCc(e.target.value)}
+                onChange={(e) => edit(setCc)(e.target.value)}
               />
             </div>
           )}
@@ -248,7 +347,7 @@ export default function EmailComposer({
                 type="email"
                 placeholder="bcc@example.com"
                 value={bcc}
-                onChange={(e) => setBcc(e.target.value)}
+                onChange={(e) => edit(setBcc)(e.target.value)}
               />
             </div>
           )}
@@ -260,7 +359,7 @@ export default function EmailComposer({
               id="subject"
               placeholder="Email subject"
               value={subject}
-              onChange={(e) => setSubject(e.target.value)}
+              onChange={(e) => edit(setSubject)(e.target.value)}
             />
           </div>
 
@@ -271,25 +370,46 @@ export default function EmailComposer({
               id="body"
               placeholder="Write your message..."
               value={body}
-              onChange={(e) => setBody(e.target.value)}
+              onChange={(e) => edit(setBody)(e.target.value)}
               rows={12}
               className="resize-none"
             />
           </div>
 
+          {/* Forwarding re-attaches the original message's files */}
+          {forwardedAttachments.length > 0 && (
+            <div className="space-y-2">
+              <Label>Forwarded attachments</Label>
+              <div className="flex flex-wrap gap-2">
+                {forwardedAttachments.map((attachment, index) => (
+                  <Badge key={index} variant="outline" className="flex items-center gap-1">
+                    <Paperclip className="h-3 w-3" />
+                    {attachment.filename || `Attachment ${index + 1}`}
+                  </Badge>
+                ))}
+              </div>
+            </div>
+          )}
+
           {/* Attachments */}
+          {uploadingCount > 0 && (
+            <p className="flex items-center gap-2 text-sm text-muted-foreground">
+              <Loader2 className="h-4 w-4 animate-spin" />
+              Uploading {uploadingCount} file{uploadingCount > 1 ? "s" : ""}...
+            </p>
+          )}
           {attachments.length > 0 && (
             <div className="space-y-2">
               <Label>Attachments</Label>
               <div className="flex flex-wrap gap-2">
-                {attachments.map((file, index) => (
+                {attachments.map((attachment, index) => (
                   <Badge
                     key={index}
                     variant="secondary"
                     className="flex items-center gap-1 pr-1"
                   >
                     <Paperclip className="h-3 w-3" />
-                    {file.name}
+                    {attachment.filename || `Attachment ${index + 1}`}
                     <Button
                       type="button"
                       variant="ghost"
@@ -324,14 +444,27 @@ export default function EmailComposer({
             Attach Files
           </Button>
 
-          <div className="flex gap-2">
+          <div className="flex items-center gap-2">
+            <span className="text-xs text-muted-foreground" data-testid="text-draft-status">
+              {saveDraft.isPending ? "Saving draft..." : saveDraft.isSuccess && !isDirty ? "Draft saved" : ""}
+            </span>
+            <Button
+              type="button"
+              variant="ghost"
+              size="icon"
+              onClick={handleDiscard}
+              title="Discard draft"
+              data-testid="button-discard-draft"
+            >
+              <Trash2 className="h-4 w-4" />
+            </Button>
             <Button type="button" variant="outline" onClick={handleClose}>
-              Cancel
+              Close
             </Button>
             <Button
               type="button"
               onClick={handleSend}
-              disabled={sendEmail.isPending}
+              disabled={sendEmail.isPending || uploadingCount > 0}
             >
               <Send className="h-4 w-4 mr-2" />
               {sendEmail.isPending ? "Sending..." : "Send"}
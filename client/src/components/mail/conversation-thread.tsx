@@ -0,0 +1,95 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import DOMPurify from "dompurify";
+import { type Email } from "@shared/schema";
+import { Badge } from "@/components/ui/badge";
+import { cn } from "@/lib/utils";
+import { format } from "date-fns";
+import { ChevronDown, ChevronRight, MessagesSquare } from "lucide-react";
+
+interface ConversationThreadProps {
+  email: Email;
+}
+
+// The other messages in the selected email's conversation, oldest first.
+// Each one starts collapsed to its sender and first line.
+export default function ConversationThread({ email }: ConversationThreadProps) {
+  const [expandedIds, setExpandedIds] = useState<Set<number>>(new Set());
+
+  const { data: thread = [] } = useQuery<Email[]>({
+    queryKey: [`/api/emails/${email.id}/thread`],
+    enabled: !!email.threadId,
+  });
+
+  const others = thread.filter((message) => message.id !== email.id);
+  if (others.length === 0) return null;
+
+  const toggle = (id: number) => {
+    setExpandedIds((current) => {
+      const next = new Set(current);
+      if (next.has(id)) {
+        next.delete(id);
+      } else {
+        next.add(id);
+      }
+      return next;
+    });
+  };
+
+  return (
+    <div className="border-b bg-muted/10" data-testid="conversation-thread">
+      <div className="flex items-center gap-2 px-6 pt-4 pb-2 text-sm font-medium text-muted-foreground">
+        <MessagesSquare className="h-4 w-4" />
+        {thread.length} messages in this conversation
+      </div>
+      <ol className="px-6 pb-4 space-y-2">
+        {others.map((message) => {
+          const isExpanded = expandedIds.has(message.id);
+          const senderName = message.sender.replace(/<.*>/, "").trim() || message.sender;
+
+          return (
+            <li
+              key={message.id}
+              className="rounded-lg border bg-background"
+              data-testid={`thread-message-${message.id}`}
+            >
+              <button
+                type="button"
+                onClick={() => toggle(message.id)}
+                className="flex w-full items-center gap-2 p-3 text-left"
+              >
+                {isExpanded ? (
+                  <ChevronDown className="h-4 w-4 flex-shrink-0 text-muted-foreground" />
+                ) : (
+                  <ChevronRight className="h-4 w-4 flex-shrink-0 text-muted-foreground" />
+                )}
+                <span className="text-sm font-medium truncate">{senderName}</span>
+                {!message.processed && <Badge variant="secondary">Unprocessed</Badge>}
+                <span className={cn("flex-1 text-sm text-muted-foreground truncate", isExpanded && "invisible")}>
+                  {message.content.substring(0, 100)}
+                </span>
+                <span className="text-xs text-muted-foreground flex-shrink-0">
+                  {format(new Date(message.receivedAt), "MMM d, h:mm a")}
+                </span>
+              </button>
+              {isExpanded && (
+                <div className="px-9 pb-4">
+                  {message.htmlContent ? (
+                    <div
+                      className="prose prose-sm max-w-none"
+                      dangerouslySetInnerHTML={{ __html: DOMPurify.sanitize(message.htmlContent) }}
+                    />
+                  ) : (
+                    <pre className="whitespace-pre-wrap font-sans text-sm leading-relaxed">
+                      {message.content}
+                    </pre>
+                  )}
+                </div>
+              )}
+            </li>
+          );
+        })}
+      </ol>
+    </div>
+  );
+}
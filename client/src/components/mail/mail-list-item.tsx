@@ -112,6 +112,11 @@ export default function MailListItem({ item, isSelected, onClick }: MailListItem
             )}
           >
             {senderName}
+            {item.threadCount && item.threadCount > 1 && (
+              <span className={cn("ml-1 font-normal", isSelected ? "text-white/70" : "text-muted-foreground")}>
+                ({item.threadCount})
+              </span>
+            )}
           </span>
           <span
             className={cn(
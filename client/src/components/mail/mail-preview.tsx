@@ -5,6 +5,8 @@ import { type Email, type Task, type Context, type Project, EmailFolder } from "
 import { apiRequest, queryClient } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
 import { type MailItem, isEmailItem, isTaskItem } from "@/types/mail";
+import AttachmentList from "@/components/attachment-list";
+import ConversationThread from "@/components/mail/conversation-thread";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
 import { Separator } from "@/components/ui/separator";
@@ -21,8 +23,6 @@ import {
   Archive,
   Trash2,
   Folder,
-  Paperclip,
-  Download,
   CheckSquare,
   ArrowRight,
 } from "lucide-react";
@@ -160,16 +160,18 @@ export default function MailPreview({
 
         <div className="flex-1" />
 
-        {/* GTD Process button - always visible */}
-        <Button
-          variant="default"
-          size="sm"
-          onClick={() => onProcess?.(item)}
-          className="gap-1.5 bg-blue-500 hover:bg-blue-600"
-        >
-          <ArrowRight className="h-4 w-4" />
-          Process (GTD)
-        </Button>
+        {/* GTD Process button - shown wherever items can be processed */}
+        {onProcess && (
+          <Button
+            variant="default"
+            size="sm"
+            onClick={() => onProcess(item)}
+            className="gap-1.5 bg-blue-500 hover:bg-blue-600"
+          >
+            <ArrowRight className="h-4 w-4" />
+            Process (GTD)
+          </Button>
+        )}
       </div>
 
       {/* Move folder dropdown */}
@@ -240,25 +242,23 @@ export default function MailPreview({
         )}
       </div>
 
+      {/* Earlier and later messages in the conversation */}
+      {isEmail && email && <ConversationThread email={email} />}
+
       {/* Attachments */}
-      {isEmail && email?.attachments && email.attachments.length > 0 && (
-        <div className="p-4 border-b bg-muted/20">
-          <div className="flex items-center gap-2 mb-2 text-sm font-medium text-muted-foreground">
-            <Paperclip className="h-4 w-4" />
-            {email.attachments.length} Attachment{email.attachments.length > 1 ? "s" : ""}
-          </div>
-          <div className="flex flex-wrap gap-2">
-            {email.attachments.map((attachment: any, index: number) => (
-              <div
-                key={index}
-                className="flex items-center gap-2 px-3 py-2 bg-background rounded-lg border cursor-pointer hover:bg-accent transition-colors"
-              >
-                <Download className="h-4 w-4 text-muted-foreground" />
-                <span className="text-sm">{attachment.filename || `Attachment ${index + 1}`}</span>
-              </div>
-            ))}
-          </div>
-        </div>
+      {isEmail && email && (
+        <AttachmentList
+          attachments={email.attachments}
+          baseUrl={`/api/emails/${email.id}/attachments`}
+          className="p-4 border-b bg-muted/20"
+        />
+      )}
+      {!isEmail && task && (
+        <AttachmentList
+          attachments={task.attachments}
+          baseUrl={`/api/tasks/${task.id}/attachments`}
+          className="p-4 border-b bg-muted/20"
+        />
       )}
 
       {/* Content */}
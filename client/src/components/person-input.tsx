@@ -0,0 +1,112 @@
+import { forwardRef, useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { type Person, type PersonSuggestion } from "@shared/schema";
+import { Input } from "@/components/ui/input";
+import { Mail, User } from "lucide-react";
+
+const MAX_MATCHES = 6;
+
+export interface PersonPick {
+  name: string;
+  email: string | null;
+  // Null for suggestions drawn from email senders, who aren't people yet
+  personId: number | null;
+}
+
+interface PersonInputProps {
+  value: string;
+  onChange: (value: string) => void;
+  onPick?: (pick: PersonPick) => void;
+  onBlur?: () => void;
+  name?: string;
+  placeholder?: string;
+  "data-testid"?: string;
+}
+
+// Text input for a person's name that autocompletes from the people registry
+// and from frequent email senders
+const PersonInput = forwardRef<HTMLInputElement, PersonInputProps>(
+  ({ value, onChange, onPick, onBlur, ...props }, ref) => {
+    const [focused, setFocused] = useState(false);
+
+    const { data: people = [] } = useQuery<Person[]>({
+      queryKey: ["/api/people"],
+    });
+
+    const { data: suggestions = [] } = useQuery<PersonSuggestion[]>({
+      queryKey: ["/api/people/suggestions"],
+    });
+
+    const query = value.trim().toLowerCase();
+    const matches: PersonPick[] = query
+      ? [
+          ...people
+            .filter((person) =>
+              person.name.toLowerCase().includes(query) ||
+              person.emails.some((email) => email.includes(query))
+            )
+            .map((person) => ({ name: person.name, email: person.emails[0] ?? null, personId: person.id })),
+          ...suggestions
+            .filter((suggestion) =>
+              suggestion.name.toLowerCase().includes(query) || suggestion.email.includes(query)
+            )
+            .map((suggestion) => ({ name: suggestion.name, email: suggestion.email, personId: null })),
+        ].slice(0, MAX_MATCHES)
+      : [];
+
+    // Nothing to offer once the text is exactly one person's name
+    const showMatches = focused && matches.length > 0 &&
+      !(matches.length === 1 && matches[0].name.toLowerCase() === query);
+
+    const pick = (match: PersonPick) => {
+      onChange(match.name);
+      onPick?.(match);
+      setFocused(false);
+    };
+
+    return (
+      <div className="relative">
+        <Input
+          {...props}
+          ref={ref}
+          value={value}
+          onChange={(e) => onChange(e.target.value)}
+          onFocus={() => setFocused(true)}
+          onBlur={() => {
+            setFocused(false);
+            onBlur?.();
+          }}
+          autoComplete="off"
+        />
+        {showMatches && (
+          <ul className="absolute z-50 mt-1 w-full rounded-md border bg-popover p-1 shadow-md">
+            {matches.map((match) => (
+              <li key={`${match.personId ?? "sender"}-${match.email ?? match.name}`}>
+                <button
+                  type="button"
+                  // Keep focus in the input so the click lands before the list closes
+                  onMouseDown={(e) => e.preventDefault()}
+                  onClick={() => pick(match)}
+                  className="flex w-full items-center gap-2 rounded-sm px-2 py-1.5 text-left text-sm hover:bg-accent"
+                >
+                  {match.personId ? (
+                    <User className="h-4 w-4 text-muted-foreground" />
+                  ) : (
+                    <Mail className="h-4 w-4 text-muted-foreground" />
+                  )}
+                  <span className="truncate">{match.name}</span>
+                  {match.email && match.email !== match.name && (
+                    <span className="ml-auto truncate text-xs text-muted-foreground">{match.email}</span>
+                  )}
+                </button>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+    );
+  }
+);
+PersonInput.displayName = "PersonInput";
+
+export default PersonInput;
@@ -1,4 +1,5 @@
 import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
 import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { z } from "zod";
@@ -21,6 +22,7 @@ import {
 } from "@/components/ui/form";
 import { Input } from "@/components/ui/input";
 import { Textarea } from "@/components/ui/textarea";
+import { Switch } from "@/components/ui/switch";
 import {
   Select,
   SelectContent,
@@ -30,11 +32,13 @@ import {
 } from "@/components/ui/select";
 import { Calendar } from "@/components/ui/calendar";
 import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
-import { CalendarIcon, Trash2, Archive, Clock, UserPlus, FolderPlus } from "lucide-react";
+import { CalendarIcon, Trash2, Archive, Clock, UserPlus, FolderPlus, CalendarClock } from "lucide-react";
 import { format } from "date-fns";
-import { TaskStatus, TimeEstimate, EnergyLevel, type Task, type Email, type Context, type Project } from "@shared/schema";
+import { TaskStatus, TimeEstimate, EnergyLevel, recurrenceRuleSchema, type Task, type Email, type Context, type Project, type Agenda, type ProcessingResult, type RecurrenceRule } from "@shared/schema";
 import { cn } from "@/lib/utils";
 import CircularTimer from "@/components/circular-timer";
+import RecurrencePicker from "@/components/recurrence-picker";
+import PersonInput, { type PersonPick } from "@/components/person-input";
 
 type ProcessingStep =
   | "actionable"
@@ -45,7 +49,8 @@ type ProcessingStep =
   | "delegate-form"
   | "project-choice"
   | "project-form"
-  | "organize";
+  | "organize"
+  | "defer";
 
 type NonActionableChoice = "trash" | "reference" | "someday";
 
@@ -58,14 +63,7 @@ interface ProcessingDialogProps {
   onProcess: (data: ProcessingResult) => void;
 }
 
-export interface ProcessingResult {
-  action: "trash" | "reference" | "someday" | "do-now" | "delegate" | "next-action" | "defer";
-  task?: Partial<Task>;
-  createProject?: {
-    name: string;
-    description?: string;
-  };
-}
+export type { ProcessingResult };
 
 const nextActionSchema = z.object({
   nextAction: z
@@ -75,8 +73,21 @@ const nextActionSchema = z.object({
 
 const delegateSchema = z.object({
   waitingFor: z.string().min(1, "Please enter person's name"),
+  waitingForId: z.number().nullable(),
   followUpDate: z.date(),
-});
+  sendEmail: z.boolean(),
+  emailTo: z.string(),
+  emailSubject: z.string(),
+  emailBody: z.string(),
+}).refine(
+  (data) => !data.sendEmail || z.string().email().safeParse(data.emailTo).success,
+  { message: "Please enter a valid email address", path: ["emailTo"] }
+).refine(
+  (data) => !data.sendEmail || data.emailSubject.trim().length > 0,
+  { message: "Please enter a subject", path: ["emailSubject"] }
+);
+
+type DelegateFormValues = z.infer<typeof delegateSchema>;
 
 const projectSchema = z.object({
   projectName: z.string().min(3, "Project name must be at least 3 characters"),
@@ -86,9 +97,11 @@ const projectSchema = z.object({
 const organizeSchema = z.object({
   contextId: z.number().optional(),
   projectId: z.number().optional(),
+  agendaId: z.number().optional(),
   timeEstimate: z.string().optional(),
   energyLevel: z.string().optional(),
   dueDate: z.date().optional(),
+  recurrence: recurrenceRuleSchema.nullable().optional(),
 });
 
 export default function ProcessingDialog({
@@ -109,21 +122,28 @@ export default function ProcessingDialog({
   const [isTimerActive, setIsTimerActive] = useState(false);
   const [shouldDelegate, setShouldDelegate] = useState(false);
   const [shouldCreateProject, setShouldCreateProject] = useState(false);
-  const [delegateData, setDelegateData] = useState<{ waitingFor: string; followUpDate: Date } | null>(null);
+  const [delegateData, setDelegateData] = useState<DelegateFormValues | null>(null);
   const [projectData, setProjectData] = useState<{ name: string; description?: string } | null>(null);
+  const [deferDate, setDeferDate] = useState<Date | undefined>(undefined);
 
   const nextActionForm = useForm({
     resolver: zodResolver(nextActionSchema),
     defaultValues: { nextAction: "" },
   });
 
-  const delegateForm = useForm({
+  const delegateForm = useForm<DelegateFormValues>({
     resolver: zodResolver(delegateSchema),
     defaultValues: {
       waitingFor: "",
+      waitingForId: null,
       followUpDate: new Date(),
+      sendEmail: false,
+      emailTo: "",
+      emailSubject: "",
+      emailBody: "",
     },
   });
+  const sendDelegationEmail = delegateForm.watch("sendEmail");
 
   const projectForm = useForm({
     resolver: zodResolver(projectSchema),
@@ -138,12 +158,18 @@ export default function ProcessingDialog({
     defaultValues: {
       contextId: undefined,
       projectId: undefined,
+      agendaId: undefined,
       timeEstimate: undefined,
       energyLevel: undefined,
       dueDate: undefined,
+      recurrence: null,
     },
   });
 
+  const { data: agendas = [] } = useQuery<Agenda[]>({
+    queryKey: ["/api/agendas"],
+  });
+
   const getItemTitle = () => {
     return item.type === "email" ? (item as Email).subject : (item as Task).title;
   };
@@ -207,6 +233,18 @@ export default function ProcessingDialog({
     resetDialog();
   };
 
+  const handleDeferSubmit = () => {
+    if (!deferDate) return;
+    onProcess({
+      action: "defer",
+      task: {
+        title: getItemTitle(),
+        tickleDate: deferDate,
+      },
+    });
+    resetDialog();
+  };
+
   const handleNextActionSubmit = (data: { nextAction: string }) => {
     setNextAction(data.nextAction);
     navigateToStep("two-minute");
@@ -226,22 +264,48 @@ export default function ProcessingDialog({
     resetDialog();
   };
 
+  // Starting text for the delegation email; the original email is quoted below it
+  const getDelegationBody = () => {
+    const request = `Hi,\n\nCould you please take care of this: ${nextAction}\n\nThanks!`;
+    if (item.type !== "email") return request;
+    const email = item as Email;
+    return `${request}\n\n---------- Original Message ----------\nFrom: ${email.sender}\nSubject: ${email.subject}\n\n${email.content}`;
+  };
+
   const handleDelegateChoice = (delegate: boolean) => {
     if (delegate) {
+      if (!delegateForm.formState.dirtyFields.emailSubject) {
+        delegateForm.setValue("emailSubject", nextAction);
+      }
+      if (!delegateForm.formState.dirtyFields.emailBody) {
+        delegateForm.setValue("emailBody", getDelegationBody());
+      }
       navigateToStep("delegate-form");
     } else {
       navigateToStep("project-choice");
     }
   };
 
-  const handleDelegateSubmit = (data: { waitingFor: string; followUpDate: Date }) => {
+  // Picking someone with a known address fills in where the email goes
+  const handlePersonPick = (pick: PersonPick) => {
+    delegateForm.setValue("waitingForId", pick.personId);
+    if (pick.email && !delegateForm.getValues("emailTo")) {
+      delegateForm.setValue("emailTo", pick.email);
+    }
+  };
+
+  const handleDelegateSubmit = (data: DelegateFormValues) => {
     setDelegateData(data);
     onProcess({
       action: "delegate",
+      delegationEmail: data.sendEmail
+        ? { to: data.emailTo, subject: data.emailSubject, body: data.emailBody }
+        : undefined,
       task: {
         title: nextAction,
         status: TaskStatus.WAITING,
         waitingFor: data.waitingFor,
+        waitingForId: data.waitingForId,
         waitingForFollowUp: data.followUpDate,
         description: item.type === "email" ? (item as Email).content : (item as Task).description,
         emailId: item.type === "email" ? (item as Email).id : undefined,
@@ -266,9 +330,11 @@ export default function ProcessingDialog({
   const handleOrganizeSubmit = (data: {
     contextId?: number;
     projectId?: number;
+    agendaId?: number;
     timeEstimate?: string;
     energyLevel?: string;
     dueDate?: Date;
+    recurrence?: RecurrenceRule | null;
   }) => {
     const result: ProcessingResult = {
       action: "next-action",
@@ -277,9 +343,11 @@ export default function ProcessingDialog({
         status: TaskStatus.NEXT_ACTION,
         contextId: data.contextId,
         projectId: data.projectId,
+        agendaId: data.agendaId,
         timeEstimate: data.timeEstimate as any,
         energyLevel: data.energyLevel as any,
         dueDate: data.dueDate,
+        recurrence: data.recurrence,
         description: item.type === "email" ? (item as Email).content : (item as Task).description,
         emailId: item.type === "email" ? (item as Email).id : undefined,
       },
@@ -309,6 +377,7 @@ export default function ProcessingDialog({
     setShouldCreateProject(false);
     setDelegateData(null);
     setProjectData(null);
+    setDeferDate(undefined);
     nextActionForm.reset();
     delegateForm.reset();
     projectForm.reset();
@@ -318,7 +387,7 @@ export default function ProcessingDialog({
 
   return (
     <Dialog open={open} onOpenChange={onOpenChange}>
-      <DialogContent className="max-w-2xl">
+      <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
         <DialogHeader>
           <DialogTitle>Process Item</DialogTitle>
           <DialogDescription>{getItemTitle()}</DialogDescription>
@@ -347,6 +416,51 @@ export default function ProcessingDialog({
                 No
               </Button>
             </div>
+            <Button
+              onClick={() => navigateToStep("defer")}
+              variant="ghost"
+              className="w-full gap-2"
+              data-testid="button-defer"
+            >
+              <CalendarClock className="h-4 w-4" />
+              Not now - defer until a later date
+            </Button>
+          </div>
+        )}
+
+        {step === "defer" && (
+          <div className="space-y-4">
+            <h3 className="text-lg font-semibold">When should this come back?</h3>
+            <p className="text-sm text-muted-foreground">
+              It will stay out of your inbox until this date, then return to be processed.
+            </p>
+            <div className="flex justify-center">
+              <Calendar
+                mode="single"
+                selected={deferDate}
+                onSelect={setDeferDate}
+                disabled={(date) => date <= new Date()}
+                data-testid="calendar-defer-date"
+              />
+            </div>
+            <div className="flex gap-2">
+              <Button
+                type="button"
+                onClick={goBack}
+                variant="ghost"
+                data-testid="button-back"
+              >
+                Back
+              </Button>
+              <Button
+                onClick={handleDeferSubmit}
+                disabled={!deferDate}
+                className="flex-1"
+                data-testid="button-confirm-defer"
+              >
+                {deferDate ? `Defer until ${format(deferDate, "PPP")}` : "Pick a date"}
+              </Button>
+            </div>
           </div>
         )}
 
@@ -633,8 +747,13 @@ export default function ProcessingDialog({
                     <FormItem>
                       <FormLabel>Delegate to</FormLabel>
                       <FormControl>
-                        <Input
+                        <PersonInput
                           {...field}
+                          onChange={(name) => {
+                            field.onChange(name);
+                            delegateForm.setValue("waitingForId", null);
+                          }}
+                          onPick={handlePersonPick}
                           placeholder="Person's name"
                           data-testid="input-delegate-to"
                         />
@@ -678,6 +797,75 @@ export default function ProcessingDialog({
                     </FormItem>
                   )}
                 />
+                <FormField
+                  control={delegateForm.control}
+                  name="sendEmail"
+                  render={({ field }) => (
+                    <FormItem className="flex items-center justify-between rounded-lg border p-3">
+                      <div>
+                        <FormLabel>Send delegation email</FormLabel>
+                        <FormDescription>
+                          Replies from this person mark the item as answered
+                        </FormDescription>
+                      </div>
+                      <FormControl>
+                        <Switch
+                          checked={field.value}
+                          onCheckedChange={field.onChange}
+                          data-testid="switch-send-delegation-email"
+                        />
+                      </FormControl>
+                    </FormItem>
+                  )}
+                />
+                {sendDelegationEmail && (
+                  <>
+                    <FormField
+                      control={delegateForm.control}
+                      name="emailTo"
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormLabel>Email address</FormLabel>
+                          <FormControl>
+                            <Input
+                              {...field}
+                              type="email"
+                              placeholder="name@example.com"
+                              data-testid="input-delegate-email"
+                            />
+                          </FormControl>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+                    <FormField
+                      control={delegateForm.control}
+                      name="emailSubject"
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormLabel>Subject</FormLabel>
+                          <FormControl>
+                            <Input {...field} data-testid="input-delegate-subject" />
+                          </FormControl>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+                    <FormField
+                      control={delegateForm.control}
+                      name="emailBody"
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormLabel>Message</FormLabel>
+                          <FormControl>
+                            <Textarea {...field} rows={8} data-testid="textarea-delegate-body" />
+                          </FormControl>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+                  </>
+                )}
                 <div className="flex gap-2">
                   <Button
                     type="button"
@@ -688,7 +876,7 @@ export default function ProcessingDialog({
                     Back
                   </Button>
                   <Button type="submit" data-testid="button-delegate-task">
-                    Delegate Task
+                    {sendDelegationEmail ? "Send & Delegate" : "Delegate Task"}
                   </Button>
                 </div>
               </form>
@@ -858,6 +1046,40 @@ export default function ProcessingDialog({
                 )}
               />
 
+              {agendas.length > 0 && (
+                <FormField
+                  control={organizeForm.control}
+                  name="agendaId"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Agenda (optional)</FormLabel>
+                      <Select
+                        onValueChange={(value) => field.onChange(value === "unset" ? undefined : parseInt(value))}
+                        value={field.value !== undefined ? String(field.value) : "unset"}
+                      >
+                        <FormControl>
+                          <SelectTrigger data-testid="select-agenda">
+                            <SelectValue placeholder="Select an agenda" />
+                          </SelectTrigger>
+                        </FormControl>
+                        <SelectContent>
+                          <SelectItem value="unset">None</SelectItem>
+                          {agendas.map((agenda) => (
+                            <SelectItem key={agenda.id} value={agenda.id.toString()}>
+                              {agenda.name}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                      <FormDescription>
+                        Raise this next time you see the person or at the meeting
+                      </FormDescription>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              )}
+
               <FormField
                 control={organizeForm.control}
                 name="timeEstimate"
@@ -943,6 +1165,20 @@ export default function ProcessingDialog({
                 )}
               />
 
+              <FormField
+                control={organizeForm.control}
+                name="recurrence"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Repeat (optional)</FormLabel>
+                    <FormControl>
+                      <RecurrencePicker value={field.value} onChange={field.onChange} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
               <div className="flex gap-2">
                 <Button
                   type="button"
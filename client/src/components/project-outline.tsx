@@ -0,0 +1,277 @@
+import { useState, useRef, useEffect, type DragEvent } from "react";
+import { ProjectStatus, TaskStatus, type Context, type Project, type Task } from "@shared/schema";
+import { compareTaskOrder, type ProjectNode } from "@shared/project-tree";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Checkbox } from "@/components/ui/checkbox";
+import TaskList from "@/components/task-list";
+import { Check, ChevronDown, ChevronRight, Edit, GripVertical, ListOrdered, Plus, Target, Trash2, X } from "lucide-react";
+import { cn } from "@/lib/utils";
+import { format, isBefore, startOfDay } from "date-fns";
+
+// Drag payload carrying the id of the project being moved
+export const PROJECT_DRAG_TYPE = "application/x-gtd-project";
+
+export function getDraggedProjectId(e: DragEvent): number | null {
+  const id = Number(e.dataTransfer.getData(PROJECT_DRAG_TYPE));
+  return Number.isInteger(id) && id > 0 ? id : null;
+}
+
+export function isProjectDrag(e: DragEvent) {
+  return e.dataTransfer.types.includes(PROJECT_DRAG_TYPE);
+}
+
+interface ProjectOutlineProps {
+  nodes: ProjectNode[];
+  tasks: Task[];
+  contexts?: Context[];
+  projects?: Project[];
+  // Next actions waiting their turn in sequential projects
+  queuedTaskIds: Set<number>;
+  // Asks how to close the project; the checkbox never stays ticked on its own
+  onCompleteProject: (project: Project) => void;
+  onRenameProject: (projectId: number, name: string) => void;
+  onEditProject: (project: Project) => void;
+  onDeleteProject: (projectId: number) => void;
+  onAddSubProject: (parent: Project) => void;
+  // Moves the dragged project underneath `parentId`
+  onReparent: (projectId: number, parentId: number) => void;
+  onEditTask: (task: Task) => void;
+  onMarkTaskDone: (taskId: number) => void;
+  onReorderTasks: (projectId: number, taskIds: number[]) => void;
+}
+
+// Collapsible project outline. Projects can be dragged onto one another to
+// become sub-projects; counts and stalled status roll up from below.
+export default function ProjectOutline(props: ProjectOutlineProps) {
+  return (
+    <div className="space-y-2">
+      {props.nodes.map((node) => (
+        <ProjectOutlineNode key={node.project.id} node={node} depth={0} {...props} />
+      ))}
+    </div>
+  );
+}
+
+function ProjectOutlineNode({
+  node,
+  depth,
+  tasks,
+  contexts,
+  projects,
+  queuedTaskIds,
+  ...handlers
+}: ProjectOutlineProps & { node: ProjectNode; depth: number }) {
+  const { project, children, totalNextActions, stalled, stalledCount } = node;
+  const [isOpen, setIsOpen] = useState(true);
+  const [isEditing, setIsEditing] = useState(false);
+  const [editingName, setEditingName] = useState("");
+  const [isDropTarget, setIsDropTarget] = useState(false);
+  const editInputRef = useRef<HTMLInputElement>(null);
+
+  useEffect(() => {
+    if (isEditing && editInputRef.current) {
+      editInputRef.current.focus();
+      editInputRef.current.select();
+    }
+  }, [isEditing]);
+
+  const projectTasks = tasks
+    .filter((task) => task.projectId === project.id && task.status !== TaskStatus.DONE)
+    .sort(compareTaskOrder);
+  const stalledBelow = stalledCount - (stalled ? 1 : 0);
+  const hasContent = children.length > 0 || projectTasks.length > 0;
+  const isOverdue = !!project.targetDate && isBefore(new Date(project.targetDate), startOfDay(new Date()));
+
+  const handleSaveInlineEdit = () => {
+    if (editingName.trim()) {
+      handlers.onRenameProject(project.id, editingName.trim());
+    }
+    setIsEditing(false);
+  };
+
+  const handleDrop = (e: DragEvent) => {
+    setIsDropTarget(false);
+    const draggedId = getDraggedProjectId(e);
+    if (draggedId === null || draggedId === project.id) return;
+    e.preventDefault();
+    e.stopPropagation();
+    handlers.onReparent(draggedId, project.id);
+    setIsOpen(true);
+  };
+
+  return (
+    <div data-testid={`project-node-${project.id}`}>
+      <div
+        draggable={!isEditing}
+        onDragStart={(e) => {
+          e.stopPropagation();
+          e.dataTransfer.setData(PROJECT_DRAG_TYPE, String(project.id));
+          e.dataTransfer.effectAllowed = "move";
+        }}
+        onDragOver={(e) => {
+          if (!isProjectDrag(e)) return;
+          e.preventDefault();
+          e.stopPropagation();
+          setIsDropTarget(true);
+        }}
+        onDragLeave={() => setIsDropTarget(false)}
+        onDrop={handleDrop}
+        className={cn(
+          "group flex items-center gap-2 rounded-md border px-2 py-2 bg-card",
+          stalled && "border-red-300",
+          isDropTarget && "ring-2 ring-primary"
+        )}
+        style={{ marginLeft: depth * 24 }}
+      >
+        <GripVertical className="h-4 w-4 text-muted-foreground cursor-grab shrink-0" />
+        <Button
+          variant="ghost"
+          size="sm"
+          className="h-6 w-6 p-0"
+          onClick={() => setIsOpen(!isOpen)}
+          disabled={!hasContent}
+          data-testid={`button-toggle-project-${project.id}`}
+        >
+          {isOpen && hasContent ? <ChevronDown className="h-4 w-4" /> : <ChevronRight className="h-4 w-4" />}
+        </Button>
+        <Checkbox
+          checked={false}
+          onCheckedChange={(checked) => {
+            if (checked) {
+              handlers.onCompleteProject(project);
+            }
+          }}
+          data-testid="checkbox-project-done"
+        />
+        <div className="flex-1 min-w-0">
+          {isEditing ? (
+            <div className="flex items-center gap-2">
+              <Input
+                ref={editInputRef}
+                value={editingName}
+                onChange={(e) => setEditingName(e.target.value)}
+                onKeyDown={(e) => {
+                  if (e.key === "Enter") handleSaveInlineEdit();
+                  if (e.key === "Escape") setIsEditing(false);
+                }}
+                className="h-8 font-semibold"
+                data-testid="input-project-name-inline"
+              />
+              <Button size="sm" variant="ghost" onClick={handleSaveInlineEdit}>
+                <Check className="h-4 w-4" />
+              </Button>
+              <Button size="sm" variant="ghost" onClick={() => setIsEditing(false)}>
+                <X className="h-4 w-4" />
+              </Button>
+            </div>
+          ) : (
+            <div>
+              <span
+                className="font-semibold cursor-pointer hover:opacity-70 transition-opacity"
+                onClick={() => {
+                  setEditingName(project.name);
+                  setIsEditing(true);
+                }}
+                data-testid="project-title-editable"
+              >
+                {project.name}
+              </span>
+              {project.outcome && (
+                <p className="text-sm text-muted-foreground truncate flex items-center gap-1">
+                  <Target className="h-3 w-3 shrink-0" />
+                  {project.outcome}
+                </p>
+              )}
+              {project.description && (
+                <p className="text-sm text-muted-foreground truncate">{project.description}</p>
+              )}
+            </div>
+          )}
+        </div>
+        {project.targetDate && (
+          <Badge
+            variant="outline"
+            className={cn(isOverdue && "border-red-300 text-red-700")}
+            data-testid={`badge-project-target-${project.id}`}
+          >
+            Due {format(new Date(project.targetDate), "MMM d")}
+          </Badge>
+        )}
+        {project.sequential && (
+          <Badge variant="outline" className="gap-1" title="Only the first remaining action is a next action">
+            <ListOrdered className="h-3 w-3" />
+            Sequential
+          </Badge>
+        )}
+        {project.status === ProjectStatus.ON_HOLD && <Badge variant="outline">On hold</Badge>}
+        <Badge variant="secondary" title="Next actions in this project and its sub-projects">
+          {totalNextActions} next
+        </Badge>
+        {stalled && <Badge variant="destructive">Stalled</Badge>}
+        {stalledBelow > 0 && (
+          <Badge variant="outline" className="border-red-300 text-red-700">
+            {stalledBelow} stalled below
+          </Badge>
+        )}
+        <div className="flex gap-1">
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={() => handlers.onAddSubProject(project)}
+            title="Add sub-project"
+            data-testid={`button-add-subproject-${project.id}`}
+          >
+            <Plus className="h-4 w-4" />
+          </Button>
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={() => handlers.onEditProject(project)}
+            data-testid={`button-edit-project-${project.id}`}
+          >
+            <Edit className="h-4 w-4" />
+          </Button>
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={() => handlers.onDeleteProject(project.id)}
+          >
+            <Trash2 className="h-4 w-4" />
+          </Button>
+        </div>
+      </div>
+
+      {isOpen && hasContent && (
+        <div className="mt-2 space-y-2">
+          {projectTasks.length > 0 && (
+            <div style={{ marginLeft: (depth + 1) * 24 }}>
+              <TaskList
+                tasks={projectTasks}
+                contexts={contexts}
+                projects={projects}
+                onEdit={handlers.onEditTask}
+                onMarkDone={handlers.onMarkTaskDone}
+                onReorder={(taskIds) => handlers.onReorderTasks(project.id, taskIds)}
+                queuedTaskIds={queuedTaskIds}
+              />
+            </div>
+          )}
+          {children.map((child) => (
+            <ProjectOutlineNode
+              key={child.project.id}
+              node={child}
+              depth={depth + 1}
+              tasks={tasks}
+              contexts={contexts}
+              projects={projects}
+              queuedTaskIds={queuedTaskIds}
+              {...handlers}
+            />
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,126 @@
+import { useMutation } from "@tanstack/react-query";
+import { EnergyLevel, TimeEstimate } from "@shared/schema";
+import { hasQuickCaptureTokens, type ParsedQuickCapture } from "@shared/quick-capture";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { Badge } from "@/components/ui/badge";
+import { Battery, Calendar, Clock, FolderOpen, MapPin, Plus } from "lucide-react";
+import { format } from "date-fns";
+
+const TIME_LABELS: Record<string, string> = {
+  [TimeEstimate.MINUTES_15]: "15 min",
+  [TimeEstimate.MINUTES_30]: "30 min",
+  [TimeEstimate.HOUR_1]: "1 hour",
+  [TimeEstimate.HOURS_2_PLUS]: "2+ hours",
+};
+
+const ENERGY_LABELS: Record<string, string> = {
+  [EnergyLevel.HIGH]: "High energy",
+  [EnergyLevel.MEDIUM]: "Medium energy",
+  [EnergyLevel.LOW]: "Low energy",
+};
+
+// New contexts from quick capture get the same colour as ones added on the dashboard
+const NEW_CONTEXT_COLOR = "#6366f1";
+
+interface QuickCapturePreviewProps {
+  parsed: ParsedQuickCapture;
+}
+
+// Chips showing what the inline syntax in a capture resolves to. A context
+// or project that doesn't exist yet gets a chip that creates it.
+export default function QuickCapturePreview({ parsed }: QuickCapturePreviewProps) {
+  const { toast } = useToast();
+
+  const createContext = useMutation({
+    mutationFn: async (name: string) => {
+      const res = await apiRequest("POST", "/api/contexts", {
+        name: name.startsWith("@") ? name : `@${name}`,
+        color: NEW_CONTEXT_COLOR,
+      });
+      return res.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/contexts"] });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Failed to create context", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const createProject = useMutation({
+    mutationFn: async (name: string) => {
+      const res = await apiRequest("POST", "/api/projects", { name, description: "" });
+      return res.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/projects"] });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Failed to create project", description: error.message, variant: "destructive" });
+    },
+  });
+
+  if (!hasQuickCaptureTokens(parsed)) return null;
+
+  const { context, project } = parsed;
+
+  return (
+    <div className="flex flex-wrap items-center gap-2" data-testid="quick-capture-preview">
+      {context && (context.id !== null ? (
+        <Badge variant="secondary" className="gap-1" data-testid="chip-context">
+          <MapPin className="h-3 w-3" />
+          {context.name}
+        </Badge>
+      ) : (
+        <button
+          type="button"
+          onClick={() => createContext.mutate(context.name)}
+          disabled={createContext.isPending}
+          data-testid="button-create-context"
+        >
+          <Badge variant="outline" className="gap-1 border-dashed cursor-pointer hover:bg-accent">
+            <Plus className="h-3 w-3" />
+            Create context {context.name}
+          </Badge>
+        </button>
+      ))}
+      {project && (project.id !== null ? (
+        <Badge variant="secondary" className="gap-1" data-testid="chip-project">
+          <FolderOpen className="h-3 w-3" />
+          {project.name}
+        </Badge>
+      ) : (
+        <button
+          type="button"
+          onClick={() => createProject.mutate(project.name)}
+          disabled={createProject.isPending}
+          data-testid="button-create-project"
+        >
+          <Badge variant="outline" className="gap-1 border-dashed cursor-pointer hover:bg-accent">
+            <Plus className="h-3 w-3" />
+            Create project {project.name}
+          </Badge>
+        </button>
+      ))}
+      {parsed.timeEstimate && (
+        <Badge variant="secondary" className="gap-1" data-testid="chip-time-estimate">
+          <Clock className="h-3 w-3" />
+          {TIME_LABELS[parsed.timeEstimate]}
+        </Badge>
+      )}
+      {parsed.energyLevel && (
+        <Badge variant="secondary" className="gap-1" data-testid="chip-energy-level">
+          <Battery className="h-3 w-3" />
+          {ENERGY_LABELS[parsed.energyLevel]}
+        </Badge>
+      )}
+      {parsed.dueDate && (
+        <Badge variant="secondary" className="gap-1" data-testid="chip-due-date">
+          <Calendar className="h-3 w-3" />
+          Due {format(parsed.dueDate, "EEE, MMM d")}
+        </Badge>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,101 @@
+import { RecurrenceFrequency, type RecurrenceRule } from "@shared/schema";
+import { WEEKDAY_NAMES, describeRecurrence } from "@shared/recurrence";
+import { Input } from "@/components/ui/input";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { ToggleGroup, ToggleGroupItem } from "@/components/ui/toggle-group";
+import { Repeat } from "lucide-react";
+
+const FREQUENCY_UNITS: Record<string, string> = {
+  [RecurrenceFrequency.DAILY]: "day(s)",
+  [RecurrenceFrequency.WEEKLY]: "week(s)",
+  [RecurrenceFrequency.MONTHLY]: "month(s)",
+};
+
+interface RecurrencePickerProps {
+  value: RecurrenceRule | null | undefined;
+  onChange: (value: RecurrenceRule | null) => void;
+}
+
+export default function RecurrencePicker({ value, onChange }: RecurrencePickerProps) {
+  const update = (changes: Partial<RecurrenceRule>) => {
+    if (!value) return;
+    onChange({ ...value, ...changes });
+  };
+
+  return (
+    <div className="space-y-3">
+      <Select
+        value={value?.frequency ?? "none"}
+        onValueChange={(frequency) =>
+          onChange(frequency === "none" ? null : { interval: 1, ...value, frequency })
+        }
+      >
+        <SelectTrigger data-testid="select-recurrence">
+          <SelectValue placeholder="Does not repeat" />
+        </SelectTrigger>
+        <SelectContent>
+          <SelectItem value="none">Does not repeat</SelectItem>
+          <SelectItem value={RecurrenceFrequency.DAILY}>Daily</SelectItem>
+          <SelectItem value={RecurrenceFrequency.WEEKLY}>Weekly</SelectItem>
+          <SelectItem value={RecurrenceFrequency.MONTHLY}>Monthly</SelectItem>
+        </SelectContent>
+      </Select>
+
+      {value && (
+        <>
+          <div className="flex items-center gap-2 text-sm">
+            <span>Every</span>
+            <Input
+              type="number"
+              min={1}
+              className="w-20 h-8"
+              value={value.interval}
+              onChange={(e) => update({ interval: Math.max(1, Number(e.target.value) || 1) })}
+              data-testid="input-recurrence-interval"
+            />
+            <span>{FREQUENCY_UNITS[value.frequency]}</span>
+          </div>
+
+          {value.frequency === RecurrenceFrequency.WEEKLY && (
+            <ToggleGroup
+              type="multiple"
+              variant="outline"
+              size="sm"
+              className="justify-start"
+              value={(value.weekdays || []).map(String)}
+              onValueChange={(days) => update({ weekdays: days.map(Number) })}
+            >
+              {WEEKDAY_NAMES.map((name, day) => (
+                <ToggleGroupItem key={name} value={String(day)} data-testid={`toggle-weekday-${day}`}>
+                  {name}
+                </ToggleGroupItem>
+              ))}
+            </ToggleGroup>
+          )}
+
+          <div className="flex items-center gap-2 text-sm">
+            <span>Until</span>
+            <Input
+              type="date"
+              className="w-44 h-8"
+              value={value.endDate || ""}
+              onChange={(e) => update({ endDate: e.target.value || null })}
+              data-testid="input-recurrence-end-date"
+            />
+          </div>
+
+          <p className="flex items-center gap-1 text-xs text-muted-foreground">
+            <Repeat className="h-3 w-3" />
+            {describeRecurrence(value)}
+          </p>
+        </>
+      )}
+    </div>
+  );
+}
@@ -24,18 +24,28 @@ import {
   CheckCircle2,
   ListChecks,
   Settings,
+  Search,
+  Users,
+  MessagesSquare,
+  ClipboardList,
+  LogOut,
 } from "lucide-react";
 import { useQuery } from "@tanstack/react-query";
 import { Task, Email, TaskStatus } from "@shared/schema";
+import { OPEN_COMMAND_PALETTE_EVENT } from "@/components/command-palette";
+import { useAuth } from "@/hooks/use-auth";
 
 const mainNavItems = [
   { href: "/", label: "Dashboard", icon: Layout },
   { href: "/inbox", label: "Inbox", icon: Inbox, showCount: true },
   { href: "/next-actions", label: "Next Actions", icon: ListTodo },
   { href: "/waiting-for", label: "Waiting For", icon: Clock },
+  { href: "/people", label: "People", icon: Users },
+  { href: "/agendas", label: "Agendas", icon: MessagesSquare },
   { href: "/calendar", label: "Calendar", icon: Calendar },
   { href: "/weekly-review", label: "Weekly Review", icon: ListChecks },
   { href: "/projects", label: "Projects", icon: FolderOpen },
+  { href: "/templates", label: "Templates", icon: ClipboardList },
 ];
 
 const containerItems = [
@@ -47,6 +57,7 @@ const containerItems = [
 
 function NavigationContent({ onNavigate }: { onNavigate?: () => void }) {
   const [location] = useLocation();
+  const { user, logout } = useAuth();
 
   const { data: tasks = [] } = useQuery<Task[]>({ 
     queryKey: ["/api/tasks"],
@@ -62,6 +73,19 @@ function NavigationContent({ onNavigate }: { onNavigate?: () => void }) {
 
   return (
     <nav className="space-y-1">
+      <Button
+        variant="outline"
+        className="w-full justify-start gap-2 mb-3 text-muted-foreground"
+        onClick={() => {
+          onNavigate?.();
+          window.dispatchEvent(new Event(OPEN_COMMAND_PALETTE_EVENT));
+        }}
+        data-testid="button-open-search"
+      >
+        <Search className="h-4 w-4" />
+        <span className="flex-1 text-left">Search</span>
+        <kbd className="text-xs border rounded px-1.5 py-0.5">⌘K</kbd>
+      </Button>
       {mainNavItems.map(({ href, label, icon: Icon, showCount }) => (
         <Link key={href} href={href}>
           <Button
@@ -104,6 +128,17 @@ function NavigationContent({ onNavigate }: { onNavigate?: () => void }) {
           </Button>
         </Link>
       ))}
+      <div className="my-4 border-t" />
+      <Button
+        variant="ghost"
+        className="w-full justify-start gap-2 text-muted-foreground"
+        onClick={() => logout.mutate()}
+        disabled={logout.isPending}
+        data-testid="button-logout"
+      >
+        <LogOut className="h-4 w-4" />
+        <span className="flex-1 text-left truncate">Sign out {user?.username}</span>
+      </Button>
     </nav>
   );
 }
@@ -0,0 +1,135 @@
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { TaskStatus, type Task, type TaskDependency } from "@shared/schema";
+import { getDependencyChain, isResolved, wouldCreateDependencyCycle } from "@shared/task-dependencies";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Check, Link2, X } from "lucide-react";
+import { cn } from "@/lib/utils";
+
+interface TaskDependenciesProps {
+  task: Task;
+}
+
+function invalidateDependencies() {
+  queryClient.invalidateQueries({ queryKey: ["/api/task-dependencies"] });
+  queryClient.invalidateQueries({ queryKey: ["/api/tasks/status/next_action"] });
+}
+
+// What a task waits on, all the way up its chain, and what waits on it
+export default function TaskDependencies({ task }: TaskDependenciesProps) {
+  const { toast } = useToast();
+
+  const { data: tasks = [] } = useQuery<Task[]>({
+    queryKey: ["/api/tasks"],
+  });
+
+  const { data: dependencies = [] } = useQuery<TaskDependency[]>({
+    queryKey: ["/api/task-dependencies"],
+  });
+
+  const chain = getDependencyChain(task.id, tasks, dependencies);
+  const directIds = new Set(dependencies.filter((d) => d.taskId === task.id).map((d) => d.dependsOnId));
+  const dependents = tasks.filter((t) =>
+    dependencies.some((d) => d.dependsOnId === task.id && d.taskId === t.id)
+  );
+  const candidates = tasks.filter((t) =>
+    t.id !== task.id &&
+    !isResolved(t) &&
+    t.status !== TaskStatus.REFERENCE &&
+    !directIds.has(t.id) &&
+    !wouldCreateDependencyCycle(dependencies, task.id, t.id)
+  );
+
+  const addDependency = useMutation({
+    mutationFn: async (dependsOnId: number) => {
+      const res = await apiRequest("POST", `/api/tasks/${task.id}/dependencies`, { dependsOnId });
+      return res.json();
+    },
+    onSuccess: invalidateDependencies,
+    onError: (error: Error) => {
+      toast({ title: "Failed to add dependency", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const removeDependency = useMutation({
+    mutationFn: async (dependsOnId: number) => {
+      await apiRequest("DELETE", `/api/tasks/${task.id}/dependencies/${dependsOnId}`);
+    },
+    onSuccess: invalidateDependencies,
+  });
+
+  return (
+    <div className="space-y-3 border-t pt-4" data-testid="task-dependencies">
+      <div className="flex items-center gap-2">
+        <Link2 className="h-4 w-4 text-muted-foreground" />
+        <h4 className="text-sm font-medium">Depends on</h4>
+      </div>
+
+      {chain.length === 0 ? (
+        <p className="text-xs text-muted-foreground">Nothing - this task can start any time</p>
+      ) : (
+        <ul className="space-y-1">
+          {chain.map(({ task: blocker, depth }) => (
+            <li
+              key={blocker.id}
+              className="flex items-center gap-2 text-sm"
+              style={{ paddingLeft: depth * 16 }}
+              data-testid={`dependency-${blocker.id}`}
+            >
+              {isResolved(blocker) && <Check className="h-3 w-3 text-green-600 shrink-0" />}
+              <span className={cn("flex-1 truncate", isResolved(blocker) && "line-through text-muted-foreground")}>
+                {blocker.title}
+              </span>
+              {blocker.status === TaskStatus.WAITING && blocker.waitingFor && (
+                <Badge variant="outline">Waiting for {blocker.waitingFor}</Badge>
+              )}
+              {directIds.has(blocker.id) && (
+                <Button
+                  type="button"
+                  variant="ghost"
+                  size="sm"
+                  className="h-6 w-6 p-0"
+                  onClick={() => removeDependency.mutate(blocker.id)}
+                  data-testid={`button-remove-dependency-${blocker.id}`}
+                >
+                  <X className="h-3 w-3" />
+                </Button>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {candidates.length > 0 && (
+        <Select value="" onValueChange={(value) => addDependency.mutate(Number(value))}>
+          <SelectTrigger className="h-8 text-sm" data-testid="select-add-dependency">
+            <SelectValue placeholder="Add a task this one waits on..." />
+          </SelectTrigger>
+          <SelectContent>
+            {candidates.map((candidate) => (
+              <SelectItem key={candidate.id} value={candidate.id.toString()}>
+                {candidate.title}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      )}
+
+      {dependents.length > 0 && (
+        <div className="space-y-1">
+          <p className="text-xs font-medium text-muted-foreground">Blocks</p>
+          <ul className="space-y-1">
+            {dependents.map((dependent) => (
+              <li key={dependent.id} className="text-sm truncate" data-testid={`dependent-${dependent.id}`}>
+                {dependent.title}
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -20,6 +20,7 @@ import {
   SelectValue,
 } from "@/components/ui/select";
 import { useQuery } from "@tanstack/react-query";
+import RecurrencePicker from "@/components/recurrence-picker";
 import { useToast } from "@/hooks/use-toast";
 
 interface TaskFormProps {
@@ -134,6 +135,20 @@ export default function TaskForm({ onSubmit, defaultValues }: TaskFormProps) {
           )}
         />
 
+        <FormField
+          control={form.control}
+          name="recurrence"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Repeat</FormLabel>
+              <FormControl>
+                <RecurrencePicker value={field.value} onChange={field.onChange} />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+
         <Button type="submit">Save Task</Button>
       </form>
     </Form>
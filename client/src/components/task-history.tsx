@@ -0,0 +1,89 @@
+import { useQuery } from "@tanstack/react-query";
+import { TaskStatus, TaskEventField, type Task, type TaskEvent, type Context, type Project } from "@shared/schema";
+import { format } from "date-fns";
+import { History } from "lucide-react";
+
+const STATUS_LABELS: Record<string, string> = {
+  [TaskStatus.INBOX]: "Inbox",
+  [TaskStatus.NEXT_ACTION]: "Next Action",
+  [TaskStatus.WAITING]: "Waiting For",
+  [TaskStatus.SOMEDAY]: "Someday/Maybe",
+  [TaskStatus.REFERENCE]: "Reference",
+  [TaskStatus.DONE]: "Done",
+  [TaskStatus.TRASH]: "Trash",
+};
+
+const FIELD_LABELS: Record<string, string> = {
+  [TaskEventField.STATUS]: "Status",
+  [TaskEventField.PROJECT]: "Project",
+  [TaskEventField.CONTEXT]: "Context",
+  [TaskEventField.FOLLOW_UP]: "Follow-up",
+  [TaskEventField.UNBLOCKED]: "Unblocked",
+};
+
+interface TaskHistoryProps {
+  task: Task;
+  contexts?: Context[];
+  projects?: Project[];
+}
+
+export default function TaskHistory({ task, contexts = [], projects = [] }: TaskHistoryProps) {
+  const { data: events = [], isLoading } = useQuery<TaskEvent[]>({
+    queryKey: [`/api/tasks/${task.id}/history`],
+    staleTime: 0,
+  });
+
+  const formatValue = (field: string, value: string | null) => {
+    if (value === null) return "None";
+    if (field === TaskEventField.STATUS) return STATUS_LABELS[value] || value;
+    if (field === TaskEventField.PROJECT) {
+      return projects.find((p) => p.id === Number(value))?.name || `Project #${value}`;
+    }
+    if (field === TaskEventField.CONTEXT) {
+      return contexts.find((c) => c.id === Number(value))?.name || `Context #${value}`;
+    }
+    if (field === TaskEventField.FOLLOW_UP) return format(new Date(value), "PP");
+    return value;
+  };
+
+  return (
+    <div className="space-y-3 border-t pt-4" data-testid="task-history">
+      <div className="flex items-center gap-2">
+        <History className="h-4 w-4 text-muted-foreground" />
+        <h4 className="text-sm font-medium">History</h4>
+      </div>
+
+      <ol className="relative border-l ml-2 space-y-3">
+        {isLoading && (
+          <li className="ml-4 text-xs text-muted-foreground">Loading history...</li>
+        )}
+        {events.map((event) => (
+          <li key={event.id} className="ml-4" data-testid={`task-event-${event.id}`}>
+            <span className="absolute -left-1.5 mt-1.5 h-3 w-3 rounded-full border bg-background" />
+            {event.field === TaskEventField.UNBLOCKED ? (
+              <p className="text-sm">{FIELD_LABELS[event.field]}</p>
+            ) : (
+              <p className="text-sm">
+                {FIELD_LABELS[event.field] || event.field}:{" "}
+                <span className="text-muted-foreground">{formatValue(event.field, event.fromValue)}</span>
+                {" → "}
+                <span className="font-medium">{formatValue(event.field, event.toValue)}</span>
+              </p>
+            )}
+            {event.note && <p className="text-xs">{event.note}</p>}
+            <p className="text-xs text-muted-foreground">
+              {format(new Date(event.createdAt), "PPp")}
+            </p>
+          </li>
+        ))}
+        <li className="ml-4">
+          <span className="absolute -left-1.5 mt-1.5 h-3 w-3 rounded-full border bg-muted" />
+          <p className="text-sm">Captured</p>
+          <p className="text-xs text-muted-foreground">
+            {format(new Date(task.createdAt), "PPp")}
+          </p>
+        </li>
+      </ol>
+    </div>
+  );
+}
@@ -18,8 +18,14 @@ import {
   AlertDialogHeader,
   AlertDialogTitle,
 } from "@/components/ui/alert-dialog";
-import { Trash2, Edit } from "lucide-react";
+import { Trash2, Edit, Repeat, CalendarClock, MailCheck, GripVertical, ListOrdered, Lock } from "lucide-react";
 import { useState } from "react";
+import { format } from "date-fns";
+import { describeRecurrence } from "@shared/recurrence";
+import { cn, isTickled } from "@/lib/utils";
+
+// Drag payload for reordering tasks within a list
+const TASK_DRAG_TYPE = "application/x-gtd-task";
 
 interface TaskListProps {
   tasks: Task[];
@@ -30,6 +36,12 @@ interface TaskListProps {
   onMarkDone?: (taskId: number) => void;
   showCheckbox?: boolean;
   editButtonText?: string;
+  // Enables drag-to-reorder; receives every task id in the new order
+  onReorder?: (taskIds: number[]) => void;
+  // Actions waiting their turn in a sequential project
+  queuedTaskIds?: Set<number>;
+  // Unfinished tasks each task is waiting on; blocked cards are greyed out
+  blockers?: Map<number, Task[]>;
 }
 
 export default function TaskList({
@@ -41,8 +53,23 @@ export default function TaskList({
   onMarkDone,
   showCheckbox = true,
   editButtonText,
+  onReorder,
+  queuedTaskIds,
+  blockers,
 }: TaskListProps) {
   const [deleteConfirm, setDeleteConfirm] = useState<Task | null>(null);
+  const [dropTargetId, setDropTargetId] = useState<number | null>(null);
+
+  // Moves the dragged task into the drop target's place
+  const handleDrop = (draggedId: number, targetId: number) => {
+    if (!onReorder || draggedId === targetId) return;
+    const ids = tasks.map((task) => task.id).filter((id) => id !== draggedId);
+    const targetIndex = tasks.findIndex((task) => task.id === targetId);
+    const draggedIndex = tasks.findIndex((task) => task.id === draggedId);
+    if (targetIndex === -1 || draggedIndex === -1) return;
+    ids.splice(targetIndex, 0, draggedId);
+    onReorder(ids);
+  };
 
   const getContextName = (contextId: number | null) => {
     if (!contextId || !contexts) return null;
@@ -58,9 +85,36 @@ export default function TaskList({
     <>
       <div className="space-y-4">
         {tasks.map((task) => (
-          <Card key={task.id}>
+          <Card
+            key={task.id}
+            draggable={!!onReorder}
+            onDragStart={onReorder && ((e) => {
+              e.dataTransfer.setData(TASK_DRAG_TYPE, String(task.id));
+              e.dataTransfer.effectAllowed = "move";
+            })}
+            onDragOver={onReorder && ((e) => {
+              if (!e.dataTransfer.types.includes(TASK_DRAG_TYPE)) return;
+              e.preventDefault();
+              e.stopPropagation();
+              setDropTargetId(task.id);
+            })}
+            onDragLeave={onReorder && (() => setDropTargetId(null))}
+            onDrop={onReorder && ((e) => {
+              setDropTargetId(null);
+              const draggedId = Number(e.dataTransfer.getData(TASK_DRAG_TYPE));
+              if (!draggedId) return;
+              e.preventDefault();
+              e.stopPropagation();
+              handleDrop(draggedId, task.id);
+            })}
+            className={cn(dropTargetId === task.id && "ring-2 ring-primary", blockers?.has(task.id) && "opacity-60")}
+            data-testid={`task-card-${task.id}`}
+          >
             <CardHeader className="flex flex-row items-start justify-between space-y-0 pb-2">
               <div className="flex items-start gap-3 flex-1">
+                {onReorder && (
+                  <GripVertical className="h-4 w-4 mt-1 text-muted-foreground cursor-grab shrink-0" />
+                )}
                 {showCheckbox && onMarkDone && task.status !== TaskStatus.DONE && (
                   <Checkbox
                     className="mt-1"
@@ -109,6 +163,18 @@ export default function TaskList({
             <CardContent>
               <div className="flex gap-2 flex-wrap">
                 <Badge variant="secondary">{task.status}</Badge>
+                {queuedTaskIds?.has(task.id) && (
+                  <Badge variant="outline" className="gap-1" data-testid={`badge-queued-${task.id}`}>
+                    <ListOrdered className="h-3 w-3" />
+                    Queued
+                  </Badge>
+                )}
+                {blockers?.has(task.id) && (
+                  <Badge variant="outline" className="gap-1" data-testid={`badge-blocked-${task.id}`}>
+                    <Lock className="h-3 w-3" />
+                    Blocked by {blockers.get(task.id)!.map((blocker) => blocker.title).join(", ")}
+                  </Badge>
+                )}
                 {task.contextId && (
                   <Badge variant="outline">
                     {getContextName(task.contextId)}
@@ -125,6 +191,27 @@ export default function TaskList({
                 {task.energyLevel && (
                   <Badge variant="outline">{task.energyLevel} energy</Badge>
                 )}
+                {isTickled(task) && (
+                  <Badge variant="outline" className="gap-1">
+                    <CalendarClock className="h-3 w-3" />
+                    Deferred until {format(new Date(task.tickleDate!), "PP")}
+                  </Badge>
+                )}
+                {task.responseReceivedAt && (
+                  <Badge className="gap-1" data-testid={`badge-response-received-${task.id}`}>
+                    <MailCheck className="h-3 w-3" />
+                    Response received {format(new Date(task.responseReceivedAt), "PP")}
+                  </Badge>
+                )}
+                {task.recurrence && (
+                  <Badge variant="outline" className="gap-1">
+                    <Repeat className="h-3 w-3" />
+                    {describeRecurrence(task.recurrence)}
+                  </Badge>
+                )}
+                {task.status === TaskStatus.DONE && task.completedAt && (
+                  <Badge variant="outline">Completed {format(new Date(task.completedAt), "PP")}</Badge>
+                )}
               </div>
             </CardContent>
           </Card>
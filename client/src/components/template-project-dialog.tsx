@@ -0,0 +1,197 @@
+import { useEffect } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { type Area, type Project, type Task, type Template } from "@shared/schema";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Form,
+  FormControl,
+  FormDescription,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { format } from "date-fns";
+import { z } from "zod";
+
+const instantiateFormSchema = z.object({
+  templateId: z.number().nullable(),
+  name: z.string(),
+  startDate: z.string(),
+  areaId: z.number().nullable(),
+}).refine(
+  (data) => data.templateId !== null,
+  { message: "Please pick a template", path: ["templateId"] }
+);
+
+type InstantiateFormValues = z.infer<typeof instantiateFormSchema>;
+
+interface TemplateProjectDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  // Preselects a template, e.g. when started from the template's card
+  templateId?: number | null;
+}
+
+// Starts a new project from a template; each template item becomes a next action
+export default function TemplateProjectDialog({ open, onOpenChange, templateId = null }: TemplateProjectDialogProps) {
+  const { toast } = useToast();
+
+  const { data: templates = [] } = useQuery<Template[]>({
+    queryKey: ["/api/templates"],
+    enabled: open,
+  });
+
+  const { data: areas = [] } = useQuery<Area[]>({
+    queryKey: ["/api/areas"],
+    enabled: open,
+  });
+
+  const form = useForm<InstantiateFormValues>({
+    resolver: zodResolver(instantiateFormSchema),
+    defaultValues: { templateId, name: "", startDate: "", areaId: null },
+  });
+  const selectedTemplate = templates.find((template) => template.id === form.watch("templateId"));
+
+  useEffect(() => {
+    if (open) {
+      form.reset({ templateId, name: "", startDate: format(new Date(), "yyyy-MM-dd"), areaId: null });
+    }
+  }, [open, templateId]);
+
+  const instantiate = useMutation({
+    mutationFn: async (data: InstantiateFormValues) => {
+      const res = await apiRequest("POST", `/api/templates/${data.templateId}/instantiate`, {
+        name: data.name.trim() || undefined,
+        startDate: data.startDate ? new Date(`${data.startDate}T00:00:00`) : null,
+        areaId: data.areaId,
+      });
+      return res.json() as Promise<{ project: Project; tasks: Task[] }>;
+    },
+    onSuccess: ({ project, tasks }) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/projects"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/tasks"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/tasks/status/next_action"] });
+      onOpenChange(false);
+      toast({
+        title: "Project created",
+        description: `${project.name} starts with ${tasks.length} ${tasks.length === 1 ? "action" : "actions"}`,
+      });
+    },
+    onError: () => {
+      toast({ title: "Failed to create project from template", variant: "destructive" });
+    },
+  });
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>New Project from Template</DialogTitle>
+        </DialogHeader>
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit((data) => instantiate.mutate(data))} className="space-y-4">
+            <FormField
+              control={form.control}
+              name="templateId"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Template</FormLabel>
+                  <Select
+                    value={field.value !== null ? field.value.toString() : undefined}
+                    onValueChange={(val) => field.onChange(Number(val))}
+                  >
+                    <FormControl>
+                      <SelectTrigger data-testid="select-template">
+                        <SelectValue placeholder={templates.length > 0 ? "Select a template" : "No templates yet"} />
+                      </SelectTrigger>
+                    </FormControl>
+                    <SelectContent>
+                      {templates.map((template) => (
+                        <SelectItem key={template.id} value={template.id.toString()}>
+                          {template.name} ({template.items.length})
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <FormField
+              control={form.control}
+              name="name"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Project name</FormLabel>
+                  <FormControl>
+                    <Input {...field} placeholder={selectedTemplate?.name || "Defaults to the template's name"} data-testid="input-template-project-name" />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <FormField
+              control={form.control}
+              name="startDate"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Start date</FormLabel>
+                  <FormControl>
+                    <Input type="date" {...field} data-testid="input-template-start-date" />
+                  </FormControl>
+                  <FormDescription>Due dates in the template count from this day</FormDescription>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            {areas.length > 0 && (
+              <FormField
+                control={form.control}
+                name="areaId"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Area of focus</FormLabel>
+                    <Select
+                      value={field.value !== null ? field.value.toString() : "none"}
+                      onValueChange={(val) => field.onChange(val === "none" ? null : Number(val))}
+                    >
+                      <FormControl>
+                        <SelectTrigger data-testid="select-template-area">
+                          <SelectValue />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        <SelectItem value="none">No area</SelectItem>
+                        {areas.map((area) => (
+                          <SelectItem key={area.id} value={area.id.toString()}>
+                            {area.name}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </FormItem>
+                )}
+              />
+            )}
+            <Button type="submit" className="w-full" disabled={instantiate.isPending}>
+              Create Project
+            </Button>
+          </form>
+        </Form>
+      </DialogContent>
+    </Dialog>
+  );
+}
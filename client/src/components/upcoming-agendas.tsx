@@ -0,0 +1,83 @@
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { Link } from "wouter";
+import { TaskStatus, type UpcomingAgenda } from "@shared/schema";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Checkbox } from "@/components/ui/checkbox";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { format, parseISO } from "date-fns";
+import { MessagesSquare } from "lucide-react";
+
+interface UpcomingAgendasProps {
+  className?: string;
+}
+
+function formatStart(start: string | null) {
+  if (!start) return "";
+  // All-day events only carry a date
+  return start.length === 10 ? format(parseISO(start), "EEE, MMM d") : format(parseISO(start), "EEE, MMM d 'at' h:mm a");
+}
+
+// Agenda items to raise at calendar events coming up in the next week.
+// Renders nothing when no agenda has a matching event.
+export default function UpcomingAgendas({ className }: UpcomingAgendasProps) {
+  const { data: upcoming = [] } = useQuery<UpcomingAgenda[]>({
+    queryKey: ["/api/agendas/upcoming"],
+  });
+
+  const completeItem = useMutation({
+    mutationFn: async (taskId: number) => {
+      await apiRequest("PATCH", `/api/tasks/${taskId}`, { status: TaskStatus.DONE });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/agendas/upcoming"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/tasks"] });
+    },
+  });
+
+  if (upcoming.length === 0) return null;
+
+  return (
+    <Card className={className} data-testid="upcoming-agendas">
+      <CardHeader className="pb-3">
+        <CardTitle className="flex items-center gap-2 text-base">
+          <MessagesSquare className="h-4 w-4" />
+          <Link href="/agendas" className="hover:underline">Agendas for upcoming meetings</Link>
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {upcoming.map(({ agenda, event, tasks }) => (
+          <div key={agenda.id} data-testid={`upcoming-agenda-${agenda.id}`}>
+            <div className="flex items-baseline justify-between gap-2">
+              <p className="text-sm font-medium">{agenda.name}</p>
+              {event.htmlLink ? (
+                <a
+                  href={event.htmlLink}
+                  target="_blank"
+                  rel="noopener noreferrer"
+                  className="text-xs text-muted-foreground hover:underline truncate"
+                >
+                  {event.summary} · {formatStart(event.start)}
+                </a>
+              ) : (
+                <span className="text-xs text-muted-foreground truncate">
+                  {event.summary} · {formatStart(event.start)}
+                </span>
+              )}
+            </div>
+            <ul className="mt-2 space-y-1.5">
+              {tasks.map((task) => (
+                <li key={task.id} className="flex items-center gap-2 text-sm">
+                  <Checkbox
+                    onCheckedChange={(checked) => checked && completeItem.mutate(task.id)}
+                    data-testid={`checkbox-agenda-item-${task.id}`}
+                  />
+                  {task.title}
+                </li>
+              ))}
+            </ul>
+          </div>
+        ))}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,48 @@
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { type PublicUser } from "@shared/schema";
+import { apiRequest, getQueryFn, queryClient } from "@/lib/queryClient";
+
+interface Credentials {
+  username: string;
+  password: string;
+}
+
+// Whatever was cached belongs to the previous user, so a sign-in or sign-out
+// starts from an empty cache
+function setSignedInUser(user: PublicUser | null) {
+  queryClient.clear();
+  queryClient.setQueryData(["/api/user"], user);
+}
+
+// The signed-in user (null when signed out) and the account actions
+export function useAuth() {
+  const { data: user, isLoading } = useQuery<PublicUser | null>({
+    queryKey: ["/api/user"],
+    queryFn: getQueryFn({ on401: "returnNull" }),
+  });
+
+  const login = useMutation({
+    mutationFn: async (credentials: Credentials) => {
+      const res = await apiRequest("POST", "/api/login", credentials);
+      return res.json() as Promise<PublicUser>;
+    },
+    onSuccess: setSignedInUser,
+  });
+
+  const register = useMutation({
+    mutationFn: async (credentials: Credentials) => {
+      const res = await apiRequest("POST", "/api/register", credentials);
+      return res.json() as Promise<PublicUser>;
+    },
+    onSuccess: setSignedInUser,
+  });
+
+  const logout = useMutation({
+    mutationFn: async () => {
+      await apiRequest("POST", "/api/logout");
+    },
+    onSuccess: () => setSignedInUser(null),
+  });
+
+  return { user: user ?? null, isLoading, login, register, logout };
+}
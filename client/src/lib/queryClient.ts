@@ -23,6 +23,21 @@ export async function apiRequest(
   return res;
 }
 
+// Sends a file as the raw request body; the server reads its name and type from the query
+export async function apiUpload(url: string, file: File): Promise<Response> {
+  const contentType = file.type || "application/octet-stream";
+  const params = new URLSearchParams({ filename: file.name, contentType });
+  const res = await fetch(`${url}?${params}`, {
+    method: "POST",
+    headers: { "Content-Type": "application/octet-stream" },
+    body: file,
+    credentials: "include",
+  });
+
+  await throwIfResNotOk(res);
+  return res;
+}
+
 type UnauthorizedBehavior = "returnNull" | "throw";
 export const getQueryFn: <T>(options: {
   on401: UnauthorizedBehavior;
@@ -4,3 +4,8 @@ import { twMerge } from "tailwind-merge"
 export function cn(...inputs: ClassValue[]) {
   return twMerge(clsx(inputs))
 }
+
+// A task is tickled while its defer-until date is still in the future
+export function isTickled(task: { tickleDate: Date | string | null }, now: Date = new Date()) {
+  return !!task.tickleDate && new Date(task.tickleDate) > now
+}
@@ -0,0 +1,342 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import {
+  AgendaKind,
+  TaskStatus,
+  type Agenda,
+  type Person,
+  type Task,
+  type Context,
+  type Project,
+} from "@shared/schema";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Form,
+  FormControl,
+  FormDescription,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import TaskList from "@/components/task-list";
+import UpcomingAgendas from "@/components/upcoming-agendas";
+import { MessagesSquare, Plus, Trash2, User, Users } from "lucide-react";
+import { z } from "zod";
+
+const agendaFormSchema = z.object({
+  kind: z.enum([AgendaKind.PERSON, AgendaKind.MEETING]),
+  personId: z.number().nullable(),
+  meetingTitle: z.string(),
+}).refine(
+  (data) => data.kind !== AgendaKind.PERSON || data.personId !== null,
+  { message: "Please pick a person", path: ["personId"] }
+).refine(
+  (data) => data.kind !== AgendaKind.MEETING || data.meetingTitle.trim().length > 0,
+  { message: "Please enter the meeting's title", path: ["meetingTitle"] }
+);
+
+type AgendaFormValues = z.infer<typeof agendaFormSchema>;
+
+const CLOSED_STATUSES: string[] = [TaskStatus.DONE, TaskStatus.TRASH];
+
+function invalidateAgendaItems() {
+  queryClient.invalidateQueries({ queryKey: ["/api/tasks"] });
+  queryClient.invalidateQueries({ queryKey: ["/api/agendas/upcoming"] });
+}
+
+export default function Agendas() {
+  const { toast } = useToast();
+  const [isDialogOpen, setIsDialogOpen] = useState(false);
+  const [newItems, setNewItems] = useState<Record<number, string>>({});
+
+  const { data: agendas = [] } = useQuery<Agenda[]>({
+    queryKey: ["/api/agendas"],
+  });
+
+  const { data: people = [] } = useQuery<Person[]>({
+    queryKey: ["/api/people"],
+  });
+
+  const { data: tasks = [] } = useQuery<Task[]>({
+    queryKey: ["/api/tasks"],
+  });
+
+  const { data: contexts } = useQuery<Context[]>({
+    queryKey: ["/api/contexts"],
+  });
+
+  const { data: projects } = useQuery<Project[]>({
+    queryKey: ["/api/projects"],
+  });
+
+  const form = useForm<AgendaFormValues>({
+    resolver: zodResolver(agendaFormSchema),
+    defaultValues: { kind: AgendaKind.PERSON, personId: null, meetingTitle: "" },
+  });
+  const kind = form.watch("kind");
+
+  const createAgenda = useMutation({
+    mutationFn: async (data: AgendaFormValues) => {
+      const person = people.find((p) => p.id === data.personId);
+      const body = data.kind === AgendaKind.PERSON
+        ? { kind: data.kind, name: person?.name, personId: data.personId }
+        : { kind: data.kind, name: data.meetingTitle.trim(), meetingTitle: data.meetingTitle.trim() };
+      const res = await apiRequest("POST", "/api/agendas", body);
+      return res.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/agendas"] });
+      setIsDialogOpen(false);
+      form.reset();
+      toast({ title: "Agenda created" });
+    },
+    onError: () => {
+      toast({ title: "Failed to create agenda", variant: "destructive" });
+    },
+  });
+
+  const deleteAgenda = useMutation({
+    mutationFn: async (id: number) => {
+      await apiRequest("DELETE", `/api/agendas/${id}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/agendas"] });
+      invalidateAgendaItems();
+    },
+  });
+
+  const addItem = useMutation({
+    mutationFn: async ({ agendaId, title }: { agendaId: number; title: string }) => {
+      const res = await apiRequest("POST", "/api/tasks", {
+        title,
+        status: TaskStatus.NEXT_ACTION,
+        agendaId,
+      });
+      return res.json();
+    },
+    onSuccess: (_, { agendaId }) => {
+      invalidateAgendaItems();
+      setNewItems((items) => ({ ...items, [agendaId]: "" }));
+    },
+  });
+
+  const markItemDone = useMutation({
+    mutationFn: async (taskId: number) => {
+      await apiRequest("PATCH", `/api/tasks/${taskId}`, { status: TaskStatus.DONE });
+    },
+    onSuccess: invalidateAgendaItems,
+  });
+
+  const getAgendaItems = (agendaId: number) =>
+    tasks.filter((task) => task.agendaId === agendaId && !CLOSED_STATUSES.includes(task.status));
+
+  // Each person gets at most one agenda
+  const peopleWithoutAgenda = people.filter(
+    (person) => !agendas.some((agenda) => agenda.personId === person.id)
+  );
+
+  const handleAddItem = (agendaId: number) => {
+    const title = newItems[agendaId]?.trim();
+    if (title) {
+      addItem.mutate({ agendaId, title });
+    }
+  };
+
+  return (
+    <div className="space-y-8">
+      <div className="flex items-center justify-between">
+        <div>
+          <h2 className="text-3xl font-bold tracking-tight">Agendas</h2>
+          <p className="text-muted-foreground">
+            Things to discuss next time you see someone or meet
+          </p>
+        </div>
+        <Button onClick={() => setIsDialogOpen(true)} data-testid="button-add-agenda">
+          <Plus className="h-4 w-4 mr-2" />
+          Add Agenda
+        </Button>
+      </div>
+
+      <UpcomingAgendas />
+
+      {agendas.length === 0 ? (
+        <Card>
+          <CardContent className="flex flex-col items-center justify-center py-12">
+            <MessagesSquare className="h-12 w-12 text-muted-foreground mb-4" />
+            <p className="text-lg font-medium">No agendas yet</p>
+            <p className="text-sm text-muted-foreground">
+              Create one for a person or a recurring meeting
+            </p>
+          </CardContent>
+        </Card>
+      ) : (
+        <div className="grid gap-6">
+          {agendas.map((agenda) => {
+            const items = getAgendaItems(agenda.id);
+
+            return (
+              <Card key={agenda.id} data-testid={`agenda-${agenda.id}`}>
+                <CardHeader className="flex flex-row items-start justify-between space-y-0">
+                  <div className="space-y-1.5">
+                    <CardTitle className="flex items-center gap-2">
+                      {agenda.kind === AgendaKind.PERSON ? (
+                        <User className="h-4 w-4 text-muted-foreground" />
+                      ) : (
+                        <Users className="h-4 w-4 text-muted-foreground" />
+                      )}
+                      {agenda.name}
+                      <Badge variant="secondary">{items.length}</Badge>
+                    </CardTitle>
+                    {agenda.kind === AgendaKind.MEETING && (
+                      <CardDescription>Events titled "{agenda.meetingTitle}"</CardDescription>
+                    )}
+                  </div>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => deleteAgenda.mutate(agenda.id)}
+                    data-testid={`button-delete-agenda-${agenda.id}`}
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </CardHeader>
+                <CardContent className="space-y-4">
+                  <form
+                    onSubmit={(e) => {
+                      e.preventDefault();
+                      handleAddItem(agenda.id);
+                    }}
+                    className="flex gap-2"
+                  >
+                    <Input
+                      value={newItems[agenda.id] || ""}
+                      onChange={(e) => setNewItems((current) => ({ ...current, [agenda.id]: e.target.value }))}
+                      placeholder="Add something to discuss..."
+                      data-testid={`input-agenda-item-${agenda.id}`}
+                    />
+                    <Button type="submit" variant="outline" disabled={addItem.isPending}>
+                      Add
+                    </Button>
+                  </form>
+                  {items.length > 0 && (
+                    <TaskList
+                      tasks={items}
+                      contexts={contexts}
+                      projects={projects}
+                      onMarkDone={(taskId) => markItemDone.mutate(taskId)}
+                    />
+                  )}
+                </CardContent>
+              </Card>
+            );
+          })}
+        </div>
+      )}
+
+      <Dialog open={isDialogOpen} onOpenChange={setIsDialogOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Add Agenda</DialogTitle>
+          </DialogHeader>
+          <Form {...form}>
+            <form onSubmit={form.handleSubmit((data) => createAgenda.mutate(data))} className="space-y-4">
+              <FormField
+                control={form.control}
+                name="kind"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Agenda for</FormLabel>
+                    <Select value={field.value} onValueChange={field.onChange}>
+                      <FormControl>
+                        <SelectTrigger data-testid="select-agenda-kind">
+                          <SelectValue />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        <SelectItem value={AgendaKind.PERSON}>A person</SelectItem>
+                        <SelectItem value={AgendaKind.MEETING}>A recurring meeting</SelectItem>
+                      </SelectContent>
+                    </Select>
+                  </FormItem>
+                )}
+              />
+              {kind === AgendaKind.PERSON ? (
+                <FormField
+                  control={form.control}
+                  name="personId"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Person</FormLabel>
+                      <Select
+                        value={field.value !== null ? String(field.value) : undefined}
+                        onValueChange={(value) => field.onChange(parseInt(value))}
+                      >
+                        <FormControl>
+                          <SelectTrigger data-testid="select-agenda-person">
+                            <SelectValue placeholder="Select a person" />
+                          </SelectTrigger>
+                        </FormControl>
+                        <SelectContent>
+                          {peopleWithoutAgenda.map((person) => (
+                            <SelectItem key={person.id} value={person.id.toString()}>
+                              {person.name}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                      <FormDescription>
+                        Comes up when they're invited to an event on your calendar
+                      </FormDescription>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              ) : (
+                <FormField
+                  control={form.control}
+                  name="meetingTitle"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Meeting title</FormLabel>
+                      <FormControl>
+                        <Input {...field} placeholder="Team sync" data-testid="input-agenda-meeting" />
+                      </FormControl>
+                      <FormDescription>
+                        Matches calendar events whose title contains this
+                      </FormDescription>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              )}
+              <Button type="submit" className="w-full" disabled={createAgenda.isPending}>
+                Create Agenda
+              </Button>
+            </form>
+          </Form>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
@@ -0,0 +1,171 @@
+import { useQuery } from "@tanstack/react-query";
+import { useAuth } from "@/hooks/use-auth";
+import { useToast } from "@/hooks/use-toast";
+import { insertUserSchema } from "@shared/schema";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import {
+  Form,
+  FormControl,
+  FormDescription,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import { Input } from "@/components/ui/input";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { z } from "zod";
+
+const loginSchema = z.object({
+  username: z.string().trim().min(1, "Please enter your username"),
+  password: z.string().min(1, "Please enter your password"),
+});
+
+type LoginValues = z.infer<typeof loginSchema>;
+type RegisterValues = z.infer<typeof insertUserSchema>;
+
+// apiRequest errors read `<status>: <body>`; the body is JSON with a message
+function getErrorMessage(error: Error): string {
+  const body = error.message.replace(/^\d+: /, "");
+  try {
+    return JSON.parse(body).message || body;
+  } catch {
+    return body;
+  }
+}
+
+export default function AuthPage() {
+  const { login, register } = useAuth();
+  const { toast } = useToast();
+  // Accounts can only be created while the server allows it
+  const { data: registration } = useQuery<{ open: boolean }>({
+    queryKey: ["/api/registration"],
+  });
+  const canRegister = registration?.open ?? false;
+
+  const loginForm = useForm<LoginValues>({
+    resolver: zodResolver(loginSchema),
+    defaultValues: { username: "", password: "" },
+  });
+
+  const registerForm = useForm<RegisterValues>({
+    resolver: zodResolver(insertUserSchema),
+    defaultValues: { username: "", password: "" },
+  });
+
+  const handleLogin = (data: LoginValues) => {
+    login.mutate(data, {
+      onError: (error) => {
+        toast({ title: "Couldn't sign in", description: getErrorMessage(error), variant: "destructive" });
+      },
+    });
+  };
+
+  const handleRegister = (data: RegisterValues) => {
+    register.mutate(data, {
+      onError: (error) => {
+        toast({ title: "Couldn't create account", description: getErrorMessage(error), variant: "destructive" });
+      },
+    });
+  };
+
+  return (
+    <div className="flex min-h-screen items-center justify-center bg-background p-4">
+      <Card className="w-full max-w-sm">
+        <CardHeader className="text-center">
+          <h1 className="mx-auto text-2xl font-black bg-primary text-primary-foreground px-3 py-1 rounded inline-block shadow-md tracking-tighter">
+            GTD
+          </h1>
+          <CardTitle className="pt-2">Welcome</CardTitle>
+          <CardDescription>Sign in to get your head clear again</CardDescription>
+        </CardHeader>
+        <CardContent>
+          <Tabs defaultValue="login">
+            {canRegister && (
+              <TabsList className="grid w-full grid-cols-2 mb-4">
+                <TabsTrigger value="login" data-testid="tab-login">Sign in</TabsTrigger>
+                <TabsTrigger value="register" data-testid="tab-register">Create account</TabsTrigger>
+              </TabsList>
+            )}
+
+            <TabsContent value="login">
+              <Form {...loginForm}>
+                <form onSubmit={loginForm.handleSubmit(handleLogin)} className="space-y-4">
+                  <FormField
+                    control={loginForm.control}
+                    name="username"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Username</FormLabel>
+                        <FormControl>
+                          <Input {...field} autoComplete="username" data-testid="input-login-username" />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                  <FormField
+                    control={loginForm.control}
+                    name="password"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Password</FormLabel>
+                        <FormControl>
+                          <Input type="password" {...field} autoComplete="current-password" data-testid="input-login-password" />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                  <Button type="submit" className="w-full" disabled={login.isPending} data-testid="button-login">
+                    {login.isPending ? "Signing in..." : "Sign in"}
+                  </Button>
+                </form>
+              </Form>
+            </TabsContent>
+
+            <TabsContent value="register">
+              <Form {...registerForm}>
+                <form onSubmit={registerForm.handleSubmit(handleRegister)} className="space-y-4">
+                  <FormField
+                    control={registerForm.control}
+                    name="username"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Username</FormLabel>
+                        <FormControl>
+                          <Input {...field} autoComplete="username" data-testid="input-register-username" />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                  <FormField
+                    control={registerForm.control}
+                    name="password"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Password</FormLabel>
+                        <FormControl>
+                          <Input type="password" {...field} autoComplete="new-password" data-testid="input-register-password" />
+                        </FormControl>
+                        <FormDescription>At least 8 characters</FormDescription>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                  <Button type="submit" className="w-full" disabled={register.isPending} data-testid="button-register">
+                    {register.isPending ? "Creating account..." : "Create account"}
+                  </Button>
+                </form>
+              </Form>
+            </TabsContent>
+          </Tabs>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
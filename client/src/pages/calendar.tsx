@@ -10,6 +10,7 @@ import { Skeleton } from "@/components/ui/skeleton";
 import { Task, TaskStatus } from "@shared/schema";
 import { cn } from "@/lib/utils";
 import { apiRequest, queryClient } from "@/lib/queryClient";
+import UpcomingAgendas from "@/components/upcoming-agendas";
 
 type CalendarView = "today" | "week" | "month" | "year";
 
@@ -237,7 +238,9 @@ export default function Calendar() {
             Connect your Google Calendar to see events alongside your scheduled tasks.
           </AlertDescription>
         </Alert>
-      ) : null}
+      ) : (
+        <UpcomingAgendas className="mb-6" />
+      )}
 
       {/* Loading State */}
       {(isCheckingConnection || isLoadingEvents) && (
@@ -1,6 +1,6 @@
 import { useState, useRef, useEffect, useMemo, useCallback } from "react";
 import { useQuery, useMutation } from "@tanstack/react-query";
-import { Task, TaskStatus, Context, Project, TimeEstimate, EnergyLevel, insertContextSchema, insertProjectSchema, WeeklyReview as WeeklyReviewType } from "@shared/schema";
+import { Task, TaskStatus, type InsertTask, Context, Project, TimeEstimate, EnergyLevel, insertContextSchema, insertProjectSchema, WeeklyReview as WeeklyReviewType } from "@shared/schema";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Input } from "@/components/ui/input";
 import { Button } from "@/components/ui/button";
@@ -26,7 +26,10 @@ import { Plus, Inbox, FolderOpen, RotateCcw, PlayCircle, ChevronDown, ChevronUp,
 import { apiRequest, queryClient } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
 import { Link } from "wouter";
-import { cn } from "@/lib/utils";
+import { cn, isTickled } from "@/lib/utils";
+import UpcomingAgendas from "@/components/upcoming-agendas";
+import QuickCapturePreview from "@/components/quick-capture-preview";
+import { getQuickCaptureFields, parseQuickCapture } from "@shared/quick-capture";
 import {
   HealthGauge,
   HealthLevel,
@@ -41,7 +44,6 @@ import {
 } from "@/components/health-gauge";
 import { differenceInDays, startOfWeek, isAfter } from "date-fns";
 
-type InsertTask = Omit<Task, 'id'>;
 type InsertContext = typeof insertContextSchema._type;
 type InsertProject = typeof insertProjectSchema._type;
 
@@ -93,9 +95,6 @@ const HEALTH_TOOLTIPS = {
   engage: "Shows tasks completed this week. Take action on your next actions!",
 };
 
-// Cap for fallback completed count when review data unavailable
-const MAX_FALLBACK_COMPLETED_COUNT = 15;
-
 const TIME_LABELS = [
   { value: TimeEstimate.MINUTES_15, label: "15 min" },
   { value: TimeEstimate.MINUTES_30, label: "30 min" },
@@ -145,7 +144,7 @@ export default function Dashboard() {
     const weekStart = startOfWeek(now, { weekStartsOn: 1 });
 
     // Filter once, use multiple times
-    const inboxTasks = tasks.filter(t => t.status === TaskStatus.INBOX);
+    const inboxTasks = tasks.filter(t => t.status === TaskStatus.INBOX && !isTickled(t, now));
     const nextActions = tasks.filter(t => t.status === TaskStatus.NEXT_ACTION);
     const waitingTasks = tasks.filter(t => t.status === TaskStatus.WAITING);
     const doneTasks = tasks.filter(t => t.status === TaskStatus.DONE);
@@ -164,12 +163,9 @@ export default function Dashboard() {
       ? differenceInDays(now, new Date(latestReview.completedAt))
       : null;
 
-    const reviewCompletions = sortedReviews
-      .filter(review => isAfter(new Date(review.completedAt), weekStart))
-      .reduce((acc, review) => acc + review.completedTasksCount, 0);
-    const completedThisWeek = reviewCompletions > 0
-      ? reviewCompletions
-      : Math.min(doneTasks.length, MAX_FALLBACK_COMPLETED_COUNT);
+    const completedThisWeek = doneTasks.filter(t =>
+      t.completedAt && isAfter(new Date(t.completedAt), weekStart)
+    ).length;
 
     const staleWaitingFor = waitingTasks.filter(t => {
       if (!t.waitingForFollowUp) return false;
@@ -206,9 +202,9 @@ export default function Dashboard() {
   }, [editingProjectId]);
 
   const quickCaptureMutation = useMutation({
-    mutationFn: async (title: string) => {
+    mutationFn: async (input: string) => {
       const task: InsertTask = {
-        title,
+        title: input,
         status: TaskStatus.INBOX,
         description: null,
         dueDate: null,
@@ -222,6 +218,7 @@ export default function Dashboard() {
         waitingForFollowUp: null,
         referenceCategory: null,
         notes: null,
+        ...getQuickCaptureFields(parseQuickCapture(input, contexts, projects)),
       };
       const res = await apiRequest("POST", "/api/tasks", task);
       return res.json();
@@ -318,9 +315,14 @@ export default function Dashboard() {
     },
   });
 
+  const parsedCapture = useMemo(
+    () => parseQuickCapture(quickCapture, contexts, projects),
+    [quickCapture, contexts, projects]
+  );
+
   const handleQuickCapture = (e: React.FormEvent) => {
     e.preventDefault();
-    if (quickCapture.trim()) {
+    if (parsedCapture.title) {
       quickCaptureMutation.mutate(quickCapture.trim());
     }
   };
@@ -335,7 +337,7 @@ export default function Dashboard() {
   const handleAddProject = (e: React.FormEvent) => {
     e.preventDefault();
     if (newProjectName.trim()) {
-      createProject.mutate({ name: newProjectName.trim(), description: "", isActive: true });
+      createProject.mutate({ name: newProjectName.trim(), description: "" });
     }
   };
 
@@ -369,6 +371,8 @@ export default function Dashboard() {
           <p className="text-muted-foreground">The 5 Steps to Stress-Free Productivity</p>
         </div>
 
+        <UpcomingAgendas />
+
       <div className="space-y-0">
         {/* Step 1: Capture */}
         <Card className="overflow-hidden mb-0 rounded-b-none">
@@ -395,23 +399,26 @@ export default function Dashboard() {
           </button>
           {showCapture && (
             <CardContent className="pt-4">
-              <form onSubmit={handleQuickCapture} className="flex gap-2">
-                <Input
-                  placeholder="What's on your mind?"
-                  value={quickCapture}
-                  onChange={(e) => setQuickCapture(e.target.value)}
-                  className="flex-1"
-                  autoFocus
-                  data-testid="input-quick-capture"
-                />
-                <Button 
-                  type="submit" 
-                  disabled={!quickCapture.trim() || quickCaptureMutation.isPending}
-                  data-testid="button-quick-capture"
-                >
-                  <Plus className="h-4 w-4 mr-2" />
-                  Add
-                </Button>
+              <form onSubmit={handleQuickCapture} className="space-y-2">
+                <div className="flex gap-2">
+                  <Input
+                    placeholder="What's on your mind? Try @context #project ~15m !low due:fri"
+                    value={quickCapture}
+                    onChange={(e) => setQuickCapture(e.target.value)}
+                    className="flex-1"
+                    autoFocus
+                    data-testid="input-quick-capture"
+                  />
+                  <Button 
+                    type="submit" 
+                    disabled={!parsedCapture.title || quickCaptureMutation.isPending}
+                    data-testid="button-quick-capture"
+                  >
+                    <Plus className="h-4 w-4 mr-2" />
+                    Add
+                  </Button>
+                </div>
+                <QuickCapturePreview parsed={parsedCapture} />
               </form>
             </CardContent>
           )}
@@ -1,10 +1,11 @@
-import { useState } from "react";
+import { useState, useMemo } from "react";
 import { useQuery, useMutation } from "@tanstack/react-query";
 import { TaskStatus, type Task, type Context, type Project } from "@shared/schema";
 import TaskList from "@/components/task-list";
 import { Card, CardContent } from "@/components/ui/card";
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription, DialogFooter } from "@/components/ui/dialog";
 import { Button } from "@/components/ui/button";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { CheckCircle2, Trash2 } from "lucide-react";
 import { apiRequest, queryClient } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
@@ -12,6 +13,7 @@ import { useToast } from "@/hooks/use-toast";
 export default function Done() {
   const { toast } = useToast();
   const [deletingTask, setDeletingTask] = useState<Task | null>(null);
+  const [sortOrder, setSortOrder] = useState<"newest" | "oldest">("newest");
 
   const { data: tasks } = useQuery<Task[]>({
     queryKey: ["/api/tasks/status/done"],
@@ -25,6 +27,19 @@ export default function Done() {
     queryKey: ["/api/projects"],
   });
 
+  // Sort by completion date; tasks completed before completedAt existed sort last
+  const sortedTasks = useMemo(() => {
+    const completedTime = (task: Task) =>
+      task.completedAt ? new Date(task.completedAt).getTime() : null;
+    return [...(tasks || [])].sort((a, b) => {
+      const aTime = completedTime(a);
+      const bTime = completedTime(b);
+      if (aTime === null) return bTime === null ? 0 : 1;
+      if (bTime === null) return -1;
+      return sortOrder === "newest" ? bTime - aTime : aTime - bTime;
+    });
+  }, [tasks, sortOrder]);
+
   const updateTask = useMutation({
     mutationFn: async (task: Partial<Task> & { id: number }) => {
       const res = await apiRequest("PATCH", `/api/tasks/${task.id}`, task);
@@ -85,15 +100,26 @@ export default function Done() {
 
   return (
     <div className="space-y-8">
-      <div>
-        <h2 className="text-3xl font-bold tracking-tight">Completed</h2>
-        <p className="text-muted-foreground">
-          Tasks you've finished - celebrate your accomplishments!
-        </p>
+      <div className="flex items-center justify-between">
+        <div>
+          <h2 className="text-3xl font-bold tracking-tight">Completed</h2>
+          <p className="text-muted-foreground">
+            Tasks you've finished - celebrate your accomplishments!
+          </p>
+        </div>
+        <Select value={sortOrder} onValueChange={(val) => setSortOrder(val as "newest" | "oldest")}>
+          <SelectTrigger className="w-48 h-8" data-testid="select-done-sort">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="newest">Recently completed</SelectItem>
+            <SelectItem value="oldest">Oldest completed</SelectItem>
+          </SelectContent>
+        </Select>
       </div>
 
       <div className="space-y-4">
-        {!tasks || tasks.length === 0 ? (
+        {sortedTasks.length === 0 ? (
           <Card>
             <CardContent className="flex flex-col items-center justify-center py-12">
               <CheckCircle2 className="h-12 w-12 text-muted-foreground mb-4" />
@@ -105,7 +131,7 @@ export default function Done() {
           </Card>
         ) : (
           <TaskList
-            tasks={tasks}
+            tasks={sortedTasks}
             contexts={contexts}
             projects={projects}
             onEdit={handleUndone}
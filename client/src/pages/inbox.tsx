@@ -1,7 +1,7 @@
 import { useState, useMemo } from "react";
 import { useQuery, useMutation } from "@tanstack/react-query";
 import { Link } from "wouter";
-import { TaskStatus, type Task, type Email, type Context, type Project } from "@shared/schema";
+import { type Task, type Email, type EmailDraft, type Context, type Project, EmailFolder } from "@shared/schema";
 import { apiRequest, queryClient } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
 import { type MailItem } from "@/types/mail";
@@ -13,8 +13,17 @@ import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { ScrollArea } from "@/components/ui/scroll-area";
 import { Separator } from "@/components/ui/separator";
-import { PenSquare, Search, RefreshCw, ChevronLeft, Inbox as InboxIcon } from "lucide-react";
-import { cn } from "@/lib/utils";
+import { PenSquare, Search, RefreshCw, ChevronLeft, Inbox as InboxIcon, Send, FileText } from "lucide-react";
+import { cn, isTickled } from "@/lib/utils";
+import { format } from "date-fns";
+
+type MailboxView = "inbox" | "sent" | "drafts";
+
+const MAILBOX_VIEWS: { value: MailboxView; label: string; icon: typeof InboxIcon }[] = [
+  { value: "inbox", label: "Inbox", icon: InboxIcon },
+  { value: "sent", label: "Sent", icon: Send },
+  { value: "drafts", label: "Drafts", icon: FileText },
+];
 
 export default function Inbox() {
   const { toast } = useToast();
@@ -25,6 +34,10 @@ export default function Inbox() {
   const [isComposerOpen, setIsComposerOpen] = useState(false);
   const [composerMode, setComposerMode] = useState<"new" | "reply" | "forward">("new");
   const [composerEmail, setComposerEmail] = useState<Email | undefined>(undefined);
+  const [composerDraft, setComposerDraft] = useState<EmailDraft | undefined>(undefined);
+  // Bumped on every open so the composer starts from fresh state
+  const [composerSession, setComposerSession] = useState(0);
+  const [mailboxView, setMailboxView] = useState<MailboxView>("inbox");
 
   const { data: tasks = [], refetch: refetchTasks } = useQuery<Task[]>({
     queryKey: ["/api/tasks/status/inbox"],
@@ -38,101 +51,76 @@ export default function Inbox() {
     queryKey: ["/api/projects"],
   });
 
-  const { data: emails = [], refetch: refetchEmails, isFetching: isEmailsFetching } = useQuery<Email[]>({
+  const { data: emails = [], isFetching: isEmailsFetching } = useQuery<Email[]>({
     queryKey: ["/api/emails"],
   });
 
-  const processItem = useMutation({
-    mutationFn: async (result: ProcessingResult & { itemId: number; itemType: "task" | "email" }) => {
-      const { action, task, createProject, itemId, itemType } = result;
+  const { data: drafts = [] } = useQuery<EmailDraft[]>({
+    queryKey: ["/api/drafts"],
+  });
 
-      if (action === "trash") {
-        if (itemType === "task") {
-          await apiRequest("PATCH", `/api/tasks/${itemId}`, { status: TaskStatus.TRASH });
-        } else {
-          await apiRequest("DELETE", `/api/emails/${itemId}`);
-        }
-      } else if (action === "reference") {
-        if (itemType === "task") {
-          const updates: Partial<Task> = {
-            status: TaskStatus.REFERENCE,
-            ...(task?.referenceCategory && { referenceCategory: task.referenceCategory })
-          };
-          await apiRequest("PATCH", `/api/tasks/${itemId}`, updates);
-        } else {
-          await apiRequest("PATCH", `/api/emails/${itemId}`, { processed: true });
-        }
-      } else if (action === "someday") {
-        if (itemType === "task") {
-          const updates: Partial<Task> = {
-            status: TaskStatus.SOMEDAY,
-            ...(task?.notes && { notes: task.notes })
-          };
-          await apiRequest("PATCH", `/api/tasks/${itemId}`, updates);
-        } else {
-          await apiRequest("PATCH", `/api/emails/${itemId}`, { processed: true });
-        }
-      } else if (action === "do-now") {
-        if (itemType === "task") {
-          await apiRequest("PATCH", `/api/tasks/${itemId}`, { status: TaskStatus.DONE });
-        } else {
-          await apiRequest("PATCH", `/api/emails/${itemId}`, { processed: true });
-        }
-      } else if (action === "delegate" || action === "next-action") {
-        if (createProject) {
-          const projectRes = await apiRequest("POST", "/api/projects", {
-            name: createProject.name,
-            description: createProject.description,
-            isActive: true,
-          });
-          const project = await projectRes.json();
-          if (task) {
-            task.projectId = project.id;
-          }
-        }
+  // Emails are synced in the background; refresh asks the server to check now
+  const syncEmails = useMutation({
+    mutationFn: async () => {
+      await apiRequest("POST", "/api/emails/sync");
+    },
+    onSettled: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/emails"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/emails/sync-status"] });
+    },
+    onError: () => {
+      toast({ title: "Email sync failed", description: "Showing the last synced messages", variant: "destructive" });
+    },
+  });
+  const isRefreshing = isEmailsFetching || syncEmails.isPending;
 
-        if (itemType === "email") {
-          await apiRequest("POST", "/api/tasks", task);
-          await apiRequest("POST", `/api/emails/${itemId}/process`);
-        } else {
-          await apiRequest("PATCH", `/api/tasks/${itemId}`, task);
-        }
-      } else if (action === "defer") {
-        if (itemType === "task") {
-          const currentTask = tasks.find((t) => t.id === itemId);
-          await apiRequest("PATCH", `/api/tasks/${itemId}`, {
-            deferCount: (currentTask?.deferCount || 0) + 1,
-          });
-        }
-      }
+  const processItem = useMutation({
+    mutationFn: async ({ itemId, itemType, ...result }: ProcessingResult & { itemId: number; itemType: "task" | "email" }) => {
+      const res = await apiRequest("POST", `/api/inbox/${itemType}/${itemId}/process`, result);
+      return res.json();
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["/api/tasks"] });
       queryClient.invalidateQueries({ queryKey: ["/api/tasks/status/inbox"] });
       queryClient.invalidateQueries({ queryKey: ["/api/emails"] });
       queryClient.invalidateQueries({ queryKey: ["/api/projects"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/people"] });
       setSelectedItem(null);
       toast({ title: "Item processed", description: "Item has been processed successfully" });
     },
+    onError: () => {
+      toast({ title: "Failed to process item", description: "The item is still in your inbox", variant: "destructive" });
+    },
   });
 
-  // Combine tasks and unprocessed emails
+  // Combine tasks and unprocessed emails, showing each conversation once
+  // through its latest unprocessed message
   const mailItems = useMemo(() => {
-    const unprocessedEmails = emails.filter((e) => !e.processed);
+    const threads = new Map<string, Email[]>();
+    for (const email of emails.filter((e) => !e.processed)) {
+      const key = email.threadId ?? `email-${email.id}`;
+      threads.set(key, [...(threads.get(key) || []), email]);
+    }
 
     const items: MailItem[] = [
-      ...tasks.map((task) => ({
+      ...tasks.filter((task) => !isTickled(task)).map((task) => ({
         id: `task-${task.id}`,
         type: "task" as const,
         data: task,
-        timestamp: new Date(),
-      })),
-      ...unprocessedEmails.map((email) => ({
-        id: `email-${email.id}`,
-        type: "email" as const,
-        data: email,
-        timestamp: new Date(email.receivedAt),
+        timestamp: new Date(task.createdAt),
       })),
+      ...Array.from(threads.values()).map((threadEmails) => {
+        const latest = threadEmails.reduce((a, b) =>
+          new Date(b.receivedAt) > new Date(a.receivedAt) ? b : a
+        );
+        return {
+          id: `email-${latest.id}`,
+          type: "email" as const,
+          data: latest,
+          timestamp: new Date(latest.receivedAt),
+          threadCount: threadEmails.length,
+        };
+      }),
     ];
 
     // Filter by search query
@@ -161,9 +149,29 @@ export default function Inbox() {
     return filtered.sort((a, b) => b.timestamp.getTime() - a.timestamp.getTime());
   }, [tasks, emails, searchQuery]);
 
+  const sentItems = useMemo(() => {
+    const query = searchQuery.toLowerCase();
+    return emails
+      .filter((email) => email.folder === EmailFolder.SENT)
+      .filter((email) =>
+        !query ||
+        email.subject.toLowerCase().includes(query) ||
+        email.recipients.some((recipient) => recipient.toLowerCase().includes(query))
+      )
+      .map((email): MailItem => ({
+        id: `email-${email.id}`,
+        type: "email",
+        data: email,
+        timestamp: new Date(email.receivedAt),
+      }))
+      .sort((a, b) => b.timestamp.getTime() - a.timestamp.getTime());
+  }, [emails, searchQuery]);
+
+  const listItems = mailboxView === "sent" ? sentItems : mailItems;
+
   const handleRefresh = () => {
     refetchTasks();
-    refetchEmails();
+    syncEmails.mutate();
   };
 
   const handleProcess = (item: MailItem) => {
@@ -185,22 +193,41 @@ export default function Inbox() {
     }
   };
 
-  const handleReply = (email: Email) => {
-    setComposerMode("reply");
+  const openComposer = (mode: "new" | "reply" | "forward", email?: Email, draft?: EmailDraft) => {
+    setComposerMode(mode);
     setComposerEmail(email);
+    setComposerDraft(draft);
+    setComposerSession((session) => session + 1);
     setIsComposerOpen(true);
   };
 
+  // Replies and forwards resume a half-written draft for the same email
+  const handleReply = (email: Email) => {
+    openComposer("reply", email, drafts.find((d) => d.key === `reply-${email.id}`));
+  };
+
   const handleForward = (email: Email) => {
-    setComposerMode("forward");
-    setComposerEmail(email);
-    setIsComposerOpen(true);
+    openComposer("forward", email, drafts.find((d) => d.key === `forward-${email.id}`));
   };
 
   const handleComposeNew = () => {
-    setComposerMode("new");
-    setComposerEmail(undefined);
-    setIsComposerOpen(true);
+    openComposer("new");
+  };
+
+  const handleOpenDraft = (draft: EmailDraft) => {
+    const original = emails.find((email) => email.id === draft.originalEmailId);
+    openComposer(draft.mode as "new" | "reply" | "forward", original, draft);
+  };
+
+  const handleChangeView = (view: MailboxView) => {
+    setMailboxView(view);
+    setSelectedItem(null);
+  };
+
+  const viewCounts: Record<MailboxView, number> = {
+    inbox: mailItems.length,
+    sent: sentItems.length,
+    drafts: drafts.length,
   };
 
   return (
@@ -216,10 +243,21 @@ export default function Inbox() {
             <h1 className="text-xl font-black bg-primary text-primary-foreground px-2 py-0.5 rounded shadow-sm tracking-tighter cursor-pointer inline-block mb-3">GTD</h1>
           </Link>
 
-          <div className="flex items-center gap-2 mb-2">
-            <InboxIcon className="h-5 w-5" />
-            <h2 className="text-lg font-semibold">Inbox</h2>
-            <span className="text-sm text-muted-foreground">({mailItems.length})</span>
+          <div className="flex items-center gap-1">
+            {MAILBOX_VIEWS.map(({ value, label, icon: Icon }) => (
+              <Button
+                key={value}
+                variant={mailboxView === value ? "secondary" : "ghost"}
+                size="sm"
+                className="gap-1.5 px-2"
+                onClick={() => handleChangeView(value)}
+                data-testid={`button-mailbox-${value}`}
+              >
+                <Icon className="h-4 w-4" />
+                {label}
+                <span className="text-xs text-muted-foreground">({viewCounts[value]})</span>
+              </Button>
+            ))}
           </div>
         </div>
 
@@ -239,10 +277,10 @@ export default function Inbox() {
               variant="ghost"
               size="icon"
               onClick={handleRefresh}
-              disabled={isEmailsFetching}
+              disabled={isRefreshing}
               className="h-8 w-8"
             >
-              <RefreshCw className={`h-4 w-4 ${isEmailsFetching ? 'animate-spin' : ''}`} />
+              <RefreshCw className={`h-4 w-4 ${isRefreshing ? 'animate-spin' : ''}`} />
             </Button>
           </div>
           <Button
@@ -257,14 +295,48 @@ export default function Inbox() {
 
         {/* Item List */}
         <ScrollArea className="flex-1">
-          {mailItems.length === 0 ? (
+          {mailboxView === "drafts" ? (
+            drafts.length === 0 ? (
+              <div className="p-8 text-center text-muted-foreground">
+                <FileText className="h-12 w-12 mx-auto mb-3 opacity-20" />
+                <p className="text-sm">No drafts</p>
+              </div>
+            ) : (
+              drafts.map((draft) => (
+                <div
+                  key={draft.id}
+                  onClick={() => handleOpenDraft(draft)}
+                  className="p-3 cursor-pointer border-b border-border/50 hover:bg-accent/50"
+                  data-testid={`draft-${draft.id}`}
+                >
+                  <div className="flex items-center justify-between gap-2">
+                    <span className="text-sm font-medium truncate">{draft.to || "(no recipient)"}</span>
+                    <span className="text-xs text-muted-foreground flex-shrink-0">
+                      {format(new Date(draft.updatedAt), "MMM d, h:mm a")}
+                    </span>
+                  </div>
+                  <div className="text-sm truncate">{draft.subject || "(no subject)"}</div>
+                  <div className="text-sm text-muted-foreground truncate">{draft.body.substring(0, 100)}</div>
+                </div>
+              ))
+            )
+          ) : listItems.length === 0 ? (
             <div className="p-8 text-center text-muted-foreground">
-              <InboxIcon className="h-12 w-12 mx-auto mb-3 opacity-20" />
-              <p className="font-medium">Inbox Zero!</p>
-              <p className="text-sm">All items processed</p>
+              {mailboxView === "sent" ? (
+                <>
+                  <Send className="h-12 w-12 mx-auto mb-3 opacity-20" />
+                  <p className="text-sm">No sent messages</p>
+                </>
+              ) : (
+                <>
+                  <InboxIcon className="h-12 w-12 mx-auto mb-3 opacity-20" />
+                  <p className="font-medium">Inbox Zero!</p>
+                  <p className="text-sm">All items processed</p>
+                </>
+              )}
             </div>
           ) : (
-            mailItems.map((item) => (
+            listItems.map((item) => (
               <MailListItem
                 key={item.id}
                 item={item}
@@ -298,7 +370,7 @@ export default function Inbox() {
           projects={projects}
           onReply={handleReply}
           onForward={handleForward}
-          onProcess={handleProcess}
+          onProcess={mailboxView === "inbox" ? handleProcess : undefined}
         />
       </div>
 
@@ -316,10 +388,12 @@ export default function Inbox() {
 
       {/* Email Composer */}
       <EmailComposer
+        key={composerSession}
         open={isComposerOpen}
         onOpenChange={setIsComposerOpen}
         mode={composerMode}
         originalEmail={composerEmail}
+        draft={composerDraft}
       />
     </div>
   );
@@ -1,7 +1,10 @@
 import { useState } from "react";
 import { useQuery, useMutation } from "@tanstack/react-query";
-import { TaskStatus, TimeEstimate, EnergyLevel, type Task, type Context, type Project } from "@shared/schema";
+import { TaskStatus, TimeEstimate, EnergyLevel, type Task, type Context, type Project, recurrenceRuleSchema } from "@shared/schema";
 import TaskList from "@/components/task-list";
+import TaskHistory from "@/components/task-history";
+import RecurrencePicker from "@/components/recurrence-picker";
+import AttachmentList from "@/components/attachment-list";
 import { apiRequest, queryClient } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
 import {
@@ -22,6 +25,7 @@ import { Button } from "@/components/ui/button";
 import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { z } from "zod";
+import { isTickled } from "@/lib/utils";
 
 // Task edit form schema
 const taskEditSchema = z.object({
@@ -37,6 +41,8 @@ const taskEditSchema = z.object({
   referenceCategory: z.string(),
   notes: z.string(),
   dueDate: z.date().nullable(),
+  recurrence: recurrenceRuleSchema.nullable(),
+  tickleDate: z.date().nullable(),
 });
 
 type TaskFormValues = z.infer<typeof taskEditSchema>;
@@ -46,6 +52,7 @@ export default function Incubate() {
   const [deleteConfirm, setDeleteConfirm] = useState<Task | null>(null);
   const [editingTask, setEditingTask] = useState<Task | null>(null);
   const [isTaskEditDialogOpen, setIsTaskEditDialogOpen] = useState(false);
+  const [showDeferred, setShowDeferred] = useState(false);
 
   const { data: tasks } = useQuery<Task[]>({
     queryKey: ["/api/tasks/status/someday"],
@@ -74,6 +81,8 @@ export default function Incubate() {
       referenceCategory: "",
       notes: "",
       dueDate: null,
+      recurrence: null,
+      tickleDate: null,
     },
   });
 
@@ -132,6 +141,8 @@ export default function Incubate() {
       referenceCategory: task.referenceCategory || "",
       notes: task.notes || "",
       dueDate: task.dueDate ? new Date(task.dueDate) : null,
+      recurrence: task.recurrence ?? null,
+      tickleDate: task.tickleDate ? new Date(task.tickleDate) : null,
     });
     setIsTaskEditDialogOpen(true);
   };
@@ -140,6 +151,10 @@ export default function Incubate() {
     updateTask.mutate(data);
   };
 
+  // Tickled tasks stay hidden until their defer-until date unless asked for
+  const deferredCount = (tasks || []).filter((task) => isTickled(task)).length;
+  const visibleTasks = (tasks || []).filter((task) => showDeferred || !isTickled(task));
+
   return (
     <div className="space-y-8">
       <div>
@@ -147,10 +162,21 @@ export default function Incubate() {
         <p className="text-muted-foreground">
           Items to revisit later (Someday/Maybe list)
         </p>
+        {deferredCount > 0 && (
+          <Button
+            variant="ghost"
+            size="sm"
+            className="h-6 px-2 text-xs"
+            onClick={() => setShowDeferred(!showDeferred)}
+            data-testid="button-toggle-deferred"
+          >
+            {showDeferred ? "Hide" : "Show"} {deferredCount} deferred
+          </Button>
+        )}
       </div>
 
       <TaskList
-        tasks={tasks || []}
+        tasks={visibleTasks}
         contexts={contexts}
         projects={projects}
         onEdit={handleEditTask}
@@ -366,6 +392,40 @@ export default function Incubate() {
                 )}
               />
 
+              <FormField
+                control={taskForm.control}
+                name="recurrence"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Repeat</FormLabel>
+                    <FormControl>
+                      <RecurrencePicker value={field.value} onChange={field.onChange} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <FormField
+                control={taskForm.control}
+                name="tickleDate"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Defer Until</FormLabel>
+                    <FormControl>
+                      <Input 
+                        type="date" 
+                        {...field}
+                        value={field.value instanceof Date ? field.value.toISOString().split('T')[0] : ''}
+                        onChange={(e) => field.onChange(e.target.value ? new Date(e.target.value) : null)}
+                        data-testid="input-tickle-date"
+                      />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
               {taskForm.watch("status") === TaskStatus.SOMEDAY && (
                 <FormField
                   control={taskForm.control}
@@ -387,6 +447,16 @@ export default function Incubate() {
               </Button>
             </form>
           </Form>
+          {editingTask && (
+            <AttachmentList
+              attachments={editingTask.attachments}
+              baseUrl={`/api/tasks/${editingTask.id}/attachments`}
+              className="border-t pt-4"
+            />
+          )}
+          {editingTask && (
+            <TaskHistory task={editingTask} contexts={contexts} projects={projects} />
+          )}
         </DialogContent>
       </Dialog>
     </div>
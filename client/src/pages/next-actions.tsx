@@ -1,7 +1,13 @@
 import { useState } from "react";
 import { useQuery, useMutation } from "@tanstack/react-query";
-import { TaskStatus, TimeEstimate, EnergyLevel, type Task, type Context, type Project, type InsertContext, insertContextSchema } from "@shared/schema";
+import { TaskStatus, TimeEstimate, EnergyLevel, type Task, type TaskDependency, type Context, type Project, type InsertContext, insertContextSchema, recurrenceRuleSchema } from "@shared/schema";
+import { getBlockers } from "@shared/task-dependencies";
+import { getQueuedActionIds } from "@shared/project-tree";
 import TaskList from "@/components/task-list";
+import TaskHistory from "@/components/task-history";
+import RecurrencePicker from "@/components/recurrence-picker";
+import TaskDependencies from "@/components/task-dependencies";
+import AttachmentList from "@/components/attachment-list";
 import { Card, CardContent } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
@@ -17,6 +23,7 @@ import { zodResolver } from "@hookform/resolvers/zod";
 import { apiRequest, queryClient } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
 import { z } from "zod";
+import { isTickled } from "@/lib/utils";
 
 const TIME_LABELS = [
   { value: TimeEstimate.MINUTES_15, label: "15 min" },
@@ -44,6 +51,8 @@ const taskEditSchema = z.object({
   referenceCategory: z.string(),
   notes: z.string(),
   dueDate: z.date().nullable(),
+  recurrence: recurrenceRuleSchema.nullable(),
+  tickleDate: z.date().nullable(),
 });
 
 type TaskFormValues = z.infer<typeof taskEditSchema>;
@@ -56,12 +65,22 @@ export default function NextActions() {
   const [selectedContext, setSelectedContext] = useState<number | null>(null);
   const [selectedTime, setSelectedTime] = useState<string | null>(null);
   const [selectedEnergy, setSelectedEnergy] = useState<string | null>(null);
+  const [showDeferred, setShowDeferred] = useState(false);
+  const [showBlocked, setShowBlocked] = useState(false);
   const { toast } = useToast();
 
-  const { data: tasks } = useQuery<Task[]>({
+  const { data: availableTasks } = useQuery<Task[]>({
     queryKey: ["/api/tasks/status/next_action"],
   });
 
+  const { data: allTasks = [] } = useQuery<Task[]>({
+    queryKey: ["/api/tasks"],
+  });
+
+  const { data: dependencies = [] } = useQuery<TaskDependency[]>({
+    queryKey: ["/api/task-dependencies"],
+  });
+
   const { data: contexts } = useQuery<Context[]>({
     queryKey: ["/api/contexts"],
   });
@@ -70,6 +89,15 @@ export default function NextActions() {
     queryKey: ["/api/projects"],
   });
 
+  // The server leaves out actions still waiting on another task; they're
+  // listed greyed out after the rest when asked for
+  const blockers = getBlockers(allTasks, dependencies);
+  const queuedTaskIds = getQueuedActionIds(projects || [], allTasks);
+  const blockedTasks = allTasks.filter((task) =>
+    task.status === TaskStatus.NEXT_ACTION && blockers.has(task.id) && !queuedTaskIds.has(task.id)
+  );
+  const tasks = availableTasks && [...availableTasks, ...(showBlocked ? blockedTasks : [])];
+
   const contextForm = useForm({
     resolver: zodResolver(insertContextSchema),
     defaultValues: {
@@ -93,6 +121,8 @@ export default function NextActions() {
       referenceCategory: "",
       notes: "",
       dueDate: null,
+      recurrence: null,
+      tickleDate: null,
     },
   });
 
@@ -161,6 +191,8 @@ export default function NextActions() {
       referenceCategory: task.referenceCategory || "",
       notes: task.notes || "",
       dueDate: task.dueDate ? new Date(task.dueDate) : null,
+      recurrence: task.recurrence ?? null,
+      tickleDate: task.tickleDate ? new Date(task.tickleDate) : null,
     });
     setIsTaskEditDialogOpen(true);
   };
@@ -190,7 +222,11 @@ export default function NextActions() {
 
   const hasActiveFilters = selectedProject !== null || selectedContext !== null || selectedTime !== null || selectedEnergy !== null;
 
-  const filteredTasks = (tasks || []).filter((task) => {
+  // Tickled tasks stay hidden until their defer-until date unless asked for
+  const deferredCount = (tasks || []).filter((task) => isTickled(task)).length;
+  const visibleTasks = (tasks || []).filter((task) => showDeferred || !isTickled(task));
+
+  const filteredTasks = visibleTasks.filter((task) => {
     if (selectedProject !== null && task.projectId !== selectedProject) return false;
     if (selectedContext !== null && task.contextId !== selectedContext) return false;
     if (selectedTime !== null && task.timeEstimate !== selectedTime) return false;
@@ -198,18 +234,20 @@ export default function NextActions() {
     return true;
   });
 
+  const readyCount = filteredTasks.filter((task) => !blockers.has(task.id)).length;
+
   const activeProjects = (projects || []).filter(p => p.isActive);
 
   const getContextTaskCount = (contextId: number) => {
-    return (tasks || []).filter(t => t.contextId === contextId).length;
+    return visibleTasks.filter(t => t.contextId === contextId).length;
   };
 
   const getTimeTaskCount = (time: string) => {
-    return (tasks || []).filter(t => t.timeEstimate === time).length;
+    return visibleTasks.filter(t => t.timeEstimate === time).length;
   };
 
   const getEnergyTaskCount = (energy: string) => {
-    return (tasks || []).filter(t => t.energyLevel === energy).length;
+    return visibleTasks.filter(t => t.energyLevel === energy).length;
   };
 
   return (
@@ -218,8 +256,30 @@ export default function NextActions() {
         <div>
           <h2 className="text-3xl font-bold tracking-tight">Next Actions</h2>
           <p className="text-muted-foreground">
-            {filteredTasks.length} action{filteredTasks.length !== 1 ? 's' : ''} ready to do
+            {readyCount} action{readyCount !== 1 ? 's' : ''} ready to do
           </p>
+          {deferredCount > 0 && (
+            <Button
+              variant="ghost"
+              size="sm"
+              className="h-6 px-2 text-xs"
+              onClick={() => setShowDeferred(!showDeferred)}
+              data-testid="button-toggle-deferred"
+            >
+              {showDeferred ? "Hide" : "Show"} {deferredCount} deferred
+            </Button>
+          )}
+          {blockedTasks.length > 0 && (
+            <Button
+              variant="ghost"
+              size="sm"
+              className="h-6 px-2 text-xs"
+              onClick={() => setShowBlocked(!showBlocked)}
+              data-testid="button-toggle-blocked"
+            >
+              {showBlocked ? "Hide" : "Show"} {blockedTasks.length} blocked
+            </Button>
+          )}
         </div>
         <Link href="/">
           <Button variant="ghost" size="sm" className="gap-2">
@@ -349,6 +409,7 @@ export default function NextActions() {
           projects={projects}
           onEdit={handleEditTask}
           onMarkDone={(taskId) => markTaskDone.mutate(taskId)}
+          blockers={blockers}
         />
       ) : (
         <Card>
@@ -612,6 +673,40 @@ export default function NextActions() {
                 )}
               />
 
+              <FormField
+                control={taskForm.control}
+                name="recurrence"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Repeat</FormLabel>
+                    <FormControl>
+                      <RecurrencePicker value={field.value} onChange={field.onChange} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <FormField
+                control={taskForm.control}
+                name="tickleDate"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Defer Until</FormLabel>
+                    <FormControl>
+                      <Input 
+                        type="date" 
+                        {...field}
+                        value={field.value instanceof Date ? field.value.toISOString().split('T')[0] : ''}
+                        onChange={(e) => field.onChange(e.target.value ? new Date(e.target.value) : null)}
+                        data-testid="input-tickle-date"
+                      />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
               {taskForm.watch("status") === TaskStatus.WAITING && (
                 <>
                   <FormField
@@ -687,6 +782,17 @@ export default function NextActions() {
               </Button>
             </form>
           </Form>
+          {editingTask && (
+            <AttachmentList
+              attachments={editingTask.attachments}
+              baseUrl={`/api/tasks/${editingTask.id}/attachments`}
+              className="border-t pt-4"
+            />
+          )}
+          {editingTask && <TaskDependencies task={editingTask} />}
+          {editingTask && (
+            <TaskHistory task={editingTask} contexts={contexts} projects={projects} />
+          )}
         </DialogContent>
       </Dialog>
     </div>
@@ -0,0 +1,367 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { TaskStatus, type Person, type PersonSuggestion, type Task, type Context, type Project } from "@shared/schema";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Form,
+  FormControl,
+  FormDescription,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import TaskList from "@/components/task-list";
+import { Edit, Mail, Plus, Trash2, Users } from "lucide-react";
+import { z } from "zod";
+
+const personFormSchema = z.object({
+  name: z.string().trim().min(1, "Please enter a name"),
+  // Comma-separated in the form, an array in the API
+  emails: z.string().refine(
+    (value) => splitEmails(value).every((email) => z.string().email().safeParse(email).success),
+    "Please enter valid email addresses separated by commas"
+  ),
+  notes: z.string(),
+});
+
+type PersonFormValues = z.infer<typeof personFormSchema>;
+
+function splitEmails(value: string) {
+  return value.split(",").map((email) => email.trim().toLowerCase()).filter(Boolean);
+}
+
+// Everything still open that's delegated to or waiting on someone
+const CLOSED_STATUSES: string[] = [TaskStatus.DONE, TaskStatus.TRASH];
+
+function invalidatePeople() {
+  queryClient.invalidateQueries({ queryKey: ["/api/people"] });
+  queryClient.invalidateQueries({ queryKey: ["/api/people/suggestions"] });
+  queryClient.invalidateQueries({ queryKey: ["/api/tasks"] });
+}
+
+export default function People() {
+  const { toast } = useToast();
+  const [editingPerson, setEditingPerson] = useState<Person | null>(null);
+  const [isDialogOpen, setIsDialogOpen] = useState(false);
+
+  const { data: people = [] } = useQuery<Person[]>({
+    queryKey: ["/api/people"],
+  });
+
+  const { data: suggestions = [] } = useQuery<PersonSuggestion[]>({
+    queryKey: ["/api/people/suggestions"],
+  });
+
+  const { data: tasks = [] } = useQuery<Task[]>({
+    queryKey: ["/api/tasks"],
+  });
+
+  const { data: contexts } = useQuery<Context[]>({
+    queryKey: ["/api/contexts"],
+  });
+
+  const { data: projects } = useQuery<Project[]>({
+    queryKey: ["/api/projects"],
+  });
+
+  const form = useForm<PersonFormValues>({
+    resolver: zodResolver(personFormSchema),
+    defaultValues: { name: "", emails: "", notes: "" },
+  });
+
+  const savePerson = useMutation({
+    mutationFn: async (data: PersonFormValues) => {
+      const body = { name: data.name, emails: splitEmails(data.emails), notes: data.notes || null };
+      const res = editingPerson
+        ? await apiRequest("PATCH", `/api/people/${editingPerson.id}`, body)
+        : await apiRequest("POST", "/api/people", body);
+      return res.json();
+    },
+    onSuccess: () => {
+      invalidatePeople();
+      setIsDialogOpen(false);
+      setEditingPerson(null);
+      form.reset();
+      toast({ title: editingPerson ? "Person updated" : "Person added" });
+    },
+    onError: () => {
+      toast({
+        title: "Failed to save person",
+        description: "Names must be unique",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const addSuggestion = useMutation({
+    mutationFn: async (suggestion: PersonSuggestion) => {
+      const res = await apiRequest("POST", "/api/people", { name: suggestion.name, emails: [suggestion.email] });
+      return res.json();
+    },
+    onSuccess: invalidatePeople,
+    onError: () => {
+      toast({
+        title: "Failed to add person",
+        description: "Someone with this name may already exist - add the address to them instead",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const deletePerson = useMutation({
+    mutationFn: async (id: number) => {
+      await apiRequest("DELETE", `/api/people/${id}`);
+    },
+    onSuccess: () => {
+      invalidatePeople();
+      toast({ title: "Person removed" });
+    },
+  });
+
+  const mergePerson = useMutation({
+    mutationFn: async ({ id, intoId }: { id: number; intoId: number }) => {
+      const res = await apiRequest("POST", `/api/people/${id}/merge`, { intoId });
+      return res.json() as Promise<Person>;
+    },
+    onSuccess: (merged) => {
+      invalidatePeople();
+      toast({ title: "People merged", description: `Everything now sits with ${merged.name}` });
+    },
+  });
+
+  const markTaskDone = useMutation({
+    mutationFn: async (taskId: number) => {
+      await apiRequest("PATCH", `/api/tasks/${taskId}`, { status: TaskStatus.DONE });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/tasks"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/tasks/status/waiting"] });
+    },
+  });
+
+  const handleAddPerson = () => {
+    setEditingPerson(null);
+    form.reset({ name: "", emails: "", notes: "" });
+    setIsDialogOpen(true);
+  };
+
+  const handleEditPerson = (person: Person) => {
+    setEditingPerson(person);
+    form.reset({ name: person.name, emails: person.emails.join(", "), notes: person.notes || "" });
+    setIsDialogOpen(true);
+  };
+
+  const getPersonTasks = (personId: number) =>
+    tasks.filter((task) => task.waitingForId === personId && !CLOSED_STATUSES.includes(task.status));
+
+  return (
+    <div className="space-y-8">
+      <div className="flex items-center justify-between">
+        <div>
+          <h2 className="text-3xl font-bold tracking-tight">People</h2>
+          <p className="text-muted-foreground">
+            Everything delegated to or waiting on each person
+          </p>
+        </div>
+        <Button onClick={handleAddPerson} data-testid="button-add-person">
+          <Plus className="h-4 w-4 mr-2" />
+          Add Person
+        </Button>
+      </div>
+
+      {suggestions.length > 0 && (
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2 text-base">
+              <Mail className="h-4 w-4" />
+              Suggested from your email
+            </CardTitle>
+            <CardDescription>Frequent senders who aren't in your people list yet</CardDescription>
+          </CardHeader>
+          <CardContent className="flex flex-wrap gap-2">
+            {suggestions.map((suggestion) => (
+              <Button
+                key={suggestion.email}
+                variant="outline"
+                size="sm"
+                onClick={() => addSuggestion.mutate(suggestion)}
+                disabled={addSuggestion.isPending}
+                title={suggestion.email}
+                data-testid={`button-add-suggestion-${suggestion.email}`}
+              >
+                <Plus className="h-3 w-3 mr-1" />
+                {suggestion.name}
+                <span className="ml-1 text-xs text-muted-foreground">({suggestion.messageCount})</span>
+              </Button>
+            ))}
+          </CardContent>
+        </Card>
+      )}
+
+      {people.length === 0 ? (
+        <Card>
+          <CardContent className="flex flex-col items-center justify-center py-12">
+            <Users className="h-12 w-12 text-muted-foreground mb-4" />
+            <p className="text-lg font-medium">No people yet</p>
+            <p className="text-sm text-muted-foreground">
+              People you delegate to are added here automatically
+            </p>
+          </CardContent>
+        </Card>
+      ) : (
+        <div className="grid gap-6">
+          {people.map((person) => {
+            const personTasks = getPersonTasks(person.id);
+
+            return (
+              <Card key={person.id} data-testid={`person-${person.id}`}>
+                <CardHeader className="flex flex-row items-start justify-between space-y-0 gap-4">
+                  <div className="space-y-1.5 min-w-0">
+                    <CardTitle className="flex items-center gap-2">
+                      {person.name}
+                      <Badge variant="secondary">{personTasks.length}</Badge>
+                    </CardTitle>
+                    {person.emails.length > 0 && (
+                      <div className="flex flex-wrap gap-1">
+                        {person.emails.map((email) => (
+                          <Badge key={email} variant="outline">{email}</Badge>
+                        ))}
+                      </div>
+                    )}
+                    {person.notes && <CardDescription>{person.notes}</CardDescription>}
+                  </div>
+                  <div className="flex items-center gap-2">
+                    {people.length > 1 && (
+                      <Select
+                        value=""
+                        onValueChange={(value) => mergePerson.mutate({ id: person.id, intoId: Number(value) })}
+                      >
+                        <SelectTrigger className="w-36" data-testid={`select-merge-person-${person.id}`}>
+                          <SelectValue placeholder="Merge into..." />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {people
+                            .filter((other) => other.id !== person.id)
+                            .map((other) => (
+                              <SelectItem key={other.id} value={other.id.toString()}>
+                                {other.name}
+                              </SelectItem>
+                            ))}
+                        </SelectContent>
+                      </Select>
+                    )}
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => handleEditPerson(person)}
+                      data-testid={`button-edit-person-${person.id}`}
+                    >
+                      <Edit className="h-4 w-4" />
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => deletePerson.mutate(person.id)}
+                      data-testid={`button-delete-person-${person.id}`}
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </div>
+                </CardHeader>
+                <CardContent>
+                  {personTasks.length === 0 ? (
+                    <p className="text-sm text-muted-foreground">Nothing waiting on {person.name}</p>
+                  ) : (
+                    <TaskList
+                      tasks={personTasks}
+                      contexts={contexts}
+                      projects={projects}
+                      onMarkDone={(taskId) => markTaskDone.mutate(taskId)}
+                    />
+                  )}
+                </CardContent>
+              </Card>
+            );
+          })}
+        </div>
+      )}
+
+      <Dialog open={isDialogOpen} onOpenChange={setIsDialogOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>{editingPerson ? "Edit Person" : "Add Person"}</DialogTitle>
+          </DialogHeader>
+          <Form {...form}>
+            <form onSubmit={form.handleSubmit((data) => savePerson.mutate(data))} className="space-y-4">
+              <FormField
+                control={form.control}
+                name="name"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Name</FormLabel>
+                    <FormControl>
+                      <Input {...field} placeholder="Full name" data-testid="input-person-name" />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="emails"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Email addresses</FormLabel>
+                    <FormControl>
+                      <Input {...field} placeholder="name@example.com" data-testid="input-person-emails" />
+                    </FormControl>
+                    <FormDescription>Separate several addresses with commas</FormDescription>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="notes"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Notes</FormLabel>
+                    <FormControl>
+                      <Textarea {...field} placeholder="Role, how to reach them, topics to raise" data-testid="textarea-person-notes" />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <Button type="submit" className="w-full" disabled={savePerson.isPending}>
+                {editingPerson ? "Save" : "Add Person"}
+              </Button>
+            </form>
+          </Form>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
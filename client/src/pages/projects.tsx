@@ -1,6 +1,25 @@
-import { useState, useRef, useEffect } from "react";
+import { useState, type DragEvent } from "react";
 import { useQuery, useMutation } from "@tanstack/react-query";
-import { TaskStatus, TimeEstimate, EnergyLevel, type Project, type Task, type Context, type InsertProject } from "@shared/schema";
+import {
+  ProjectStatus,
+  TaskStatus,
+  TimeEstimate,
+  EnergyLevel,
+  type Area,
+  type CloseProject,
+  type InsertProject,
+  type Project,
+  type Task,
+  type Context,
+  recurrenceRuleSchema,
+} from "@shared/schema";
+import {
+  buildProjectTree,
+  getProjectAreaId,
+  getQueuedActionIds,
+  wouldCreateCycle,
+  type ProjectNode,
+} from "@shared/project-tree";
 import { apiRequest } from "@/lib/queryClient";
 import { queryClient } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
@@ -21,26 +40,42 @@ import {
 import {
   Form,
   FormControl,
+  FormDescription,
   FormField,
   FormItem,
   FormLabel,
   FormMessage,
 } from "@/components/ui/form";
 import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
 import { Textarea } from "@/components/ui/textarea";
-import { Checkbox } from "@/components/ui/checkbox";
+import { Badge } from "@/components/ui/badge";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
-import TaskList from "@/components/task-list";
-import { Trash2, Check, X } from "lucide-react";
+import TaskHistory from "@/components/task-history";
+import RecurrencePicker from "@/components/recurrence-picker";
+import TaskDependencies from "@/components/task-dependencies";
+import AttachmentList from "@/components/attachment-list";
+import TemplateProjectDialog from "@/components/template-project-dialog";
+import ProjectOutline, { getDraggedProjectId, isProjectDrag } from "@/components/project-outline";
+import { ClipboardList, FolderTree, Plus, RotateCcw, Trash2 } from "lucide-react";
+import { cn } from "@/lib/utils";
+import { format } from "date-fns";
 import { z } from "zod";
 
 // Form schemas
 const projectFormSchema = z.object({
   name: z.string().min(1),
   description: z.string(),
-  isActive: z.boolean(),
+  outcome: z.string(),
+  targetDate: z.date().nullable(),
+  // Closing a project goes through the completion dialog instead
+  status: z.enum([ProjectStatus.ACTIVE, ProjectStatus.ON_HOLD]),
+  sequential: z.boolean(),
+  areaId: z.number().nullable(),
+  parentId: z.number().nullable(),
 });
 
 type ProjectFormValues = z.infer<typeof projectFormSchema>;
@@ -58,24 +93,64 @@ const taskEditSchema = z.object({
   referenceCategory: z.string(),
   notes: z.string(),
   dueDate: z.date().nullable(),
+  recurrence: recurrenceRuleSchema.nullable(),
 });
 
 type TaskFormValues = z.infer<typeof taskEditSchema>;
 
+const areaFormSchema = z.object({
+  name: z.string().trim().min(1, "Please enter a name"),
+  description: z.string(),
+});
+
+type AreaFormValues = z.infer<typeof areaFormSchema>;
+
+const EMPTY_PROJECT_FORM: ProjectFormValues = {
+  name: "",
+  description: "",
+  outcome: "",
+  targetDate: null,
+  status: ProjectStatus.ACTIVE,
+  sequential: false,
+  areaId: null,
+  parentId: null,
+};
+
+const CLOSED_PROJECT_STATUSES: string[] = [ProjectStatus.COMPLETED, ProjectStatus.DROPPED];
+
+// Drop target key for the "No area" section
+const NO_AREA = "none";
+
+function toProjectPayload(data: ProjectFormValues): InsertProject {
+  return { ...data, outcome: data.outcome.trim() || null };
+}
+
+function sumNodes(nodes: ProjectNode[], count: (node: ProjectNode) => number) {
+  return nodes.reduce((sum, node) => sum + count(node), 0);
+}
+
 export default function Projects() {
   const { toast } = useToast();
   const [isProjectDialogOpen, setIsProjectDialogOpen] = useState(false);
+  const [isAreaDialogOpen, setIsAreaDialogOpen] = useState(false);
   const [selectedProject, setSelectedProject] = useState<Project | null>(null);
   const [editingTask, setEditingTask] = useState<Task | null>(null);
   const [isTaskEditDialogOpen, setIsTaskEditDialogOpen] = useState(false);
-  const [editingProjectId, setEditingProjectId] = useState<number | null>(null);
-  const [editingProjectName, setEditingProjectName] = useState("");
-  const editInputRef = useRef<HTMLInputElement>(null);
+  const [dropTargetArea, setDropTargetArea] = useState<number | typeof NO_AREA | null>(null);
+  const [closingProject, setClosingProject] = useState<Project | null>(null);
+  const [closeStatus, setCloseStatus] = useState<CloseProject["status"]>(ProjectStatus.COMPLETED);
+  const [remainingTasks, setRemainingTasks] = useState<CloseProject["remainingTasks"]>(TaskStatus.DONE);
+  const [showClosed, setShowClosed] = useState(false);
+  const [isTemplateDialogOpen, setIsTemplateDialogOpen] = useState(false);
 
   const { data: projects } = useQuery<Project[]>({
     queryKey: ["/api/projects"],
   });
 
+  const { data: areas = [] } = useQuery<Area[]>({
+    queryKey: ["/api/areas"],
+  });
+
   const { data: tasks } = useQuery<Task[]>({
     queryKey: ["/api/tasks"],
   });
@@ -86,11 +161,13 @@ export default function Projects() {
 
   const form = useForm<ProjectFormValues>({
     resolver: zodResolver(projectFormSchema),
-    defaultValues: {
-      name: "",
-      description: "",
-      isActive: true,
-    },
+    defaultValues: EMPTY_PROJECT_FORM,
+  });
+  const formParentId = form.watch("parentId");
+
+  const areaForm = useForm<AreaFormValues>({
+    resolver: zodResolver(areaFormSchema),
+    defaultValues: { name: "", description: "" },
   });
 
   const taskForm = useForm<TaskFormValues>({
@@ -108,18 +185,12 @@ export default function Projects() {
       referenceCategory: "",
       notes: "",
       dueDate: null,
+      recurrence: null,
     },
   });
 
-  useEffect(() => {
-    if (editingProjectId && editInputRef.current) {
-      editInputRef.current.focus();
-      editInputRef.current.select();
-    }
-  }, [editingProjectId]);
-
   const createProject = useMutation({
-    mutationFn: async (project: ProjectFormValues) => {
+    mutationFn: async (project: InsertProject) => {
       const res = await apiRequest("POST", "/api/projects", project);
       return res.json();
     },
@@ -135,7 +206,7 @@ export default function Projects() {
   });
 
   const updateProject = useMutation({
-    mutationFn: async ({ id, ...project }: Partial<ProjectFormValues> & { id: number }) => {
+    mutationFn: async ({ id, ...project }: Partial<InsertProject> & { id: number }) => {
       const res = await apiRequest("PATCH", `/api/projects/${id}`, project);
       return res.json();
     },
@@ -143,13 +214,67 @@ export default function Projects() {
       queryClient.invalidateQueries({ queryKey: ["/api/projects"] });
       setIsProjectDialogOpen(false);
       setSelectedProject(null);
-      setEditingProjectId(null);
       form.reset();
       toast({
         title: "Project updated",
         description: "Changes have been saved",
       });
     },
+    onError: () => {
+      toast({
+        title: "Failed to update project",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const moveProject = useMutation({
+    mutationFn: async ({ id, ...placement }: { id: number; parentId: number | null; areaId?: number | null }) => {
+      const res = await apiRequest("PATCH", `/api/projects/${id}`, placement);
+      return res.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/projects"] });
+    },
+    onError: () => {
+      toast({
+        title: "Failed to move project",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const createArea = useMutation({
+    mutationFn: async (area: AreaFormValues) => {
+      const res = await apiRequest("POST", "/api/areas", {
+        name: area.name,
+        description: area.description || null,
+      });
+      return res.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/areas"] });
+      setIsAreaDialogOpen(false);
+      areaForm.reset();
+      toast({ title: "Area added" });
+    },
+    onError: () => {
+      toast({
+        title: "Failed to add area",
+        description: "Area names must be unique",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const deleteArea = useMutation({
+    mutationFn: async (id: number) => {
+      await apiRequest("DELETE", `/api/areas/${id}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/areas"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/projects"] });
+    },
   });
 
   const deleteProject = useMutation({
@@ -204,45 +329,123 @@ export default function Projects() {
     },
   });
 
-  const markProjectDone = useMutation({
-    mutationFn: async (projectId: number) => {
-      const res = await apiRequest("PATCH", `/api/projects/${projectId}`, { isActive: false });
+  const closeProject = useMutation({
+    mutationFn: async ({ id, ...close }: CloseProject & { id: number }) => {
+      const res = await apiRequest("POST", `/api/projects/${id}/close`, close);
       return res.json();
     },
-    onSuccess: () => {
+    onSuccess: (_, { status }) => {
       queryClient.invalidateQueries({ queryKey: ["/api/projects"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/tasks"] });
+      setClosingProject(null);
+      toast({
+        title: status === ProjectStatus.COMPLETED ? "Project completed" : "Project dropped",
+        description: "Project has been closed",
+      });
+    },
+    onError: () => {
       toast({
-        title: "Project completed",
-        description: "Project has been marked as done",
+        title: "Failed to close project",
+        variant: "destructive",
       });
     },
   });
 
+  // Applied to the cached list straight away so the dragged task doesn't jump back
+  const reorderTasks = useMutation({
+    mutationFn: async ({ projectId, taskIds }: { projectId: number; taskIds: number[] }) => {
+      const res = await apiRequest("PUT", `/api/projects/${projectId}/task-order`, { taskIds });
+      return res.json();
+    },
+    onMutate: ({ taskIds }) => {
+      queryClient.setQueryData<Task[]>(["/api/tasks"], (current) =>
+        current?.map((task) => taskIds.includes(task.id) ? { ...task, sortOrder: taskIds.indexOf(task.id) } : task)
+      );
+    },
+    onSettled: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/tasks"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/tasks/status/next_action"] });
+    },
+    onError: () => {
+      toast({
+        title: "Failed to reorder actions",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const reopenProject = useMutation({
+    mutationFn: async (projectId: number) => {
+      const res = await apiRequest("PATCH", `/api/projects/${projectId}`, { status: ProjectStatus.ACTIVE });
+      return res.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/projects"] });
+      toast({ title: "Project reopened" });
+    },
+  });
+
+  const handleAddProject = (parent?: Project) => {
+    setSelectedProject(null);
+    form.reset({ ...EMPTY_PROJECT_FORM, parentId: parent?.id ?? null });
+    setIsProjectDialogOpen(true);
+  };
+
   const handleEditProject = (project: Project) => {
     setSelectedProject(project);
     form.reset({
       name: project.name,
       description: project.description || "",
-      isActive: project.isActive,
+      outcome: project.outcome || "",
+      targetDate: project.targetDate ? new Date(project.targetDate) : null,
+      status: project.status === ProjectStatus.ON_HOLD ? ProjectStatus.ON_HOLD : ProjectStatus.ACTIVE,
+      sequential: project.sequential,
+      areaId: project.areaId,
+      parentId: project.parentId,
     });
     setIsProjectDialogOpen(true);
   };
 
-  const handleInlineEditProject = (project: Project) => {
-    setEditingProjectId(project.id);
-    setEditingProjectName(project.name);
+  // Projects with open next actions ask what to do with them first
+  const handleCompleteProject = (project: Project) => {
+    if (getRemainingNextActions(project.id).length === 0) {
+      closeProject.mutate({ id: project.id, status: ProjectStatus.COMPLETED, remainingTasks: TaskStatus.DONE });
+      return;
+    }
+    setCloseStatus(ProjectStatus.COMPLETED);
+    setRemainingTasks(TaskStatus.DONE);
+    setClosingProject(project);
   };
 
-  const handleSaveInlineEdit = () => {
-    if (editingProjectId && editingProjectName.trim()) {
-      updateProject.mutate({ id: editingProjectId, name: editingProjectName.trim() });
+  // Dropping onto another project makes a sub-project; dropping onto an area
+  // section makes it a top-level project in that area
+  const handleReparent = (projectId: number, parentId: number | null, areaId?: number | null) => {
+    const project = projects?.find((p) => p.id === projectId);
+    if (!project || !projects) return;
+    if (wouldCreateCycle(projects, projectId, parentId)) {
+      toast({
+        title: "Can't move project",
+        description: "A project can't go under one of its own sub-projects",
+        variant: "destructive",
+      });
+      return;
     }
-    setEditingProjectId(null);
+    if (project.parentId === parentId && (areaId === undefined || project.areaId === areaId)) return;
+    moveProject.mutate({ id: projectId, parentId, ...(areaId !== undefined && { areaId }) });
+  };
+
+  const handleAreaDragOver = (e: DragEvent, areaKey: number | typeof NO_AREA) => {
+    if (!isProjectDrag(e)) return;
+    e.preventDefault();
+    setDropTargetArea(areaKey);
   };
 
-  const handleCancelInlineEdit = () => {
-    setEditingProjectId(null);
-    setEditingProjectName("");
+  const handleAreaDrop = (e: DragEvent, areaId: number | null) => {
+    setDropTargetArea(null);
+    const projectId = getDraggedProjectId(e);
+    if (projectId === null) return;
+    e.preventDefault();
+    handleReparent(projectId, null, areaId);
   };
 
   const handleEditTask = (task: Task) => {
@@ -260,6 +463,7 @@ export default function Projects() {
       referenceCategory: task.referenceCategory || "",
       notes: task.notes || "",
       dueDate: task.dueDate ? new Date(task.dueDate) : null,
+      recurrence: task.recurrence ?? null,
     });
     setIsTaskEditDialogOpen(true);
   };
@@ -268,9 +472,35 @@ export default function Projects() {
     updateTask.mutate(data);
   };
 
-  const getProjectTasks = (projectId: number) => {
-    return tasks?.filter((task) => task.projectId === projectId && task.status !== TaskStatus.DONE) || [];
-  };
+  const getRemainingNextActions = (projectId: number) =>
+    (tasks || []).filter((task) => task.projectId === projectId && task.status === TaskStatus.NEXT_ACTION);
+
+  const closedProjects = (projects || [])
+    .filter((p) => CLOSED_PROJECT_STATUSES.includes(p.status))
+    .sort((a, b) => new Date(b.completedAt || 0).getTime() - new Date(a.completedAt || 0).getTime());
+
+  const projectTree = buildProjectTree(projects || [], tasks || []);
+  const queuedTaskIds = getQueuedActionIds(projects || [], tasks || []);
+  const areaIds = new Set(areas.map((area) => area.id));
+  const getAreaNodes = (areaId: number | null) => projectTree.filter((node) => {
+    const nodeAreaId = node.project.areaId !== null && areaIds.has(node.project.areaId) ? node.project.areaId : null;
+    return nodeAreaId === areaId;
+  });
+  const sections = [
+    ...areas.map((area) => ({ area, nodes: getAreaNodes(area.id) })),
+    { area: null, nodes: getAreaNodes(null) },
+  ];
+
+  // A project can't become its own ancestor
+  const parentOptions = (projects || []).filter((p) =>
+    p.isActive && (!selectedProject || !wouldCreateCycle(projects || [], selectedProject.id, p.id))
+  );
+  const inheritedAreaId = formParentId !== null
+    ? (() => {
+        const parent = projects?.find((p) => p.id === formParentId);
+        return parent ? getProjectAreaId(projects || [], parent) : null;
+      })()
+    : null;
 
   return (
     <div className="space-y-8">
@@ -278,85 +508,193 @@ export default function Projects() {
         <div>
           <h2 className="text-3xl font-bold tracking-tight">Projects</h2>
           <p className="text-muted-foreground">
-            Manage and organize your projects
+            Outline your projects by area of focus. Drag a project onto another to nest it.
           </p>
         </div>
-        <Button onClick={() => setIsProjectDialogOpen(true)}>
-          Add Project
-        </Button>
+        <div className="flex gap-2">
+          <Button variant="outline" onClick={() => setIsAreaDialogOpen(true)} data-testid="button-add-area">
+            <Plus className="h-4 w-4 mr-2" />
+            Add Area
+          </Button>
+          <Button variant="outline" onClick={() => setIsTemplateDialogOpen(true)} data-testid="button-project-from-template">
+            <ClipboardList className="h-4 w-4 mr-2" />
+            From Template
+          </Button>
+          <Button onClick={() => handleAddProject()}>
+            Add Project
+          </Button>
+        </div>
       </div>
 
       <div className="grid gap-6">
-        {projects?.filter(p => p.isActive).map((project) => (
-          <Card key={project.id}>
-            <CardHeader className="flex flex-row items-start justify-between space-y-0">
-              <div className="flex items-start gap-3 flex-1">
-                <Checkbox
-                  className="mt-1"
-                  onCheckedChange={(checked) => {
-                    if (checked) {
-                      markProjectDone.mutate(project.id);
-                    }
-                  }}
-                  data-testid="checkbox-project-done"
-                />
-                <div className="flex-1">
-                  {editingProjectId === project.id ? (
-                    <div className="flex items-center gap-2">
-                      <Input
-                        ref={editInputRef}
-                        value={editingProjectName}
-                        onChange={(e) => setEditingProjectName(e.target.value)}
-                        onKeyDown={(e) => {
-                          if (e.key === "Enter") handleSaveInlineEdit();
-                          if (e.key === "Escape") handleCancelInlineEdit();
-                        }}
-                        className="text-lg font-semibold"
-                        data-testid="input-project-name-inline"
-                      />
-                      <Button size="sm" variant="ghost" onClick={handleSaveInlineEdit}>
-                        <Check className="h-4 w-4" />
-                      </Button>
-                      <Button size="sm" variant="ghost" onClick={handleCancelInlineEdit}>
-                        <X className="h-4 w-4" />
-                      </Button>
+        {sections.map(({ area, nodes }) => {
+          const areaKey = area ? area.id : NO_AREA;
+          // Areas stay visible while empty so projects can be dropped into them
+          if (!area && nodes.length === 0 && areas.length > 0) return null;
+          const stalledCount = sumNodes(nodes, (node) => node.stalledCount);
+
+          return (
+            <Card
+              key={areaKey}
+              onDragOver={(e) => handleAreaDragOver(e, areaKey)}
+              onDragLeave={() => setDropTargetArea(null)}
+              onDrop={(e) => handleAreaDrop(e, area ? area.id : null)}
+              className={cn(dropTargetArea === areaKey && "ring-2 ring-primary")}
+              data-testid={`area-${areaKey}`}
+            >
+              <CardHeader className="flex flex-row items-start justify-between space-y-0">
+                <div className="space-y-1.5">
+                  <CardTitle className="flex items-center gap-2">
+                    <FolderTree className="h-4 w-4 text-muted-foreground" />
+                    {area ? area.name : areas.length > 0 ? "No area" : "All projects"}
+                    <Badge variant="secondary">
+                      {sumNodes(nodes, (node) => node.totalNextActions)} next
+                    </Badge>
+                    {stalledCount > 0 && (
+                      <Badge variant="destructive">{stalledCount} stalled</Badge>
+                    )}
+                  </CardTitle>
+                  {area?.description && <CardDescription>{area.description}</CardDescription>}
+                </div>
+                {area && (
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => deleteArea.mutate(area.id)}
+                    data-testid={`button-delete-area-${area.id}`}
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                )}
+              </CardHeader>
+              <CardContent>
+                {nodes.length === 0 ? (
+                  <p className="text-sm text-muted-foreground">
+                    {area ? "Drag projects here to file them under this area" : "No active projects"}
+                  </p>
+                ) : (
+                  <ProjectOutline
+                    nodes={nodes}
+                    tasks={tasks || []}
+                    contexts={contexts}
+                    projects={projects}
+                    onCompleteProject={handleCompleteProject}
+                    onRenameProject={(id, name) => updateProject.mutate({ id, name })}
+                    onEditProject={handleEditProject}
+                    onDeleteProject={(projectId) => deleteProject.mutate(projectId)}
+                    onAddSubProject={handleAddProject}
+                    onReparent={(projectId, parentId) => handleReparent(projectId, parentId)}
+                    onEditTask={handleEditTask}
+                    onMarkTaskDone={(taskId) => markTaskDone.mutate(taskId)}
+                    onReorderTasks={(projectId, taskIds) => reorderTasks.mutate({ projectId, taskIds })}
+                    queuedTaskIds={queuedTaskIds}
+                  />
+                )}
+              </CardContent>
+            </Card>
+          );
+        })}
+      </div>
+
+      {closedProjects.length > 0 && (
+        <div className="space-y-2">
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={() => setShowClosed(!showClosed)}
+            data-testid="button-toggle-closed-projects"
+          >
+            {showClosed ? "Hide" : "Show"} completed and dropped projects ({closedProjects.length})
+          </Button>
+          {showClosed && (
+            <Card>
+              <CardContent className="divide-y p-0">
+                {closedProjects.map((project) => (
+                  <div
+                    key={project.id}
+                    className="flex items-center justify-between gap-2 px-4 py-3"
+                    data-testid={`closed-project-${project.id}`}
+                  >
+                    <div className="min-w-0">
+                      <p className="font-medium truncate">{project.name}</p>
+                      {project.outcome && (
+                        <p className="text-sm text-muted-foreground truncate">{project.outcome}</p>
+                      )}
                     </div>
-                  ) : (
-                    <>
-                      <CardTitle 
-                        className="cursor-pointer hover:opacity-70 transition-opacity"
-                        onClick={() => handleInlineEditProject(project)}
-                        data-testid="project-title-editable"
+                    <div className="flex items-center gap-2 shrink-0">
+                      <Badge variant={project.status === ProjectStatus.COMPLETED ? "secondary" : "outline"}>
+                        {project.status === ProjectStatus.COMPLETED
+                          ? `Completed${project.completedAt ? ` ${format(new Date(project.completedAt), "MMM d, yyyy")}` : ""}`
+                          : "Dropped"}
+                      </Badge>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => reopenProject.mutate(project.id)}
+                        title="Reopen"
+                        data-testid={`button-reopen-project-${project.id}`}
                       >
-                        {project.name}
-                      </CardTitle>
-                      <CardDescription>{project.description}</CardDescription>
-                    </>
-                  )}
-                </div>
+                        <RotateCcw className="h-4 w-4" />
+                      </Button>
+                    </div>
+                  </div>
+                ))}
+              </CardContent>
+            </Card>
+          )}
+        </div>
+      )}
+
+      <TemplateProjectDialog open={isTemplateDialogOpen} onOpenChange={setIsTemplateDialogOpen} />
+
+      <Dialog open={closingProject !== null} onOpenChange={(open) => !open && setClosingProject(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Close "{closingProject?.name}"</DialogTitle>
+          </DialogHeader>
+          {closingProject && (
+            <div className="space-y-4">
+              <p className="text-sm text-muted-foreground">
+                This project still has {getRemainingNextActions(closingProject.id).length} open next
+                {getRemainingNextActions(closingProject.id).length === 1 ? " action" : " actions"}.
+              </p>
+              <div className="space-y-2">
+                <Label>The project was</Label>
+                <Select value={closeStatus} onValueChange={(val) => setCloseStatus(val as CloseProject["status"])}>
+                  <SelectTrigger data-testid="select-close-status">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={ProjectStatus.COMPLETED}>Completed</SelectItem>
+                    <SelectItem value={ProjectStatus.DROPPED}>Dropped</SelectItem>
+                  </SelectContent>
+                </Select>
               </div>
-              <div className="flex gap-2">
-                <Button
-                  variant="ghost"
-                  size="sm"
-                  onClick={() => deleteProject.mutate(project.id)}
-                >
-                  <Trash2 className="h-4 w-4" />
-                </Button>
+              <div className="space-y-2">
+                <Label>Remaining next actions</Label>
+                <Select value={remainingTasks} onValueChange={(val) => setRemainingTasks(val as CloseProject["remainingTasks"])}>
+                  <SelectTrigger data-testid="select-remaining-tasks">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={TaskStatus.DONE}>Mark them done</SelectItem>
+                    <SelectItem value={TaskStatus.SOMEDAY}>Move them to Someday/Maybe</SelectItem>
+                    <SelectItem value={TaskStatus.TRASH}>Move them to trash</SelectItem>
+                  </SelectContent>
+                </Select>
               </div>
-            </CardHeader>
-            <CardContent>
-              <TaskList 
-                tasks={getProjectTasks(project.id)} 
-                contexts={contexts} 
-                projects={projects} 
-                onEdit={handleEditTask}
-                onMarkDone={(taskId) => markTaskDone.mutate(taskId)}
-              />
-            </CardContent>
-          </Card>
-        ))}
-      </div>
+              <Button
+                className="w-full"
+                onClick={() => closeProject.mutate({ id: closingProject.id, status: closeStatus, remainingTasks })}
+                disabled={closeProject.isPending}
+                data-testid="button-confirm-close-project"
+              >
+                {closeStatus === ProjectStatus.COMPLETED ? "Complete Project" : "Drop Project"}
+              </Button>
+            </div>
+          )}
+        </DialogContent>
+      </Dialog>
 
       <Dialog open={isProjectDialogOpen} onOpenChange={setIsProjectDialogOpen}>
         <DialogContent>
@@ -369,9 +707,9 @@ export default function Projects() {
             <form
               onSubmit={form.handleSubmit((data) => {
                 if (selectedProject) {
-                  updateProject.mutate({ ...data, id: selectedProject.id });
+                  updateProject.mutate({ ...toProjectPayload(data), id: selectedProject.id });
                 } else {
-                  createProject.mutate(data);
+                  createProject.mutate(toProjectPayload(data));
                 }
               })}
               className="space-y-4"
@@ -390,6 +728,20 @@ export default function Projects() {
                 )}
               />
 
+              <FormField
+                control={form.control}
+                name="outcome"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Desired outcome</FormLabel>
+                    <FormControl>
+                      <Input {...field} placeholder="What does done look like?" data-testid="input-project-outcome" />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
               <FormField
                 control={form.control}
                 name="description"
@@ -404,6 +756,132 @@ export default function Projects() {
                 )}
               />
 
+              <div className="grid grid-cols-2 gap-4">
+                <FormField
+                  control={form.control}
+                  name="targetDate"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Target date</FormLabel>
+                      <FormControl>
+                        <Input
+                          type="date"
+                          value={field.value instanceof Date ? format(field.value, "yyyy-MM-dd") : ""}
+                          onChange={(e) => field.onChange(e.target.value ? new Date(`${e.target.value}T00:00:00`) : null)}
+                          data-testid="input-project-target-date"
+                        />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+
+                <FormField
+                  control={form.control}
+                  name="status"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Status</FormLabel>
+                      <Select value={field.value} onValueChange={field.onChange}>
+                        <FormControl>
+                          <SelectTrigger data-testid="select-project-status">
+                            <SelectValue />
+                          </SelectTrigger>
+                        </FormControl>
+                        <SelectContent>
+                          <SelectItem value={ProjectStatus.ACTIVE}>Active</SelectItem>
+                          <SelectItem value={ProjectStatus.ON_HOLD}>On hold</SelectItem>
+                        </SelectContent>
+                      </Select>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              </div>
+
+              <FormField
+                control={form.control}
+                name="sequential"
+                render={({ field }) => (
+                  <FormItem className="flex items-center justify-between rounded-lg border p-3">
+                    <div className="space-y-0.5">
+                      <FormLabel>Sequential</FormLabel>
+                      <FormDescription>
+                        Only the first remaining action shows on Next Actions; the next one follows when it's done
+                      </FormDescription>
+                    </div>
+                    <FormControl>
+                      <Switch checked={field.value} onCheckedChange={field.onChange} data-testid="switch-project-sequential" />
+                    </FormControl>
+                  </FormItem>
+                )}
+              />
+
+              <FormField
+                control={form.control}
+                name="parentId"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Parent project</FormLabel>
+                    <Select
+                      value={field.value !== null ? field.value.toString() : "none"}
+                      onValueChange={(val) => field.onChange(val === "none" ? null : Number(val))}
+                    >
+                      <FormControl>
+                        <SelectTrigger data-testid="select-project-parent">
+                          <SelectValue />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        <SelectItem value="none">None (top-level project)</SelectItem>
+                        {parentOptions.map((proj) => (
+                          <SelectItem key={proj.id} value={proj.id.toString()}>
+                            {proj.name}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              {formParentId === null ? (
+                <FormField
+                  control={form.control}
+                  name="areaId"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Area of focus</FormLabel>
+                      <Select
+                        value={field.value !== null ? field.value.toString() : "none"}
+                        onValueChange={(val) => field.onChange(val === "none" ? null : Number(val))}
+                      >
+                        <FormControl>
+                          <SelectTrigger data-testid="select-project-area">
+                            <SelectValue />
+                          </SelectTrigger>
+                        </FormControl>
+                        <SelectContent>
+                          <SelectItem value="none">No area</SelectItem>
+                          {areas.map((area) => (
+                            <SelectItem key={area.id} value={area.id.toString()}>
+                              {area.name}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              ) : (
+                <p className="text-sm text-muted-foreground">
+                  Sub-projects share their top-level project's area
+                  {inheritedAreaId !== null && ` (${areas.find((area) => area.id === inheritedAreaId)?.name})`}
+                </p>
+              )}
+
               <Button type="submit">
                 {selectedProject ? "Update Project" : "Create Project"}
               </Button>
@@ -412,6 +890,47 @@ export default function Projects() {
         </DialogContent>
       </Dialog>
 
+      <Dialog open={isAreaDialogOpen} onOpenChange={setIsAreaDialogOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Add Area of Focus</DialogTitle>
+          </DialogHeader>
+          <Form {...areaForm}>
+            <form onSubmit={areaForm.handleSubmit((data) => createArea.mutate(data))} className="space-y-4">
+              <FormField
+                control={areaForm.control}
+                name="name"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Name</FormLabel>
+                    <FormControl>
+                      <Input {...field} placeholder="e.g., Health, Career, Family" data-testid="input-area-name" />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={areaForm.control}
+                name="description"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Description</FormLabel>
+                    <FormControl>
+                      <Textarea {...field} placeholder="Standards you want to maintain here" data-testid="textarea-area-description" />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <Button type="submit" className="w-full" disabled={createArea.isPending}>
+                Add Area
+              </Button>
+            </form>
+          </Form>
+        </DialogContent>
+      </Dialog>
+
       <Dialog open={isTaskEditDialogOpen} onOpenChange={setIsTaskEditDialogOpen}>
         <DialogContent className="max-h-[90vh] overflow-y-auto">
           <DialogHeader>
@@ -595,6 +1114,20 @@ export default function Projects() {
                 )}
               />
 
+              <FormField
+                control={taskForm.control}
+                name="recurrence"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Repeat</FormLabel>
+                    <FormControl>
+                      <RecurrencePicker value={field.value} onChange={field.onChange} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
               {taskForm.watch("status") === TaskStatus.WAITING && (
                 <>
                   <FormField
@@ -669,6 +1202,17 @@ export default function Projects() {
               </Button>
             </form>
           </Form>
+          {editingTask && (
+            <AttachmentList
+              attachments={editingTask.attachments}
+              baseUrl={`/api/tasks/${editingTask.id}/attachments`}
+              className="border-t pt-4"
+            />
+          )}
+          {editingTask && <TaskDependencies task={editingTask} />}
+          {editingTask && (
+            <TaskHistory task={editingTask} contexts={contexts} projects={projects} />
+          )}
         </DialogContent>
       </Dialog>
     </div>
@@ -13,17 +13,23 @@ import {
   ExternalLink,
   Loader2,
   Zap,
-  Plus
+  Plus,
+  KeyRound
 } from "lucide-react";
 import { SiGoogle } from "react-icons/si";
 import { BsMicrosoft } from "react-icons/bs";
 import { apiRequest } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
+import { formatDistanceToNow } from "date-fns";
+import { type EmailSyncStatus } from "@shared/schema";
+import EmailAccountSettings from "@/components/email-account-settings";
+import ApiTokenSettings from "@/components/api-token-settings";
 
 interface IntegrationStatus {
   email: {
     configured: boolean;
     address: string | null;
+    accountCount: number;
   };
   calendar: {
     connected: boolean;
@@ -42,8 +48,6 @@ interface CalendarTestResponse {
 
 // External URLs for integrations
 const EXTERNAL_LINKS = {
-  gmail: "https://accounts.google.com/ServiceLogin?service=mail",
-  outlook: "https://outlook.live.com/",
   outlookCalendar: "https://outlook.live.com/calendar",
   googleCalendar: "https://calendar.google.com",
   replitSecrets: "https://replit.com",
@@ -78,6 +82,11 @@ export default function Settings() {
     queryKey: ["/api/integrations/status"],
   });
 
+  const { data: syncStatus } = useQuery<EmailSyncStatus>({
+    queryKey: ["/api/emails/sync-status"],
+    enabled: !!status?.email.configured,
+  });
+
   const testEmailMutation = useMutation<EmailTestResponse, Error>({
     mutationFn: async () => {
       const res = await apiRequest("POST", "/api/integrations/email/test");
@@ -160,7 +169,9 @@ export default function Settings() {
             <>
               <div className="flex items-center justify-between p-3 bg-muted rounded-lg">
                 <div>
-                  <p className="text-sm font-medium">Connected Account</p>
+                  <p className="text-sm font-medium">
+                    {status.email.accountCount > 1 ? `${status.email.accountCount} Connected Accounts` : "Connected Account"}
+                  </p>
                   <p className="text-sm text-muted-foreground">{status.email.address}</p>
                 </div>
                 <Button
@@ -181,35 +192,25 @@ export default function Settings() {
               </div>
               <p className="text-xs text-muted-foreground">
                 Emails are automatically fetched and added to your inbox for processing.
+                {syncStatus?.lastRunAt && ` Last synced ${formatDistanceToNow(new Date(syncStatus.lastRunAt), { addSuffix: true })}.`}
               </p>
+              {syncStatus?.lastError && (
+                <p className="text-xs text-destructive" data-testid="text-email-sync-error">
+                  {syncStatus.lastError}
+                </p>
+              )}
               <Separator className="my-3" />
               <div>
-                <p className="text-sm font-medium mb-2">Add another email account</p>
-                <div className="flex gap-2">
-                  <Button variant="outline" size="sm" className="flex-1" asChild>
-                    <a href={EXTERNAL_LINKS.gmail} target="_blank" rel="noopener noreferrer">
-                      <SiGoogle className="h-4 w-4 mr-2" />
-                      Gmail
-                    </a>
-                  </Button>
-                  <Button variant="outline" size="sm" className="flex-1" asChild>
-                    <a href={EXTERNAL_LINKS.outlook} target="_blank" rel="noopener noreferrer">
-                      <BsMicrosoft className="h-4 w-4 mr-2" />
-                      Outlook
-                    </a>
-                  </Button>
-                  <Button variant="outline" size="icon" className="h-9 w-9" asChild>
-                    <a href={EXTERNAL_LINKS.replitSecrets} target="_blank" rel="noopener noreferrer">
-                      <Plus className="h-4 w-4" />
-                    </a>
-                  </Button>
-                </div>
+                <p className="text-sm font-medium mb-2">Email accounts</p>
+                <EmailAccountSettings />
               </div>
             </>
           ) : (
             <div className="space-y-3">
+              <EmailAccountSettings />
+              <Separator className="my-3" />
               <p className="text-sm text-muted-foreground">
-                Email integration requires IMAP/SMTP credentials. Configure the following secrets in your environment:
+                Alternatively, configure a single account through the following secrets in your environment:
               </p>
               <div className="grid grid-cols-2 gap-2 text-xs">
                 <code className="p-2 bg-muted rounded">EMAIL_ADDRESS</code>
@@ -312,6 +313,23 @@ export default function Settings() {
         </CardContent>
       </Card>
 
+      <Card>
+        <CardHeader>
+          <div className="flex items-center gap-3">
+            <div className="p-2 bg-amber-100 dark:bg-amber-900 rounded-lg">
+              <KeyRound className="h-5 w-5 text-amber-600 dark:text-amber-400" />
+            </div>
+            <div>
+              <CardTitle>API Tokens</CardTitle>
+              <CardDescription>Let scripts and automations capture and read without your password</CardDescription>
+            </div>
+          </div>
+        </CardHeader>
+        <CardContent>
+          <ApiTokenSettings />
+        </CardContent>
+      </Card>
+
       <Separator />
 
       <Card>
@@ -0,0 +1,493 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import {
+  EnergyLevel,
+  TimeEstimate,
+  type Context,
+  type Template,
+  type TemplateItem,
+} from "@shared/schema";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Form,
+  FormControl,
+  FormDescription,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { Switch } from "@/components/ui/switch";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useFieldArray, useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import TemplateProjectDialog from "@/components/template-project-dialog";
+import { ArrowDown, ArrowUp, ClipboardList, Edit, FolderPlus, ListOrdered, Plus, Trash2, X } from "lucide-react";
+import { z } from "zod";
+
+const templateFormSchema = z.object({
+  name: z.string().trim().min(1, "Please enter a name"),
+  description: z.string(),
+  sequential: z.boolean(),
+  items: z.array(z.object({
+    title: z.string().trim().min(1, "Please enter a title"),
+    contextId: z.number().nullable(),
+    timeEstimate: z.string().nullable(),
+    energyLevel: z.string().nullable(),
+    // Days after the project starts; blank for no due date
+    dueOffsetDays: z.string().regex(/^\d*$/, "Whole days only"),
+  })),
+});
+
+type TemplateFormValues = z.infer<typeof templateFormSchema>;
+
+const EMPTY_ITEM: TemplateFormValues["items"][number] = {
+  title: "",
+  contextId: null,
+  timeEstimate: null,
+  energyLevel: null,
+  dueOffsetDays: "",
+};
+
+const TIME_LABELS: Record<string, string> = {
+  [TimeEstimate.MINUTES_15]: "15 min",
+  [TimeEstimate.MINUTES_30]: "30 min",
+  [TimeEstimate.HOUR_1]: "1 hour",
+  [TimeEstimate.HOURS_2_PLUS]: "2+ hours",
+};
+
+const ENERGY_LABELS: Record<string, string> = {
+  [EnergyLevel.HIGH]: "High energy",
+  [EnergyLevel.MEDIUM]: "Medium energy",
+  [EnergyLevel.LOW]: "Low energy",
+};
+
+function toTemplateItems(items: TemplateFormValues["items"]): TemplateItem[] {
+  return items.map((item) => ({
+    title: item.title.trim(),
+    contextId: item.contextId,
+    timeEstimate: item.timeEstimate,
+    energyLevel: item.energyLevel,
+    dueOffsetDays: item.dueOffsetDays ? Number(item.dueOffsetDays) : null,
+  }));
+}
+
+function describeOffset(days: number) {
+  if (days === 0) return "Due on start";
+  return `Due +${days} ${days === 1 ? "day" : "days"}`;
+}
+
+export default function Templates() {
+  const { toast } = useToast();
+  const [editingTemplate, setEditingTemplate] = useState<Template | null>(null);
+  const [isDialogOpen, setIsDialogOpen] = useState(false);
+  const [instantiatingId, setInstantiatingId] = useState<number | null>(null);
+
+  const { data: templates = [] } = useQuery<Template[]>({
+    queryKey: ["/api/templates"],
+  });
+
+  const { data: contexts = [] } = useQuery<Context[]>({
+    queryKey: ["/api/contexts"],
+  });
+
+  const form = useForm<TemplateFormValues>({
+    resolver: zodResolver(templateFormSchema),
+    defaultValues: { name: "", description: "", sequential: false, items: [] },
+  });
+  const items = useFieldArray({ control: form.control, name: "items" });
+
+  const saveTemplate = useMutation({
+    mutationFn: async (data: TemplateFormValues) => {
+      const body = {
+        name: data.name,
+        description: data.description.trim() || null,
+        sequential: data.sequential,
+        items: toTemplateItems(data.items),
+      };
+      const res = editingTemplate
+        ? await apiRequest("PATCH", `/api/templates/${editingTemplate.id}`, body)
+        : await apiRequest("POST", "/api/templates", body);
+      return res.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/templates"] });
+      setIsDialogOpen(false);
+      setEditingTemplate(null);
+      form.reset();
+      toast({ title: editingTemplate ? "Template updated" : "Template created" });
+    },
+    onError: () => {
+      toast({
+        title: "Failed to save template",
+        description: "Template names must be unique",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const deleteTemplate = useMutation({
+    mutationFn: async (id: number) => {
+      await apiRequest("DELETE", `/api/templates/${id}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/templates"] });
+      toast({ title: "Template deleted" });
+    },
+  });
+
+  const handleAddTemplate = () => {
+    setEditingTemplate(null);
+    form.reset({ name: "", description: "", sequential: false, items: [EMPTY_ITEM] });
+    setIsDialogOpen(true);
+  };
+
+  const handleEditTemplate = (template: Template) => {
+    setEditingTemplate(template);
+    form.reset({
+      name: template.name,
+      description: template.description || "",
+      sequential: template.sequential,
+      items: template.items.map((item) => ({
+        title: item.title,
+        contextId: item.contextId ?? null,
+        timeEstimate: item.timeEstimate ?? null,
+        energyLevel: item.energyLevel ?? null,
+        dueOffsetDays: typeof item.dueOffsetDays === "number" ? String(item.dueOffsetDays) : "",
+      })),
+    });
+    setIsDialogOpen(true);
+  };
+
+  const getContextName = (contextId: number | null | undefined) =>
+    contexts.find((context) => context.id === contextId)?.name;
+
+  return (
+    <div className="space-y-8">
+      <div className="flex items-center justify-between">
+        <div>
+          <h2 className="text-3xl font-bold tracking-tight">Templates</h2>
+          <p className="text-muted-foreground">
+            Reusable checklists that start a project with its actions already in place
+          </p>
+        </div>
+        <Button onClick={handleAddTemplate} data-testid="button-add-template">
+          <Plus className="h-4 w-4 mr-2" />
+          Add Template
+        </Button>
+      </div>
+
+      {templates.length === 0 ? (
+        <Card>
+          <CardContent className="flex flex-col items-center justify-center py-12">
+            <ClipboardList className="h-12 w-12 text-muted-foreground mb-4" />
+            <p className="text-lg font-medium">No templates yet</p>
+            <p className="text-sm text-muted-foreground">
+              Save checklists like travel prep or new hire onboarding
+            </p>
+          </CardContent>
+        </Card>
+      ) : (
+        <div className="grid gap-6">
+          {templates.map((template) => (
+            <Card key={template.id} data-testid={`template-${template.id}`}>
+              <CardHeader className="flex flex-row items-start justify-between space-y-0 gap-4">
+                <div className="space-y-1.5 min-w-0">
+                  <CardTitle className="flex items-center gap-2">
+                    {template.name}
+                    <Badge variant="secondary">{template.items.length}</Badge>
+                    {template.sequential && (
+                      <Badge variant="outline" className="gap-1">
+                        <ListOrdered className="h-3 w-3" />
+                        Sequential
+                      </Badge>
+                    )}
+                  </CardTitle>
+                  {template.description && <CardDescription>{template.description}</CardDescription>}
+                </div>
+                <div className="flex items-center gap-2">
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => setInstantiatingId(template.id)}
+                    data-testid={`button-instantiate-template-${template.id}`}
+                  >
+                    <FolderPlus className="h-4 w-4 mr-2" />
+                    Create Project
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => handleEditTemplate(template)}
+                    data-testid={`button-edit-template-${template.id}`}
+                  >
+                    <Edit className="h-4 w-4" />
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => deleteTemplate.mutate(template.id)}
+                    data-testid={`button-delete-template-${template.id}`}
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              </CardHeader>
+              <CardContent>
+                {template.items.length === 0 ? (
+                  <p className="text-sm text-muted-foreground">No items yet</p>
+                ) : (
+                  <ol className="space-y-2 list-decimal list-inside">
+                    {template.items.map((item, index) => (
+                      <li key={index} className="text-sm">
+                        {item.title}
+                        <span className="inline-flex flex-wrap gap-1 ml-2 align-middle">
+                          {getContextName(item.contextId) && (
+                            <Badge variant="outline">{getContextName(item.contextId)}</Badge>
+                          )}
+                          {item.timeEstimate && <Badge variant="outline">{TIME_LABELS[item.timeEstimate]}</Badge>}
+                          {item.energyLevel && <Badge variant="outline">{ENERGY_LABELS[item.energyLevel]}</Badge>}
+                          {typeof item.dueOffsetDays === "number" && (
+                            <Badge variant="outline">{describeOffset(item.dueOffsetDays)}</Badge>
+                          )}
+                        </span>
+                      </li>
+                    ))}
+                  </ol>
+                )}
+              </CardContent>
+            </Card>
+          ))}
+        </div>
+      )}
+
+      <TemplateProjectDialog
+        open={instantiatingId !== null}
+        onOpenChange={(open) => !open && setInstantiatingId(null)}
+        templateId={instantiatingId}
+      />
+
+      <Dialog open={isDialogOpen} onOpenChange={setIsDialogOpen}>
+        <DialogContent className="max-w-3xl max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>{editingTemplate ? "Edit Template" : "Add Template"}</DialogTitle>
+          </DialogHeader>
+          <Form {...form}>
+            <form onSubmit={form.handleSubmit((data) => saveTemplate.mutate(data))} className="space-y-4">
+              <FormField
+                control={form.control}
+                name="name"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Name</FormLabel>
+                    <FormControl>
+                      <Input {...field} placeholder="e.g., Travel prep" data-testid="input-template-name" />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="description"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Description</FormLabel>
+                    <FormControl>
+                      <Textarea {...field} placeholder="When to use this checklist" data-testid="textarea-template-description" />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="sequential"
+                render={({ field }) => (
+                  <FormItem className="flex items-center justify-between rounded-lg border p-3">
+                    <div className="space-y-0.5">
+                      <FormLabel>Sequential</FormLabel>
+                      <FormDescription>Projects from this template do their actions in order</FormDescription>
+                    </div>
+                    <FormControl>
+                      <Switch checked={field.value} onCheckedChange={field.onChange} data-testid="switch-template-sequential" />
+                    </FormControl>
+                  </FormItem>
+                )}
+              />
+
+              <div className="space-y-3">
+                <FormLabel>Items</FormLabel>
+                {items.fields.map((item, index) => (
+                  <div key={item.id} className="rounded-lg border p-3 space-y-2" data-testid={`template-item-${index}`}>
+                    <div className="flex items-start gap-2">
+                      <span className="text-sm text-muted-foreground mt-2 w-5">{index + 1}.</span>
+                      <FormField
+                        control={form.control}
+                        name={`items.${index}.title`}
+                        render={({ field }) => (
+                          <FormItem className="flex-1">
+                            <FormControl>
+                              <Input {...field} placeholder="Action" data-testid={`input-template-item-title-${index}`} />
+                            </FormControl>
+                            <FormMessage />
+                          </FormItem>
+                        )}
+                      />
+                      <Button
+                        type="button"
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => items.move(index, index - 1)}
+                        disabled={index === 0}
+                      >
+                        <ArrowUp className="h-4 w-4" />
+                      </Button>
+                      <Button
+                        type="button"
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => items.move(index, index + 1)}
+                        disabled={index === items.fields.length - 1}
+                      >
+                        <ArrowDown className="h-4 w-4" />
+                      </Button>
+                      <Button type="button" variant="ghost" size="sm" onClick={() => items.remove(index)}>
+                        <X className="h-4 w-4" />
+                      </Button>
+                    </div>
+                    <div className="grid grid-cols-2 md:grid-cols-4 gap-2 pl-7">
+                      <FormField
+                        control={form.control}
+                        name={`items.${index}.contextId`}
+                        render={({ field }) => (
+                          <FormItem>
+                            <Select
+                              value={field.value !== null ? field.value.toString() : "none"}
+                              onValueChange={(val) => field.onChange(val === "none" ? null : Number(val))}
+                            >
+                              <FormControl>
+                                <SelectTrigger>
+                                  <SelectValue />
+                                </SelectTrigger>
+                              </FormControl>
+                              <SelectContent>
+                                <SelectItem value="none">No context</SelectItem>
+                                {contexts.map((context) => (
+                                  <SelectItem key={context.id} value={context.id.toString()}>
+                                    {context.name}
+                                  </SelectItem>
+                                ))}
+                              </SelectContent>
+                            </Select>
+                          </FormItem>
+                        )}
+                      />
+                      <FormField
+                        control={form.control}
+                        name={`items.${index}.timeEstimate`}
+                        render={({ field }) => (
+                          <FormItem>
+                            <Select
+                              value={field.value ?? "none"}
+                              onValueChange={(val) => field.onChange(val === "none" ? null : val)}
+                            >
+                              <FormControl>
+                                <SelectTrigger>
+                                  <SelectValue />
+                                </SelectTrigger>
+                              </FormControl>
+                              <SelectContent>
+                                <SelectItem value="none">No estimate</SelectItem>
+                                {Object.entries(TIME_LABELS).map(([value, label]) => (
+                                  <SelectItem key={value} value={value}>{label}</SelectItem>
+                                ))}
+                              </SelectContent>
+                            </Select>
+                          </FormItem>
+                        )}
+                      />
+                      <FormField
+                        control={form.control}
+                        name={`items.${index}.energyLevel`}
+                        render={({ field }) => (
+                          <FormItem>
+                            <Select
+                              value={field.value ?? "none"}
+                              onValueChange={(val) => field.onChange(val === "none" ? null : val)}
+                            >
+                              <FormControl>
+                                <SelectTrigger>
+                                  <SelectValue />
+                                </SelectTrigger>
+                              </FormControl>
+                              <SelectContent>
+                                <SelectItem value="none">Any energy</SelectItem>
+                                {Object.entries(ENERGY_LABELS).map(([value, label]) => (
+                                  <SelectItem key={value} value={value}>{label}</SelectItem>
+                                ))}
+                              </SelectContent>
+                            </Select>
+                          </FormItem>
+                        )}
+                      />
+                      <FormField
+                        control={form.control}
+                        name={`items.${index}.dueOffsetDays`}
+                        render={({ field }) => (
+                          <FormItem>
+                            <FormControl>
+                              <Input
+                                {...field}
+                                inputMode="numeric"
+                                placeholder="Due after (days)"
+                                data-testid={`input-template-item-offset-${index}`}
+                              />
+                            </FormControl>
+                            <FormMessage />
+                          </FormItem>
+                        )}
+                      />
+                    </div>
+                  </div>
+                ))}
+                <Button
+                  type="button"
+                  variant="outline"
+                  size="sm"
+                  onClick={() => items.append(EMPTY_ITEM)}
+                  data-testid="button-add-template-item"
+                >
+                  <Plus className="h-4 w-4 mr-2" />
+                  Add Item
+                </Button>
+              </div>
+
+              <Button type="submit" className="w-full" disabled={saveTemplate.isPending}>
+                {editingTemplate ? "Save" : "Create Template"}
+              </Button>
+            </form>
+          </Form>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
@@ -2,6 +2,8 @@ import { useState } from "react";
 import { useQuery, useMutation } from "@tanstack/react-query";
 import { TaskStatus, TimeEstimate, EnergyLevel, type Task, type Context, type Project } from "@shared/schema";
 import TaskList from "@/components/task-list";
+import TaskHistory from "@/components/task-history";
+import AttachmentList from "@/components/attachment-list";
 import { apiRequest, queryClient } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
 import {
@@ -391,6 +393,16 @@ export default function Trash() {
               </Button>
             </form>
           </Form>
+          {editingTask && (
+            <AttachmentList
+              attachments={editingTask.attachments}
+              baseUrl={`/api/tasks/${editingTask.id}/attachments`}
+              className="border-t pt-4"
+            />
+          )}
+          {editingTask && (
+            <TaskHistory task={editingTask} contexts={contexts} projects={projects} />
+          )}
         </DialogContent>
       </Dialog>
     </div>
@@ -1,7 +1,12 @@
 import { useState } from "react";
 import { useQuery, useMutation } from "@tanstack/react-query";
-import { TaskStatus, TimeEstimate, EnergyLevel, type Task, type Context, type Project } from "@shared/schema";
+import { TaskStatus, TimeEstimate, EnergyLevel, type Task, type Context, type Project, recurrenceRuleSchema } from "@shared/schema";
 import TaskList from "@/components/task-list";
+import TaskHistory from "@/components/task-history";
+import RecurrencePicker from "@/components/recurrence-picker";
+import TaskDependencies from "@/components/task-dependencies";
+import AttachmentList from "@/components/attachment-list";
+import PersonInput from "@/components/person-input";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
 import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
@@ -9,12 +14,13 @@ import { Input } from "@/components/ui/input";
 import { Textarea } from "@/components/ui/textarea";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Button } from "@/components/ui/button";
-import { Clock } from "lucide-react";
+import { Clock, Send } from "lucide-react";
 import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { apiRequest, queryClient } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
 import { z } from "zod";
+import { isTickled } from "@/lib/utils";
 
 // Task edit form schema
 const taskEditSchema = z.object({
@@ -30,6 +36,8 @@ const taskEditSchema = z.object({
   referenceCategory: z.string(),
   notes: z.string(),
   dueDate: z.date().nullable(),
+  recurrence: recurrenceRuleSchema.nullable(),
+  tickleDate: z.date().nullable(),
 });
 
 type TaskFormValues = z.infer<typeof taskEditSchema>;
@@ -38,6 +46,7 @@ export default function WaitingFor() {
   const { toast } = useToast();
   const [editingTask, setEditingTask] = useState<Task | null>(null);
   const [isTaskEditDialogOpen, setIsTaskEditDialogOpen] = useState(false);
+  const [showDeferred, setShowDeferred] = useState(false);
 
   const { data: tasks } = useQuery<Task[]>({
     queryKey: ["/api/tasks/status/waiting"],
@@ -66,6 +75,8 @@ export default function WaitingFor() {
       referenceCategory: "",
       notes: "",
       dueDate: null,
+      recurrence: null,
+      tickleDate: null,
     },
   });
 
@@ -78,6 +89,7 @@ export default function WaitingFor() {
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["/api/tasks"] });
       queryClient.invalidateQueries({ queryKey: ["/api/tasks/status/waiting"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/people"] });
       setIsTaskEditDialogOpen(false);
       setEditingTask(null);
       taskForm.reset();
@@ -95,6 +107,27 @@ export default function WaitingFor() {
     },
   });
 
+  const sendReminders = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", "/api/follow-ups/send");
+      return res.json() as Promise<{ nudged: number; digested: number }>;
+    },
+    onSuccess: ({ nudged, digested }) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/tasks/status/waiting"] });
+      toast({
+        title: "Follow-up reminders sent",
+        description: `${nudged} nudged, ${digested} in your digest`,
+      });
+    },
+    onError: () => {
+      toast({
+        title: "Failed to send reminders",
+        description: "Check your email account settings",
+        variant: "destructive",
+      });
+    },
+  });
+
   const handleEditTask = (task: Task) => {
     setEditingTask(task);
     taskForm.reset({
@@ -110,6 +143,8 @@ export default function WaitingFor() {
       referenceCategory: task.referenceCategory || "",
       notes: task.notes || "",
       dueDate: task.dueDate ? new Date(task.dueDate) : null,
+      recurrence: task.recurrence ?? null,
+      tickleDate: task.tickleDate ? new Date(task.tickleDate) : null,
     });
     setIsTaskEditDialogOpen(true);
   };
@@ -118,14 +153,18 @@ export default function WaitingFor() {
     updateTask.mutate(data);
   };
 
-  const sortedTasks = tasks?.sort((a, b) => {
+  // Tickled tasks stay hidden until their defer-until date unless asked for
+  const deferredCount = (tasks || []).filter((task) => isTickled(task)).length;
+
+  const sortedTasks = tasks?.filter((task) => showDeferred || !isTickled(task)).sort((a, b) => {
     if (!a.waitingForFollowUp) return 1;
     if (!b.waitingForFollowUp) return -1;
     return new Date(a.waitingForFollowUp).getTime() - new Date(b.waitingForFollowUp).getTime();
   }) || [];
 
+  // Answered items are no longer chased, so they don't count as overdue
   const overdueCount = sortedTasks.filter(task => {
-    if (!task.waitingForFollowUp) return false;
+    if (!task.waitingForFollowUp || task.responseReceivedAt) return false;
     return new Date(task.waitingForFollowUp) < new Date();
   }).length;
 
@@ -136,18 +175,41 @@ export default function WaitingFor() {
         <p className="text-muted-foreground">
           Tasks delegated to others or waiting on external responses
         </p>
+        {deferredCount > 0 && (
+          <Button
+            variant="ghost"
+            size="sm"
+            className="h-6 px-2 text-xs"
+            onClick={() => setShowDeferred(!showDeferred)}
+            data-testid="button-toggle-deferred"
+          >
+            {showDeferred ? "Hide" : "Show"} {deferredCount} deferred
+          </Button>
+        )}
       </div>
 
       {overdueCount > 0 && (
         <Card className="border-destructive">
-          <CardHeader>
-            <CardTitle className="flex items-center gap-2 text-destructive">
-              <Clock className="h-5 w-5" />
-              {overdueCount} Overdue Follow-up{overdueCount !== 1 ? 's' : ''}
-            </CardTitle>
-            <CardDescription>
-              These items need your attention - their follow-up dates have passed
-            </CardDescription>
+          <CardHeader className="flex flex-row items-start justify-between gap-4 space-y-0">
+            <div className="space-y-1.5">
+              <CardTitle className="flex items-center gap-2 text-destructive">
+                <Clock className="h-5 w-5" />
+                {overdueCount} Overdue Follow-up{overdueCount !== 1 ? 's' : ''}
+              </CardTitle>
+              <CardDescription>
+                These items need your attention - their follow-up dates have passed
+              </CardDescription>
+            </div>
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => sendReminders.mutate()}
+              disabled={sendReminders.isPending}
+              data-testid="button-send-reminders"
+            >
+              <Send className="h-4 w-4 mr-2" />
+              Send Reminders
+            </Button>
           </CardHeader>
         </Card>
       )}
@@ -357,6 +419,40 @@ export default function WaitingFor() {
                 )}
               />
 
+              <FormField
+                control={taskForm.control}
+                name="recurrence"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Repeat</FormLabel>
+                    <FormControl>
+                      <RecurrencePicker value={field.value} onChange={field.onChange} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <FormField
+                control={taskForm.control}
+                name="tickleDate"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Defer Until</FormLabel>
+                    <FormControl>
+                      <Input 
+                        type="date" 
+                        {...field}
+                        value={field.value instanceof Date ? field.value.toISOString().split('T')[0] : ''}
+                        onChange={(e) => field.onChange(e.target.value ? new Date(e.target.value) : null)}
+                        data-testid="input-tickle-date"
+                      />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
               {taskForm.watch("status") === TaskStatus.WAITING && (
                 <>
                   <FormField
@@ -366,7 +462,7 @@ export default function WaitingFor() {
                       <FormItem>
                         <FormLabel>Waiting For</FormLabel>
                         <FormControl>
-                          <Input {...field} placeholder="Person or resource" data-testid="input-waiting-for" />
+                          <PersonInput {...field} placeholder="Person or resource" data-testid="input-waiting-for" />
                         </FormControl>
                         <FormMessage />
                       </FormItem>
@@ -400,6 +496,17 @@ export default function WaitingFor() {
               </Button>
             </form>
           </Form>
+          {editingTask && (
+            <AttachmentList
+              attachments={editingTask.attachments}
+              baseUrl={`/api/tasks/${editingTask.id}/attachments`}
+              className="border-t pt-4"
+            />
+          )}
+          {editingTask && <TaskDependencies task={editingTask} />}
+          {editingTask && (
+            <TaskHistory task={editingTask} contexts={contexts} projects={projects} />
+          )}
         </DialogContent>
       </Dialog>
     </div>
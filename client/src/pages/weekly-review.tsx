@@ -1,18 +1,22 @@
 import { useState } from "react";
 import { useQuery, useMutation } from "@tanstack/react-query";
-import { Task, TaskStatus, WeeklyReview as WeeklyReviewType, Project, Context, Email } from "@shared/schema";
+import { Task, TaskStatus, ProjectStatus, WeeklyReview as WeeklyReviewType, Project, Context, Email, Template } from "@shared/schema";
+import { buildProjectTree, flattenProjectTree } from "@shared/project-tree";
 import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Textarea } from "@/components/ui/textarea";
 import { Progress } from "@/components/ui/progress";
-import { CheckCircle2, AlertCircle, Clock, ListChecks, Inbox, Users, Lightbulb, Calendar, ChevronRight, ChevronLeft, Plus, FileText, Brain, Target, Mail, CheckSquare, Paperclip } from "lucide-react";
+import { CheckCircle2, AlertCircle, Clock, ListChecks, Inbox, Users, Lightbulb, Calendar, ChevronRight, ChevronLeft, Plus, FileText, Brain, Target, Mail, CheckSquare, Paperclip, FolderPlus } from "lucide-react";
 import { apiRequest, queryClient } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
 import { Alert, AlertDescription } from "@/components/ui/alert";
 import { Badge } from "@/components/ui/badge";
 import { formatDistanceToNow, format, isBefore } from "date-fns";
 import ProcessingDialog, { type ProcessingResult } from "@/components/processing-dialog";
+import TemplateProjectDialog from "@/components/template-project-dialog";
+import { Link } from "wouter";
+import { isTickled } from "@/lib/utils";
 
 type ReviewStep =
   | "start"
@@ -50,6 +54,7 @@ export default function WeeklyReview() {
   const [newNextAction, setNewNextAction] = useState<{ [projectId: number]: string }>({});
   const [isProcessingDialogOpen, setIsProcessingDialogOpen] = useState(false);
   const [selectedItem, setSelectedItem] = useState<InboxItem | null>(null);
+  const [instantiatingTemplateId, setInstantiatingTemplateId] = useState<number | null>(null);
   const { toast } = useToast();
 
   const { data: tasks = [] } = useQuery<Task[]>({
@@ -68,6 +73,10 @@ export default function WeeklyReview() {
     queryKey: ["/api/emails"],
   });
 
+  const { data: templates = [] } = useQuery<Template[]>({
+    queryKey: ["/api/templates"],
+  });
+
   const { data: latestReview } = useQuery<WeeklyReviewType | null>({
     queryKey: ["/api/weekly-reviews/latest"],
   });
@@ -78,7 +87,7 @@ export default function WeeklyReview() {
 
   // Calculate review data
   const activeProjects = projects.filter(p => p.isActive);
-  const inboxTasks = tasks.filter(t => t.status === TaskStatus.INBOX);
+  const inboxTasks = tasks.filter(t => t.status === TaskStatus.INBOX && !isTickled(t));
   const unprocessedEmails = emails.filter((e) => !e.processed);
 
   const inboxItems: InboxItem[] = [
@@ -86,7 +95,7 @@ export default function WeeklyReview() {
       id: `task-${task.id}`,
       type: "task" as const,
       data: task,
-      timestamp: new Date(),
+      timestamp: new Date(task.createdAt),
       sortKey: task.id,
     })),
     ...unprocessedEmails.map((email) => ({
@@ -104,68 +113,9 @@ export default function WeeklyReview() {
   });
 
   const processItem = useMutation({
-    mutationFn: async (result: ProcessingResult & { itemId: number; itemType: "task" | "email" }) => {
-      const { action, task, createProject, itemId, itemType } = result;
-
-      if (action === "trash") {
-        if (itemType === "task") {
-          await apiRequest("PATCH", `/api/tasks/${itemId}`, { status: TaskStatus.TRASH });
-        } else {
-          await apiRequest("DELETE", `/api/emails/${itemId}`);
-        }
-      } else if (action === "reference") {
-        if (itemType === "task") {
-          const updates: Partial<Task> = {
-            status: TaskStatus.REFERENCE,
-            ...( task?.referenceCategory && { referenceCategory: task.referenceCategory })
-          };
-          await apiRequest("PATCH", `/api/tasks/${itemId}`, updates);
-        } else {
-          await apiRequest("PATCH", `/api/emails/${itemId}`, { processed: true });
-        }
-      } else if (action === "someday") {
-        if (itemType === "task") {
-          const updates: Partial<Task> = {
-            status: TaskStatus.SOMEDAY,
-            ...(task?.notes && { notes: task.notes })
-          };
-          await apiRequest("PATCH", `/api/tasks/${itemId}`, updates);
-        } else {
-          await apiRequest("PATCH", `/api/emails/${itemId}`, { processed: true });
-        }
-      } else if (action === "do-now") {
-        if (itemType === "task") {
-          await apiRequest("PATCH", `/api/tasks/${itemId}`, { status: TaskStatus.DONE });
-        } else {
-          await apiRequest("PATCH", `/api/emails/${itemId}`, { processed: true });
-        }
-      } else if (action === "delegate" || action === "next-action") {
-        if (createProject) {
-          const projectRes = await apiRequest("POST", "/api/projects", {
-            name: createProject.name,
-            description: createProject.description,
-            isActive: true,
-          });
-          const project = await projectRes.json();
-          if (task) {
-            task.projectId = project.id;
-          }
-        }
-
-        if (itemType === "email") {
-          await apiRequest("POST", "/api/tasks", task);
-          await apiRequest("POST", `/api/emails/${itemId}/process`);
-        } else {
-          await apiRequest("PATCH", `/api/tasks/${itemId}`, task);
-        }
-      } else if (action === "defer") {
-        if (itemType === "task") {
-          const currentTask = tasks.find((t) => t.id === itemId);
-          await apiRequest("PATCH", `/api/tasks/${itemId}`, {
-            deferCount: (currentTask?.deferCount || 0) + 1,
-          });
-        }
-      }
+    mutationFn: async ({ itemId, itemType, ...result }: ProcessingResult & { itemId: number; itemType: "task" | "email" }) => {
+      const res = await apiRequest("POST", `/api/inbox/${itemType}/${itemId}/process`, result);
+      return res.json();
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["/api/tasks"] });
@@ -184,12 +134,10 @@ export default function WeeklyReview() {
   const somedayTasks = tasks.filter(t => t.status === TaskStatus.SOMEDAY);
   const completedTasks = tasks.filter(t => t.status === TaskStatus.DONE);
 
-  const stalledProjects = activeProjects.filter(project => {
-    const projectNextActions = tasks.filter(t =>
-      t.projectId === project.id && t.status === TaskStatus.NEXT_ACTION
-    );
-    return projectNextActions.length === 0;
-  });
+  // A parent project whose sub-projects have next actions isn't stalled
+  const stalledProjects = flattenProjectTree(buildProjectTree(projects, tasks))
+    .filter(node => node.stalled)
+    .map(node => node.project);
 
   const overdueWaitingFor = waitingForTasks.filter(t =>
     t.waitingForFollowUp && isBefore(new Date(t.waitingForFollowUp), new Date())
@@ -930,7 +878,7 @@ export default function WeeklyReview() {
                   const projectNextActions = tasks.filter(t =>
                     t.projectId === project.id && t.status === TaskStatus.NEXT_ACTION
                   );
-                  const isStalled = projectNextActions.length === 0;
+                  const isStalled = stalledProjects.includes(project);
 
                   return (
                     <div key={project.id} className={`border rounded-lg p-4 ${isStalled ? 'border-red-300 bg-red-50' : ''}`}>
@@ -944,6 +892,9 @@ export default function WeeklyReview() {
                         {isStalled && (
                           <Badge variant="destructive">Stalled</Badge>
                         )}
+                        {project.status === ProjectStatus.ON_HOLD && (
+                          <Badge variant="outline">On hold</Badge>
+                        )}
                       </div>
 
                       <div className="mt-2">
@@ -1057,6 +1008,46 @@ export default function WeeklyReview() {
               </AlertDescription>
             </Alert>
 
+            {templates.length > 0 ? (
+              <div className="space-y-3">
+                {templates.map(template => (
+                  <div key={template.id} className="border rounded-lg p-4">
+                    <div className="flex items-start justify-between gap-2 mb-2">
+                      <div>
+                        <h3 className="font-semibold">{template.name}</h3>
+                        {template.description && (
+                          <p className="text-sm text-muted-foreground">{template.description}</p>
+                        )}
+                      </div>
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        onClick={() => setInstantiatingTemplateId(template.id)}
+                      >
+                        <FolderPlus className="mr-2 h-4 w-4" />
+                        Start Project
+                      </Button>
+                    </div>
+                    <ul className="text-sm space-y-1 text-muted-foreground list-disc list-inside">
+                      {template.items.map((item, index) => (
+                        <li key={index}>{item.title}</li>
+                      ))}
+                    </ul>
+                  </div>
+                ))}
+              </div>
+            ) : (
+              <p className="text-sm text-muted-foreground">
+                No saved checklists yet. <Link href="/templates" className="underline">Create a template</Link> for the ones you use repeatedly.
+              </p>
+            )}
+
+            <TemplateProjectDialog
+              open={instantiatingTemplateId !== null}
+              onOpenChange={(open) => !open && setInstantiatingTemplateId(null)}
+              templateId={instantiatingTemplateId}
+            />
+
             <div className="bg-muted p-4 rounded-lg">
               <p className="text-sm font-medium mb-2">Common checklist types:</p>
               <ul className="text-sm space-y-1 text-muted-foreground">
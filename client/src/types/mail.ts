@@ -5,6 +5,8 @@ export type MailItem = {
   type: "email" | "task";
   data: Email | Task;
   timestamp: Date;
+  // Unprocessed emails in the conversation this item stands for
+  threadCount?: number;
 };
 
 // Type guard to check if a MailItem contains an Email
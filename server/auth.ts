@@ -0,0 +1,268 @@
+import { scrypt, randomBytes, timingSafeEqual, createHash } from "crypto";
+import { promisify } from "util";
+import type { Express, NextFunction, Request, Response } from "express";
+import session from "express-session";
+import connectPgSimple from "connect-pg-simple";
+import passport from "passport";
+import { Strategy as LocalStrategy } from "passport-local";
+import { z } from "zod";
+import {
+  insertUserSchema,
+  ApiTokenScope,
+  TaskStatus,
+  type ApiToken,
+  type PublicUser,
+  type User,
+} from "@shared/schema";
+import { pool } from "./db";
+import { storageFor, userStorage, type IStorage } from "./storage";
+
+declare global {
+  namespace Express {
+    interface User extends PublicUser {}
+
+    interface Request {
+      // Storage scoped to the signed-in user, set by requireAuth
+      storage: IStorage;
+      // The personal API token the request was made with, if any
+      apiToken?: ApiToken;
+      // Set by allowCaptureToken on the routes a capture token may reach
+      captureRoute?: boolean;
+    }
+  }
+}
+
+const scryptAsync = promisify(scrypt);
+
+// Sessions last a month; signing in again starts a new one
+const SESSION_MAX_AGE_MS = 30 * 24 * 60 * 60 * 1000;
+
+// Stored as `<hash>.<salt>`, both hex
+export async function hashPassword(password: string): Promise<string> {
+  const salt = randomBytes(16).toString("hex");
+  const hash = (await scryptAsync(password, salt, 64)) as Buffer;
+  return `${hash.toString("hex")}.${salt}`;
+}
+
+async function verifyPassword(password: string, stored: string): Promise<boolean> {
+  const [hash, salt] = stored.split(".");
+  if (!hash || !salt) return false;
+  const expected = Buffer.from(hash, "hex");
+  const actual = (await scryptAsync(password, salt, 64)) as Buffer;
+  return expected.length === actual.length && timingSafeEqual(expected, actual);
+}
+
+// Personal API tokens read `gtd_<random>`; the prefix marks them in logs and
+// secret scanners. They carry enough entropy that a fast hash is safe to keep.
+const API_TOKEN_PREFIX = "gtd_";
+
+// How stale a token's last-used time may get before a request updates it,
+// so busy scripts don't write on every call
+const LAST_USED_PRECISION_MS = 60 * 1000;
+
+export function hashApiToken(token: string): string {
+  return createHash("sha256").update(token).digest("hex");
+}
+
+// A new token with its hash and the leading characters shown in Settings
+export function generateApiToken(): { token: string; tokenHash: string; tokenPrefix: string } {
+  const token = `${API_TOKEN_PREFIX}${randomBytes(32).toString("base64url")}`;
+  return {
+    token,
+    tokenHash: hashApiToken(token),
+    tokenPrefix: token.slice(0, API_TOKEN_PREFIX.length + 6),
+  };
+}
+
+// Whether a token's scopes cover the request. Capture tokens only get as far
+// as routes that opted in with allowCaptureToken, and only into the inbox.
+function tokenAllows(token: ApiToken, req: Request): boolean {
+  if (token.scopes.includes(ApiTokenScope.WRITE)) return true;
+  if (token.scopes.includes(ApiTokenScope.READ) && (req.method === "GET" || req.method === "HEAD")) return true;
+  return token.scopes.includes(ApiTokenScope.CAPTURE) && !!req.captureRoute &&
+    (req.body?.status ?? TaskStatus.INBOX) === TaskStatus.INBOX;
+}
+
+// Marks a route as reachable with a capture token. Mount it ahead of
+// requireAuth so routing, not a path comparison, decides which routes those are.
+export function allowCaptureToken(req: Request, _res: Response, next: NextFunction) {
+  req.captureRoute = true;
+  next();
+}
+
+// Tokens never manage tokens, so a leaked one can't mint itself a successor
+export function rejectApiToken(req: Request, res: Response, next: NextFunction) {
+  if (req.apiToken) {
+    res.status(403).json({ message: 'API tokens cannot manage API tokens' });
+    return;
+  }
+  next();
+}
+
+// Signs the request in as the owner of its `Authorization: Bearer` token.
+// Requests without one fall through to the session.
+async function authenticateToken(req: Request, res: Response, next: NextFunction) {
+  const match = /^Bearer\s+(\S+)$/i.exec(req.get("authorization") || "");
+  if (!match) return next();
+
+  try {
+    const token = await userStorage.getApiTokenByHash(hashApiToken(match[1]));
+    const user = token && await userStorage.getUser(token.userId);
+    if (!token || !user) {
+      res.status(401).json({ message: 'Invalid API token' });
+      return;
+    }
+
+    const now = new Date();
+    if (!token.lastUsedAt || now.getTime() - token.lastUsedAt.getTime() > LAST_USED_PRECISION_MS) {
+      await userStorage.touchApiToken(token.id, now);
+    }
+    req.user = toPublicUser(user);
+    req.apiToken = token;
+    next();
+  } catch (error) {
+    next(error);
+  }
+}
+
+// Accounts can only be created while ALLOW_REGISTRATION is "true". The
+// first one claims the data saved before accounts existed, so a fresh
+// deployment turns it on, registers the owner, and turns it off again.
+function registrationOpen(): boolean {
+  return process.env.ALLOW_REGISTRATION === "true";
+}
+
+// Password hashes never leave the server
+function toPublicUser({ password, ...user }: User): PublicUser {
+  return user;
+}
+
+// Rejects API requests without a signed-in user, or made with a token
+// whose scopes don't cover them, and hands the rest storage that only sees
+// that user's data
+export function requireAuth(req: Request, res: Response, next: NextFunction) {
+  if (!req.isAuthenticated()) {
+    res.status(401).json({ message: 'Not signed in' });
+    return;
+  }
+  if (req.apiToken && !tokenAllows(req.apiToken, req)) {
+    res.status(403).json({ message: 'API token does not allow this request' });
+    return;
+  }
+  req.storage = storageFor(req.user.id);
+  next();
+}
+
+// Username/password sign-in with sessions kept in Postgres, plus personal API
+// tokens as bearer headers. Registers the account routes, which are the only
+// /api routes open to signed-out visitors.
+export function setupAuth(app: Express) {
+  if (!process.env.SESSION_SECRET) {
+    throw new Error(
+      "SESSION_SECRET environment variable is not set. Please add it to your environment."
+    );
+  }
+
+  const PgStore = connectPgSimple(session);
+  app.set("trust proxy", 1);
+  app.use(session({
+    store: new PgStore({ pool, tableName: "sessions" }),
+    secret: process.env.SESSION_SECRET,
+    resave: false,
+    saveUninitialized: false,
+    cookie: {
+      httpOnly: true,
+      sameSite: "lax",
+      secure: app.get("env") === "production",
+      maxAge: SESSION_MAX_AGE_MS,
+    },
+  }));
+  app.use(passport.initialize());
+  app.use(passport.session());
+  app.use("/api", authenticateToken);
+
+  passport.use(new LocalStrategy(async (username, password, done) => {
+    try {
+      const user = await userStorage.getUserByUsername(username.trim());
+      if (!user || !(await verifyPassword(password, user.password))) {
+        return done(null, false);
+      }
+      return done(null, toPublicUser(user));
+    } catch (error) {
+      return done(error);
+    }
+  }));
+
+  passport.serializeUser((user, done) => done(null, user.id));
+  passport.deserializeUser(async (id: number, done) => {
+    try {
+      const user = await userStorage.getUser(id);
+      done(null, user ? toPublicUser(user) : false);
+    } catch (error) {
+      done(error);
+    }
+  });
+
+  app.get("/api/registration", (_req, res) => {
+    res.json({ open: registrationOpen() });
+  });
+
+  app.post("/api/register", async (req, res, next) => {
+    if (!registrationOpen()) {
+      res.status(403).json({ message: 'Registration is closed' });
+      return;
+    }
+    try {
+      const { username, password } = insertUserSchema.parse(req.body);
+      if (await userStorage.getUserByUsername(username)) {
+        res.status(400).json({ message: 'Username already taken' });
+        return;
+      }
+
+      const user = toPublicUser(await userStorage.createUser({
+        username,
+        password: await hashPassword(password),
+      }));
+      req.login(user, (err) => {
+        if (err) return next(err);
+        res.status(201).json(user);
+      });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ message: 'Invalid user data', errors: error.errors });
+        return;
+      }
+      console.error('Error registering user:', error);
+      res.status(500).json({ message: 'Failed to register' });
+    }
+  });
+
+  app.post("/api/login", (req, res, next) => {
+    passport.authenticate("local", (err: unknown, user: Express.User | false) => {
+      if (err) return next(err);
+      if (!user) {
+        res.status(401).json({ message: 'Invalid username or password' });
+        return;
+      }
+      req.login(user, (loginErr) => {
+        if (loginErr) return next(loginErr);
+        res.json(user);
+      });
+    })(req, res, next);
+  });
+
+  app.post("/api/logout", (req, res, next) => {
+    req.logout((err) => {
+      if (err) return next(err);
+      req.session.destroy(() => res.sendStatus(204));
+    });
+  });
+
+  app.get("/api/user", (req, res) => {
+    if (!req.isAuthenticated()) {
+      res.status(401).json({ message: 'Not signed in' });
+      return;
+    }
+    res.json(req.user);
+  });
+}
@@ -13,7 +13,7 @@ if (!process.env.DATABASE_URL) {
 }
 
 // Create connection pool
-const pool = new Pool({ connectionString: process.env.DATABASE_URL });
+export const pool = new Pool({ connectionString: process.env.DATABASE_URL });
 
 // Create Drizzle instance with schema
 export const db = drizzle(pool, { schema });
@@ -1,8 +1,20 @@
 import "dotenv/config";
 import express, { type Request, Response, NextFunction } from "express";
 import { registerRoutes } from "./routes";
+import { storageFor, userStorage, type IStorage } from "./storage";
 import { setupVite, serveStatic, log } from "./vite";
-import { EmailService } from "./services/email";
+import { TicklerService } from "./services/tickler";
+import { EmailSyncService } from "./services/email-sync";
+import { FollowUpService } from "./services/follow-up";
+
+// Runs a maintenance step for every user and adds up what it changed
+async function forEachUser(step: (storage: IStorage) => Promise<number>): Promise<number> {
+  let total = 0;
+  for (const user of await userStorage.getUsers()) {
+    total += await step(storageFor(user.id));
+  }
+  return total;
+}
 
 const app = express();
 app.use(express.json());
@@ -64,9 +76,27 @@ app.use((req, res, next) => {
   server.listen(port, "0.0.0.0", () => {
     log(`serving on port ${port}`);
     
-    // Always connect to email on startup
-    EmailService.fetchEmails()
-      .then(() => log('Email connected and synced'))
-      .catch(err => log(`Email connection error: ${err.message}`));
+    // Keep the local copy of every configured mailbox up to date
+    EmailSyncService.start();
+
+    // Tasks saved before the people registry only have a typed name
+    forEachUser(storage => storage.linkWaitingForPeople())
+      .then(count => {
+        if (count > 0) log(`linked ${count} waiting-for task(s) to people`);
+      })
+      .catch(err => console.error('Error linking waiting-for people:', err));
+
+    // Projects checked off before statuses existed only have isActive=false
+    forEachUser(storage => storage.closeInactiveProjects())
+      .then(count => {
+        if (count > 0) log(`marked ${count} inactive project(s) completed`);
+      })
+      .catch(err => console.error('Error closing inactive projects:', err));
+
+    // Bring deferred tasks back when their tickle date arrives
+    TicklerService.start();
+
+    // Remind about Waiting For items whose follow-up date has passed
+    FollowUpService.start();
   });
 })();
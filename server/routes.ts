@@ -1,53 +1,226 @@
-import type { Express } from "express";
+import express, { type Express, type Response } from "express";
 import { createServer, type Server } from "http";
-import { storage } from "./storage";
+import { type IStorage } from "./storage";
+import { setupAuth, requireAuth, allowCaptureToken, rejectApiToken, generateApiToken } from "./auth";
 import {
   insertTaskSchema,
   insertProjectSchema,
+  insertAreaSchema,
   insertContextSchema,
+  insertPersonSchema,
+  insertAgendaSchema,
+  insertTemplateSchema,
   insertEmailSchema,
   insertWeeklyReviewSchema,
+  insertApiTokenSchema,
+  captureSchema,
   updateTaskSchema,
   updateProjectSchema,
+  updateAreaSchema,
+  closeProjectSchema,
+  taskOrderSchema,
+  insertTaskDependencySchema,
+  TaskStatus,
   updateContextSchema,
+  updatePersonSchema,
+  updateAgendaSchema,
+  updateTemplateSchema,
+  instantiateTemplateSchema,
   updateEmailSchema,
+  insertEmailAccountSchema,
+  insertEmailDraftSchema,
+  updateEmailAccountSchema,
+  type EmailAccount,
+  type PublicEmailAccount,
+  type AttachmentMeta,
+  attachmentMetaSchema,
+  MAX_ATTACHMENT_SIZE,
+  processingResultSchema,
+  InboxItemType,
+  type InboxItemTypeValue,
 } from "@shared/schema";
 import { EmailService } from "./services/email";
+import { EmailSyncService } from "./services/email-sync";
+import { FollowUpService } from "./services/follow-up";
+import { getUpcomingAgendas } from "./services/agenda";
+import { captureToInbox, parsePlainTextCapture } from "./services/capture";
 import * as GoogleCalendarService from "./services/google-calendar";
+import { wouldCreateCycle } from "@shared/project-tree";
+import { wouldCreateDependencyCycle } from "@shared/task-dependencies";
 import { z } from "zod";
+import {
+  getAttachmentPath,
+  attachmentExists,
+  canPreviewInline,
+  isBlockedAttachment,
+  saveAttachment,
+} from "./services/attachment-store";
+
+// Account passwords never leave the server
+function toPublicEmailAccount({ password, ...account }: EmailAccount): PublicEmailAccount {
+  return account;
+}
+
+// Attachments previously staged through POST /api/attachments
+const outgoingAttachmentsSchema = z.array(attachmentMetaSchema).optional();
+
+// Reason a project can't move under `parentId`, or null when it can.
+// `id` is null for a project that doesn't exist yet.
+async function getParentProjectError(storage: IStorage, id: number | null, parentId: number | null | undefined) {
+  if (parentId === undefined || parentId === null) return null;
+  const projects = await storage.getProjects();
+  if (!projects.some(p => p.id === parentId)) return 'Parent project not found';
+  if (id !== null && wouldCreateCycle(projects, id, parentId)) {
+    return 'A project cannot be moved under itself or one of its sub-projects';
+  }
+  return null;
+}
+
+// Rows a task, project, agenda, email or draft may point at by id
+interface References {
+  projectId?: number | null;
+  contextId?: number | null;
+  agendaId?: number | null;
+  areaId?: number | null;
+  waitingForId?: number | null;
+  personId?: number | null;
+  emailId?: number | null;
+  originalEmailId?: number | null;
+  accountId?: number | null;
+  delegationEmailId?: number | null;
+  responseEmailId?: number | null;
+}
+
+// Every id in a request body has to belong to the signed-in user; another
+// user's row is reported as not found
+async function getReferenceError(storage: IStorage, refs: References | undefined) {
+  if (!refs) return null;
+  const checks: [number | null | undefined, (id: number) => Promise<unknown>, string][] = [
+    [refs.projectId, (id) => storage.getProject(id), 'Project not found'],
+    [refs.contextId, (id) => storage.getContext(id), 'Context not found'],
+    [refs.agendaId, (id) => storage.getAgenda(id), 'Agenda not found'],
+    [refs.areaId, (id) => storage.getArea(id), 'Area not found'],
+    [refs.waitingForId, (id) => storage.getPerson(id), 'Person not found'],
+    [refs.personId, (id) => storage.getPerson(id), 'Person not found'],
+    [refs.emailId, (id) => storage.getEmail(id), 'Email not found'],
+    [refs.originalEmailId, (id) => storage.getEmail(id), 'Email not found'],
+    [refs.accountId, (id) => storage.getEmailAccount(id), 'Email account not found'],
+    [refs.delegationEmailId, (id) => storage.getEmail(id), 'Email not found'],
+    [refs.responseEmailId, (id) => storage.getEmail(id), 'Email not found'],
+  ];
+  for (const [id, find, message] of checks) {
+    if (id !== undefined && id !== null && !(await find(id))) return message;
+  }
+  return null;
+}
+
+// Drops attachments the user never uploaded and doesn't already have on an
+// email or task. The store is shared, so knowing a checksum proves nothing.
+async function ownAttachments<T extends AttachmentMeta[] | null | undefined>(storage: IStorage, attachments: T): Promise<T> {
+  if (!attachments || attachments.length === 0) return attachments;
+  const owned = await storage.getOwnedAttachmentChecksums(attachments.map(a => a.checksum));
+  return attachments.filter(a => owned.has(a.checksum)) as T;
+}
+
+// Streams one stored attachment. Images and PDFs open inline unless
+// ?download is set; any other type is always served as a download.
+async function sendAttachment(
+  res: Response,
+  attachments: AttachmentMeta[] | null,
+  index: number,
+  download: boolean
+) {
+  const attachment = attachments?.[index];
+  if (!attachment?.checksum || !(await attachmentExists(attachment.checksum))) {
+    res.status(404).json({ message: 'Attachment not found' });
+    return;
+  }
+
+  const filename = attachment.filename || `attachment-${index + 1}`;
+  const disposition = !download && canPreviewInline(attachment) ? 'inline' : 'attachment';
+  res.sendFile(getAttachmentPath(attachment.checksum), {
+    headers: {
+      'Content-Type': attachment.contentType,
+      'Content-Disposition': `${disposition}; filename*=UTF-8''${encodeURIComponent(filename)}`,
+      'X-Content-Type-Options': 'nosniff',
+    },
+  });
+}
 
 export async function registerRoutes(app: Express): Promise<Server> {
+  setupAuth(app);
+  // The only routes a capture-scoped API token may reach
+  app.post("/api/capture", allowCaptureToken);
+  app.post("/api/tasks", allowCaptureToken);
+  // Every other API route needs a signed-in user
+  app.use("/api", requireAuth);
+
   // Tasks
   app.get("/api/tasks", async (req, res) => {
-    const tasks = await storage.getTasks();
+    const tasks = await req.storage.getTasks();
     res.json(tasks);
   });
 
+  // Next actions queued behind another in a sequential project or waiting on
+  // an unfinished task are left out
   app.get("/api/tasks/status/:status", async (req, res) => {
-    const tasks = await storage.getTasksByStatus(req.params.status);
+    const tasks = req.params.status === TaskStatus.NEXT_ACTION
+      ? await req.storage.getAvailableNextActions()
+      : await req.storage.getTasksByStatus(req.params.status);
     res.json(tasks);
   });
 
   app.get("/api/tasks/project/:projectId", async (req, res) => {
-    const tasks = await storage.getTasksByProject(Number(req.params.projectId));
+    const tasks = await req.storage.getTasksByProject(Number(req.params.projectId));
     res.json(tasks);
   });
 
   app.get("/api/tasks/context/:contextId", async (req, res) => {
-    const tasks = await storage.getTasksByContext(Number(req.params.contextId));
+    const tasks = await req.storage.getTasksByContext(Number(req.params.contextId));
     res.json(tasks);
   });
 
   app.post("/api/tasks", async (req, res) => {
     const task = insertTaskSchema.parse(req.body);
-    const created = await storage.createTask(task);
+    const referenceError = await getReferenceError(req.storage, task);
+    if (referenceError) {
+      res.status(400).json({ message: referenceError });
+      return;
+    }
+    task.attachments = await ownAttachments(req.storage, task.attachments);
+    const created = await req.storage.createTask(task);
     res.json(created);
   });
 
+  // Quick capture for launchers and shortcuts, usually with an API token.
+  // Takes JSON, a form post or plain text, and answers with just enough to
+  // confirm the item landed; a repeat within a couple of minutes is answered
+  // with the original task.
+  app.post("/api/capture", express.text(), async (req, res) => {
+    try {
+      const body = typeof req.body === "string" ? parsePlainTextCapture(req.body) : req.body;
+      const { task, duplicate } = await captureToInbox(req.storage, captureSchema.parse(body));
+      res.status(duplicate ? 200 : 201).json({ id: task.id, title: task.title, duplicate });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ message: 'Invalid capture data', errors: error.errors });
+        return;
+      }
+      console.error('Error capturing item:', error);
+      res.status(500).json({ message: 'Failed to capture item' });
+    }
+  });
+
   app.patch("/api/tasks/:id", async (req, res) => {
     try {
       const updates = updateTaskSchema.parse(req.body);
-      const task = await storage.updateTask(Number(req.params.id), updates);
+      const referenceError = await getReferenceError(req.storage, updates);
+      if (referenceError) {
+        res.status(400).json({ message: referenceError });
+        return;
+      }
+      updates.attachments = await ownAttachments(req.storage, updates.attachments);
+      const task = await req.storage.updateTask(Number(req.params.id), updates);
       res.json(task);
     } catch (error) {
       if (error instanceof z.ZodError) {
@@ -59,26 +232,123 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   app.delete("/api/tasks/:id", async (req, res) => {
-    await storage.deleteTask(Number(req.params.id));
+    await req.storage.deleteTask(Number(req.params.id));
     res.sendStatus(204);
   });
 
+  app.get("/api/tasks/:id/history", async (req, res) => {
+    try {
+      const events = await req.storage.getTaskHistory(Number(req.params.id));
+      res.json(events);
+    } catch (error) {
+      console.error('Error fetching task history:', error);
+      res.status(500).json({ message: 'Failed to fetch task history' });
+    }
+  });
+
+  app.get("/api/task-dependencies", async (req, res) => {
+    try {
+      const dependencies = await req.storage.getTaskDependencies();
+      res.json(dependencies);
+    } catch (error) {
+      console.error('Error fetching task dependencies:', error);
+      res.status(500).json({ message: 'Failed to fetch task dependencies' });
+    }
+  });
+
+  // Makes the task wait on another one; refused when that would form a loop
+  app.post("/api/tasks/:id/dependencies", async (req, res) => {
+    try {
+      const taskId = Number(req.params.id);
+      const { dependsOnId } = insertTaskDependencySchema.parse(req.body);
+      const [task, blocker] = await Promise.all([req.storage.getTask(taskId), req.storage.getTask(dependsOnId)]);
+      if (!task || !blocker) {
+        res.status(404).json({ message: 'Task not found' });
+        return;
+      }
+      if (taskId === dependsOnId) {
+        res.status(400).json({ message: 'A task cannot depend on itself' });
+        return;
+      }
+      if (wouldCreateDependencyCycle(await req.storage.getTaskDependencies(), taskId, dependsOnId)) {
+        res.status(400).json({ message: `"${blocker.title}" already waits on this task` });
+        return;
+      }
+      const dependency = await req.storage.addTaskDependency(taskId, dependsOnId);
+      res.json(dependency);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ message: 'Invalid dependency data', errors: error.errors });
+        return;
+      }
+      console.error('Error adding task dependency:', error);
+      res.status(500).json({ message: 'Failed to add task dependency' });
+    }
+  });
+
+  app.delete("/api/tasks/:id/dependencies/:dependsOnId", async (req, res) => {
+    try {
+      await req.storage.removeTaskDependency(Number(req.params.id), Number(req.params.dependsOnId));
+      res.sendStatus(204);
+    } catch (error) {
+      console.error('Error removing task dependency:', error);
+      res.status(500).json({ message: 'Failed to remove task dependency' });
+    }
+  });
+
+  // Sends reminders for overdue Waiting For items now instead of on the next hourly run
+  app.post("/api/follow-ups/send", async (req, res) => {
+    try {
+      const result = await FollowUpService.sendReminders(req.storage);
+      res.json(result);
+    } catch (error) {
+      console.error('Error sending follow-up reminders:', error);
+      res.status(500).json({ message: 'Failed to send follow-up reminders' });
+    }
+  });
+
+  app.get("/api/tasks/:id/attachments/:index", async (req, res) => {
+    try {
+      const task = await req.storage.getTask(Number(req.params.id));
+      if (!task) {
+        res.status(404).json({ message: 'Task not found' });
+        return;
+      }
+      await sendAttachment(res, task.attachments, Number(req.params.index), req.query.download !== undefined);
+    } catch (error) {
+      console.error('Error fetching task attachment:', error);
+      res.status(500).json({ message: 'Failed to fetch attachment' });
+    }
+  });
+
   // Projects
   app.get("/api/projects", async (req, res) => {
-    const projects = await storage.getProjects();
+    const projects = await req.storage.getProjects();
     res.json(projects);
   });
 
   app.post("/api/projects", async (req, res) => {
     const project = insertProjectSchema.parse(req.body);
-    const created = await storage.createProject(project);
+    const parentError = await getParentProjectError(req.storage, null, project.parentId)
+      ?? await getReferenceError(req.storage, project);
+    if (parentError) {
+      res.status(400).json({ message: parentError });
+      return;
+    }
+    const created = await req.storage.createProject(project);
     res.json(created);
   });
 
   app.patch("/api/projects/:id", async (req, res) => {
     try {
       const updates = updateProjectSchema.parse(req.body);
-      const project = await storage.updateProject(Number(req.params.id), updates);
+      const parentError = await getParentProjectError(req.storage, Number(req.params.id), updates.parentId)
+        ?? await getReferenceError(req.storage, updates);
+      if (parentError) {
+        res.status(400).json({ message: parentError });
+        return;
+      }
+      const project = await req.storage.updateProject(Number(req.params.id), updates);
       res.json(project);
     } catch (error) {
       if (error instanceof z.ZodError) {
@@ -89,27 +359,128 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  app.put("/api/projects/:id/task-order", async (req, res) => {
+    try {
+      const { taskIds } = taskOrderSchema.parse(req.body);
+      const project = await req.storage.getProject(Number(req.params.id));
+      if (!project) {
+        res.status(404).json({ message: 'Project not found' });
+        return;
+      }
+      const tasks = await req.storage.reorderProjectTasks(project.id, taskIds);
+      res.json(tasks);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ message: 'Invalid task order', errors: error.errors });
+        return;
+      }
+      console.error('Error reordering project tasks:', error);
+      res.status(500).json({ message: 'Failed to reorder tasks' });
+    }
+  });
+
+  // Completes or drops a project; body says what happens to its open next actions
+  app.post("/api/projects/:id/close", async (req, res) => {
+    try {
+      const close = closeProjectSchema.parse(req.body);
+      const project = await req.storage.closeProject(Number(req.params.id), close);
+      if (!project) {
+        res.status(404).json({ message: 'Project not found' });
+        return;
+      }
+      res.json(project);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ message: 'Invalid project data', errors: error.errors });
+        return;
+      }
+      console.error('Error closing project:', error);
+      res.status(500).json({ message: 'Failed to close project' });
+    }
+  });
+
   app.delete("/api/projects/:id", async (req, res) => {
-    await storage.deleteProject(Number(req.params.id));
-    res.sendStatus(204);
+    try {
+      await req.storage.deleteProject(Number(req.params.id));
+      res.sendStatus(204);
+    } catch (error) {
+      console.error('Error deleting project:', error);
+      res.status(500).json({ message: 'Failed to delete project' });
+    }
+  });
+
+  // Areas
+  app.get("/api/areas", async (req, res) => {
+    try {
+      const areas = await req.storage.getAreas();
+      res.json(areas);
+    } catch (error) {
+      console.error('Error fetching areas:', error);
+      res.status(500).json({ message: 'Failed to fetch areas' });
+    }
+  });
+
+  app.post("/api/areas", async (req, res) => {
+    try {
+      const area = insertAreaSchema.parse(req.body);
+      const created = await req.storage.createArea(area);
+      res.json(created);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ message: 'Invalid area data', errors: error.errors });
+        return;
+      }
+      console.error('Error creating area:', error);
+      res.status(500).json({ message: 'Failed to create area' });
+    }
+  });
+
+  app.patch("/api/areas/:id", async (req, res) => {
+    try {
+      const updates = updateAreaSchema.parse(req.body);
+      const existing = await req.storage.getArea(Number(req.params.id));
+      if (!existing) {
+        res.status(404).json({ message: 'Area not found' });
+        return;
+      }
+      const area = await req.storage.updateArea(existing.id, updates);
+      res.json(area);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ message: 'Invalid area data', errors: error.errors });
+        return;
+      }
+      console.error('Error updating area:', error);
+      res.status(500).json({ message: 'Failed to update area' });
+    }
+  });
+
+  app.delete("/api/areas/:id", async (req, res) => {
+    try {
+      await req.storage.deleteArea(Number(req.params.id));
+      res.sendStatus(204);
+    } catch (error) {
+      console.error('Error deleting area:', error);
+      res.status(500).json({ message: 'Failed to delete area' });
+    }
   });
 
   // Contexts
   app.get("/api/contexts", async (req, res) => {
-    const contexts = await storage.getContexts();
+    const contexts = await req.storage.getContexts();
     res.json(contexts);
   });
 
   app.post("/api/contexts", async (req, res) => {
     const context = insertContextSchema.parse(req.body);
-    const created = await storage.createContext(context);
+    const created = await req.storage.createContext(context);
     res.json(created);
   });
 
   app.patch("/api/contexts/:id", async (req, res) => {
     try {
       const updates = updateContextSchema.parse(req.body);
-      const context = await storage.updateContext(Number(req.params.id), updates);
+      const context = await req.storage.updateContext(Number(req.params.id), updates);
       res.json(context);
     } catch (error) {
       if (error instanceof z.ZodError) {
@@ -121,17 +492,266 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   app.delete("/api/contexts/:id", async (req, res) => {
-    await storage.deleteContext(Number(req.params.id));
-    res.sendStatus(204);
+    try {
+      await req.storage.deleteContext(Number(req.params.id));
+      res.sendStatus(204);
+    } catch (error) {
+      console.error('Error deleting context:', error);
+      res.status(500).json({ message: 'Failed to delete context' });
+    }
+  });
+
+  // People
+  app.get("/api/people", async (req, res) => {
+    try {
+      const people = await req.storage.getPeople();
+      res.json(people);
+    } catch (error) {
+      console.error('Error fetching people:', error);
+      res.status(500).json({ message: 'Failed to fetch people' });
+    }
+  });
+
+  app.get("/api/people/suggestions", async (req, res) => {
+    try {
+      const suggestions = await req.storage.getPersonSuggestions();
+      res.json(suggestions);
+    } catch (error) {
+      console.error('Error fetching people suggestions:', error);
+      res.status(500).json({ message: 'Failed to fetch people suggestions' });
+    }
+  });
+
+  app.post("/api/people", async (req, res) => {
+    try {
+      const person = insertPersonSchema.parse(req.body);
+      const created = await req.storage.createPerson(person);
+      res.json(created);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ message: 'Invalid person data', errors: error.errors });
+        return;
+      }
+      console.error('Error creating person:', error);
+      res.status(500).json({ message: 'Failed to create person' });
+    }
+  });
+
+  app.patch("/api/people/:id", async (req, res) => {
+    try {
+      const updates = updatePersonSchema.parse(req.body);
+      const existing = await req.storage.getPerson(Number(req.params.id));
+      if (!existing) {
+        res.status(404).json({ message: 'Person not found' });
+        return;
+      }
+      const person = await req.storage.updatePerson(existing.id, updates);
+      res.json(person);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ message: 'Invalid person data', errors: error.errors });
+        return;
+      }
+      console.error('Error updating person:', error);
+      res.status(500).json({ message: 'Failed to update person' });
+    }
+  });
+
+  app.delete("/api/people/:id", async (req, res) => {
+    try {
+      await req.storage.deletePerson(Number(req.params.id));
+      res.sendStatus(204);
+    } catch (error) {
+      console.error('Error deleting person:', error);
+      res.status(500).json({ message: 'Failed to delete person' });
+    }
+  });
+
+  // Merges the person in the URL into `intoId` and returns the person kept
+  app.post("/api/people/:id/merge", async (req, res) => {
+    try {
+      const { intoId } = z.object({ intoId: z.number().int() }).parse(req.body);
+      const sourceId = Number(req.params.id);
+      if (sourceId === intoId) {
+        res.status(400).json({ message: 'Cannot merge a person into themselves' });
+        return;
+      }
+
+      const merged = await req.storage.mergePeople(sourceId, intoId);
+      if (!merged) {
+        res.status(404).json({ message: 'Person not found' });
+        return;
+      }
+      res.json(merged);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ message: 'Invalid merge request', errors: error.errors });
+        return;
+      }
+      console.error('Error merging people:', error);
+      res.status(500).json({ message: 'Failed to merge people' });
+    }
+  });
+
+  // Agendas
+  app.get("/api/agendas", async (req, res) => {
+    try {
+      const agendas = await req.storage.getAgendas();
+      res.json(agendas);
+    } catch (error) {
+      console.error('Error fetching agendas:', error);
+      res.status(500).json({ message: 'Failed to fetch agendas' });
+    }
+  });
+
+  // Agendas whose person or meeting is on the calendar in the next week
+  app.get("/api/agendas/upcoming", async (req, res) => {
+    try {
+      const upcoming = await getUpcomingAgendas(req.storage);
+      res.json(upcoming);
+    } catch (error) {
+      console.error('Error fetching upcoming agendas:', error);
+      res.status(500).json({ message: 'Failed to fetch upcoming agendas' });
+    }
+  });
+
+  app.post("/api/agendas", async (req, res) => {
+    try {
+      const agenda = insertAgendaSchema.parse(req.body);
+      const referenceError = await getReferenceError(req.storage, agenda);
+      if (referenceError) {
+        res.status(400).json({ message: referenceError });
+        return;
+      }
+      const created = await req.storage.createAgenda(agenda);
+      res.json(created);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ message: 'Invalid agenda data', errors: error.errors });
+        return;
+      }
+      console.error('Error creating agenda:', error);
+      res.status(500).json({ message: 'Failed to create agenda' });
+    }
+  });
+
+  app.patch("/api/agendas/:id", async (req, res) => {
+    try {
+      const updates = updateAgendaSchema.parse(req.body);
+      const existing = await req.storage.getAgenda(Number(req.params.id));
+      if (!existing) {
+        res.status(404).json({ message: 'Agenda not found' });
+        return;
+      }
+      const agenda = await req.storage.updateAgenda(existing.id, updates);
+      res.json(agenda);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ message: 'Invalid agenda data', errors: error.errors });
+        return;
+      }
+      console.error('Error updating agenda:', error);
+      res.status(500).json({ message: 'Failed to update agenda' });
+    }
+  });
+
+  app.delete("/api/agendas/:id", async (req, res) => {
+    try {
+      await req.storage.deleteAgenda(Number(req.params.id));
+      res.sendStatus(204);
+    } catch (error) {
+      console.error('Error deleting agenda:', error);
+      res.status(500).json({ message: 'Failed to delete agenda' });
+    }
+  });
+
+  // Templates
+  app.get("/api/templates", async (req, res) => {
+    try {
+      const templates = await req.storage.getTemplates();
+      res.json(templates);
+    } catch (error) {
+      console.error('Error fetching templates:', error);
+      res.status(500).json({ message: 'Failed to fetch templates' });
+    }
+  });
+
+  app.post("/api/templates", async (req, res) => {
+    try {
+      const template = insertTemplateSchema.parse(req.body);
+      const created = await req.storage.createTemplate(template);
+      res.json(created);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ message: 'Invalid template data', errors: error.errors });
+        return;
+      }
+      console.error('Error creating template:', error);
+      res.status(500).json({ message: 'Failed to create template' });
+    }
+  });
+
+  app.patch("/api/templates/:id", async (req, res) => {
+    try {
+      const updates = updateTemplateSchema.parse(req.body);
+      const existing = await req.storage.getTemplate(Number(req.params.id));
+      if (!existing) {
+        res.status(404).json({ message: 'Template not found' });
+        return;
+      }
+      const template = await req.storage.updateTemplate(existing.id, updates);
+      res.json(template);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ message: 'Invalid template data', errors: error.errors });
+        return;
+      }
+      console.error('Error updating template:', error);
+      res.status(500).json({ message: 'Failed to update template' });
+    }
+  });
+
+  app.delete("/api/templates/:id", async (req, res) => {
+    try {
+      await req.storage.deleteTemplate(Number(req.params.id));
+      res.sendStatus(204);
+    } catch (error) {
+      console.error('Error deleting template:', error);
+      res.status(500).json({ message: 'Failed to delete template' });
+    }
+  });
+
+  // Creates a project from the template and returns it with its new tasks
+  app.post("/api/templates/:id/instantiate", async (req, res) => {
+    try {
+      const options = instantiateTemplateSchema.parse(req.body);
+      const parentError = await getParentProjectError(req.storage, null, options.parentId)
+        ?? await getReferenceError(req.storage, { areaId: options.areaId });
+      if (parentError) {
+        res.status(400).json({ message: parentError });
+        return;
+      }
+      const instance = await req.storage.instantiateTemplate(Number(req.params.id), options);
+      if (!instance) {
+        res.status(404).json({ message: 'Template not found' });
+        return;
+      }
+      res.json(instance);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ message: 'Invalid template data', errors: error.errors });
+        return;
+      }
+      console.error('Error creating project from template:', error);
+      res.status(500).json({ message: 'Failed to create project from template' });
+    }
   });
 
   // Enhanced Email Routes
   app.get("/api/emails", async (req, res) => {
     try {
-      // Trigger IMAP fetch in background (don't wait)
-      EmailService.fetchEmails().catch(err => console.error('Background email fetch error:', err));
-      // Return existing emails from database immediately
-      const emails = await storage.getEmails();
+      // Mailboxes are mirrored by EmailSyncService, so this is a database read
+      const emails = await req.storage.getEmails();
       res.json(emails);
     } catch (error) {
       console.error('Error fetching emails:', error);
@@ -139,12 +759,43 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  app.get("/api/emails/sync-status", async (req, res) => {
+    try {
+      const status = await EmailSyncService.getStatus(req.storage);
+      res.json(status);
+    } catch (error) {
+      console.error('Error fetching email sync status:', error);
+      res.status(500).json({ message: 'Failed to fetch email sync status' });
+    }
+  });
+
+  app.post("/api/emails/sync", async (req, res) => {
+    try {
+      await EmailSyncService.syncUser(req.storage);
+      const status = await EmailSyncService.getStatus(req.storage);
+      res.json(status);
+    } catch (error) {
+      console.error('Error syncing emails:', error);
+      res.status(500).json({ message: 'Failed to sync emails' });
+    }
+  });
+
   app.post("/api/emails", async (req, res) => {
     try {
       const email = insertEmailSchema.parse(req.body);
-      const created = await storage.createEmail(email);
+      const referenceError = await getReferenceError(req.storage, email);
+      if (referenceError) {
+        res.status(400).json({ message: referenceError });
+        return;
+      }
+      email.attachments = await ownAttachments(req.storage, email.attachments);
+      const created = await req.storage.createEmail(email);
       res.json(created);
     } catch (error) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ message: 'Invalid email data', errors: error.errors });
+        return;
+      }
       console.error('Error creating email:', error);
       res.status(500).json({ message: 'Failed to create email' });
     }
@@ -152,8 +803,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
   app.post("/api/emails/:id/process", async (req, res) => {
     try {
-      const email = await storage.markEmailAsProcessed(Number(req.params.id));
-      await EmailService.markEmailAsRead(email.messageId);
+      const email = await req.storage.markEmailAsProcessed(Number(req.params.id));
+      await EmailService.markEmailAsRead(req.storage, email);
       res.json(email);
     } catch (error) {
       console.error('Error processing email:', error);
@@ -164,9 +815,15 @@ export async function registerRoutes(app: Express): Promise<Server> {
   app.patch("/api/emails/:id", async (req, res) => {
     try {
       const updates = updateEmailSchema.parse(req.body);
-      const email = await storage.updateEmail(Number(req.params.id), updates);
+      const referenceError = await getReferenceError(req.storage, updates);
+      if (referenceError) {
+        res.status(400).json({ message: referenceError });
+        return;
+      }
+      updates.attachments = await ownAttachments(req.storage, updates.attachments);
+      const email = await req.storage.updateEmail(Number(req.params.id), updates);
       if (updates.processed) {
-        await EmailService.markEmailAsRead(email.messageId);
+        await EmailService.markEmailAsRead(req.storage, email);
       }
       res.json(email);
     } catch (error) {
@@ -181,7 +838,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
   app.delete("/api/emails/:id", async (req, res) => {
     try {
-      await storage.deleteEmail(Number(req.params.id));
+      await req.storage.deleteEmail(Number(req.params.id));
       res.sendStatus(204);
     } catch (error) {
       console.error('Error deleting email:', error);
@@ -189,9 +846,39 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // The email's conversation, oldest first; just the email itself when it isn't threaded
+  app.get("/api/emails/:id/thread", async (req, res) => {
+    try {
+      const email = await req.storage.getEmail(Number(req.params.id));
+      if (!email) {
+        res.status(404).json({ message: 'Email not found' });
+        return;
+      }
+      const thread = email.threadId ? await req.storage.getEmailThread(email.threadId) : [email];
+      res.json(thread);
+    } catch (error) {
+      console.error('Error fetching email thread:', error);
+      res.status(500).json({ message: 'Failed to fetch email thread' });
+    }
+  });
+
+  app.get("/api/emails/:id/attachments/:index", async (req, res) => {
+    try {
+      const email = await req.storage.getEmail(Number(req.params.id));
+      if (!email) {
+        res.status(404).json({ message: 'Email not found' });
+        return;
+      }
+      await sendAttachment(res, email.attachments, Number(req.params.index), req.query.download !== undefined);
+    } catch (error) {
+      console.error('Error fetching email attachment:', error);
+      res.status(500).json({ message: 'Failed to fetch attachment' });
+    }
+  });
+
   app.get("/api/emails/:id", async (req, res) => {
     try {
-      const emails = await storage.getEmails();
+      const emails = await req.storage.getEmails();
       const email = emails.find(e => e.id === Number(req.params.id));
       if (!email) {
         res.status(404).json({ message: 'Email not found' });
@@ -204,12 +891,53 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Stages a file for an outgoing email. The body is the raw file; the
+  // returned metadata is passed back in the send/reply/forward request.
+  app.post(
+    "/api/attachments",
+    express.raw({ type: () => true, limit: MAX_ATTACHMENT_SIZE }),
+    async (req, res) => {
+      try {
+        const uploadQuerySchema = z.object({
+          filename: z.string().trim().min(1).max(255),
+          contentType: z.string().trim().min(1).default('application/octet-stream'),
+        });
+        const { filename, contentType } = uploadQuerySchema.parse(req.query);
+
+        if (!Buffer.isBuffer(req.body) || req.body.length === 0) {
+          res.status(400).json({ message: 'Attachment is empty' });
+          return;
+        }
+        if (isBlockedAttachment(filename, contentType)) {
+          res.status(415).json({ message: `Files of this type can't be attached: ${filename}` });
+          return;
+        }
+
+        const attachment = await saveAttachment(req.body, { filename, contentType });
+        await req.storage.recordAttachmentUpload(attachment.checksum);
+        res.json(attachment);
+      } catch (error) {
+        if (error instanceof z.ZodError) {
+          res.status(400).json({ message: 'Invalid attachment data', errors: error.errors });
+          return;
+        }
+        console.error('Error uploading attachment:', error);
+        res.status(500).json({ message: 'Failed to upload attachment' });
+      }
+    }
+  );
+
   app.post("/api/emails/send", async (req, res) => {
     try {
-      const { to, subject, text, html, cc, bcc, attachments } = req.body;
-      await EmailService.sendEmail(to, subject, text, html, cc, bcc, attachments);
-      res.json({ message: 'Email sent successfully' });
+      const { to, subject, text, html, cc, bcc, accountId } = req.body;
+      const attachments = await ownAttachments(req.storage, outgoingAttachmentsSchema.parse(req.body.attachments));
+      const sent = await EmailService.sendEmail(req.storage, to, subject, text, html, cc, bcc, attachments, accountId);
+      res.json({ message: 'Email sent successfully', email: sent });
     } catch (error) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ message: 'Invalid attachments', errors: error.errors });
+        return;
+      }
       console.error('Error sending email:', error);
       res.status(500).json({ message: 'Failed to send email' });
     }
@@ -217,8 +945,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
   app.post("/api/emails/:id/archive", async (req, res) => {
     try {
-      const email = await storage.updateEmail(Number(req.params.id), { folder: 'ARCHIVED' });
-      await EmailService.archiveEmail(email.messageId);
+      const email = await req.storage.updateEmail(Number(req.params.id), { folder: 'ARCHIVED' });
+      await EmailService.archiveEmail(req.storage, email);
       res.json(email);
     } catch (error) {
       console.error('Error archiving email:', error);
@@ -229,8 +957,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
   app.post("/api/emails/:id/move", async (req, res) => {
     try {
       const { folder } = req.body;
-      const email = await storage.updateEmail(Number(req.params.id), { folder });
-      await EmailService.moveEmailToFolder(email.messageId, folder);
+      const email = await req.storage.updateEmail(Number(req.params.id), { folder });
+      await EmailService.moveEmailToFolder(req.storage, email, folder);
       res.json(email);
     } catch (error) {
       console.error('Error moving email:', error);
@@ -240,27 +968,29 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
   app.post("/api/emails/:id/reply", async (req, res) => {
     try {
-      const emails = await storage.getEmails();
+      const emails = await req.storage.getEmails();
       const email = emails.find(e => e.id === Number(req.params.id));
       if (!email) {
         res.status(404).json({ message: 'Email not found' });
         return;
       }
 
-      const { text, html, attachments } = req.body;
-      await EmailService.replyToEmail(
-        {
-          sender: email.sender,
-          subject: email.subject,
-          messageId: email.messageId
-        },
+      const { text, html } = req.body;
+      const attachments = await ownAttachments(req.storage, outgoingAttachmentsSchema.parse(req.body.attachments));
+      const sent = await EmailService.replyToEmail(
+        req.storage,
+        email,
         text,
         html,
         attachments
       );
 
-      res.json({ message: 'Reply sent successfully' });
+      res.json({ message: 'Reply sent successfully', email: sent });
     } catch (error) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ message: 'Invalid attachments', errors: error.errors });
+        return;
+      }
       console.error('Error replying to email:', error);
       res.status(500).json({ message: 'Failed to send reply' });
     }
@@ -268,36 +998,271 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
   app.post("/api/emails/:id/forward", async (req, res) => {
     try {
-      const emails = await storage.getEmails();
+      const emails = await req.storage.getEmails();
       const email = emails.find(e => e.id === Number(req.params.id));
       if (!email) {
         res.status(404).json({ message: 'Email not found' });
         return;
       }
 
-      const { to, additionalText, attachments } = req.body;
-      await EmailService.forwardEmail(
-        {
-          subject: email.subject,
-          content: email.content,
-          sender: email.sender
-        },
+      const { to, additionalText } = req.body;
+      const attachments = await ownAttachments(req.storage, outgoingAttachmentsSchema.parse(req.body.attachments));
+      const sent = await EmailService.forwardEmail(
+        req.storage,
+        email,
         to,
         additionalText,
         attachments
       );
 
-      res.json({ message: 'Email forwarded successfully' });
+      res.json({ message: 'Email forwarded successfully', email: sent });
     } catch (error) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ message: 'Invalid attachments', errors: error.errors });
+        return;
+      }
       console.error('Error forwarding email:', error);
       res.status(500).json({ message: 'Failed to forward email' });
     }
   });
 
+  // Drafts
+  app.get("/api/drafts", async (req, res) => {
+    try {
+      const drafts = await req.storage.getEmailDrafts();
+      res.json(drafts);
+    } catch (error) {
+      console.error('Error fetching drafts:', error);
+      res.status(500).json({ message: 'Failed to fetch drafts' });
+    }
+  });
+
+  app.get("/api/drafts/:key", async (req, res) => {
+    try {
+      const draft = await req.storage.getEmailDraft(req.params.key);
+      if (!draft) {
+        res.status(404).json({ message: 'Draft not found' });
+        return;
+      }
+      res.json(draft);
+    } catch (error) {
+      console.error('Error fetching draft:', error);
+      res.status(500).json({ message: 'Failed to fetch draft' });
+    }
+  });
+
+  app.put("/api/drafts/:key", async (req, res) => {
+    try {
+      const draft = insertEmailDraftSchema.parse(req.body);
+      const referenceError = await getReferenceError(req.storage, draft);
+      if (referenceError) {
+        res.status(400).json({ message: referenceError });
+        return;
+      }
+      draft.attachments = await ownAttachments(req.storage, draft.attachments);
+      const saved = await req.storage.saveEmailDraft(req.params.key, draft);
+      res.json(saved);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ message: 'Invalid draft data', errors: error.errors });
+        return;
+      }
+      console.error('Error saving draft:', error);
+      res.status(500).json({ message: 'Failed to save draft' });
+    }
+  });
+
+  app.delete("/api/drafts/:key", async (req, res) => {
+    try {
+      await req.storage.deleteEmailDraft(req.params.key);
+      res.sendStatus(204);
+    } catch (error) {
+      console.error('Error deleting draft:', error);
+      res.status(500).json({ message: 'Failed to delete draft' });
+    }
+  });
+
+  // Email Accounts
+  app.get("/api/email-accounts", async (req, res) => {
+    try {
+      const accounts = await req.storage.getEmailAccounts();
+      res.json(accounts.map(toPublicEmailAccount));
+    } catch (error) {
+      console.error('Error fetching email accounts:', error);
+      res.status(500).json({ message: 'Failed to fetch email accounts' });
+    }
+  });
+
+  app.post("/api/email-accounts", async (req, res) => {
+    try {
+      const account = insertEmailAccountSchema.parse(req.body);
+      const created = await req.storage.createEmailAccount(account);
+      res.json(toPublicEmailAccount(created));
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ message: 'Invalid email account data', errors: error.errors });
+        return;
+      }
+      console.error('Error creating email account:', error);
+      res.status(500).json({ message: 'Failed to create email account' });
+    }
+  });
+
+  app.patch("/api/email-accounts/:id", async (req, res) => {
+    try {
+      const updates = updateEmailAccountSchema.parse(req.body);
+      const existing = await req.storage.getEmailAccount(Number(req.params.id));
+      if (!existing) {
+        res.status(404).json({ message: 'Email account not found' });
+        return;
+      }
+      const account = await req.storage.updateEmailAccount(existing.id, updates);
+      res.json(toPublicEmailAccount(account));
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ message: 'Invalid email account data', errors: error.errors });
+        return;
+      }
+      console.error('Error updating email account:', error);
+      res.status(500).json({ message: 'Failed to update email account' });
+    }
+  });
+
+  app.delete("/api/email-accounts/:id", async (req, res) => {
+    try {
+      await req.storage.deleteEmailAccount(Number(req.params.id));
+      res.sendStatus(204);
+    } catch (error) {
+      console.error('Error deleting email account:', error);
+      res.status(500).json({ message: 'Failed to delete email account' });
+    }
+  });
+
+  app.post("/api/email-accounts/:id/test", async (req, res) => {
+    try {
+      const account = await req.storage.getEmailAccount(Number(req.params.id));
+      if (!account) {
+        res.status(404).json({ message: 'Email account not found' });
+        return;
+      }
+      await EmailService.testAccount(await EmailService.getAccount(req.storage, account.id));
+      res.json({ success: true, message: 'Email connection successful' });
+    } catch (error) {
+      console.error('Email account test failed:', error);
+      res.status(500).json({
+        success: false,
+        message: error instanceof Error ? error.message : 'Email connection failed',
+      });
+    }
+  });
+
+  // Inbox processing
+  app.post("/api/inbox/:type/:id/process", async (req, res) => {
+    try {
+      const type = req.params.type as InboxItemTypeValue;
+      if (!Object.values(InboxItemType).includes(type)) {
+        res.status(400).json({ message: `Unknown inbox item type: ${req.params.type}` });
+        return;
+      }
+
+      const result = processingResultSchema.parse(req.body);
+      const id = Number(req.params.id);
+      const referenceError = await getReferenceError(req.storage, result.task);
+      if (referenceError) {
+        res.status(400).json({ message: referenceError });
+        return;
+      }
+      if (result.task) {
+        result.task.attachments = await ownAttachments(req.storage, result.task.attachments);
+      }
+
+      // The delegation email goes out first so a failed send leaves the item
+      // in the inbox; the waiting task then links to the sent message
+      if (result.delegationEmail) {
+        const item = type === InboxItemType.EMAIL ? await req.storage.getEmail(id) : await req.storage.getTask(id);
+        if (!item) {
+          res.status(404).json({ message: 'Inbox item not found' });
+          return;
+        }
+
+        const { to, subject, body, accountId } = result.delegationEmail;
+        // Files only survive on disk when they were stored with a checksum
+        const attachments = (item.attachments || []).filter(attachment => !!attachment.checksum);
+        const sent = await EmailService.sendEmail(
+          req.storage,
+          to,
+          subject,
+          body,
+          undefined,
+          undefined,
+          undefined,
+          attachments,
+          accountId ?? ('accountId' in item ? item.accountId : undefined)
+        );
+        result.task = { ...result.task, delegationEmailId: sent.id };
+      }
+
+      const outcome = await req.storage.processInboxItem(type, id, result);
+      if (!outcome) {
+        res.status(404).json({ message: 'Inbox item not found' });
+        return;
+      }
+
+      // Remember the address the delegate was emailed at
+      if (result.delegationEmail && outcome.task?.waitingForId) {
+        await req.storage.addPersonEmail(outcome.task.waitingForId, result.delegationEmail.to);
+      }
+
+      // IMAP flags live outside the database transaction, so a failure here
+      // must not undo an already committed processing decision
+      if (outcome.email?.processed) {
+        for (const email of [outcome.email, ...(outcome.threadEmails || [])]) {
+          EmailService.markEmailAsRead(req.storage, email)
+            .catch(err => console.error('Error marking email as read:', err));
+        }
+      }
+
+      res.json(outcome);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ message: 'Invalid processing result', errors: error.errors });
+        return;
+      }
+      console.error('Error processing inbox item:', error);
+      res.status(500).json({ message: 'Failed to process inbox item' });
+    }
+  });
+
+  // Search
+  app.get("/api/search", async (req, res) => {
+    try {
+      const searchQuerySchema = z.object({
+        q: z.string().trim().max(200).default(""),
+        limit: z.coerce.number().int().min(1).max(100).optional(),
+      });
+
+      const { q, limit } = searchQuerySchema.parse(req.query);
+      if (!q) {
+        res.json([]);
+        return;
+      }
+
+      const results = await req.storage.search(q, limit);
+      res.json(results);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ message: 'Invalid search query', errors: error.errors });
+        return;
+      }
+      console.error('Error searching:', error);
+      res.status(500).json({ message: 'Failed to search' });
+    }
+  });
+
   // Google Calendar
   app.get("/api/calendar/status", async (req, res) => {
     try {
-      const status = await GoogleCalendarService.checkConnection();
+      const status = await GoogleCalendarService.checkConnection(req.storage);
       res.json(status);
     } catch (error) {
       console.error('Error checking calendar connection:', error);
@@ -307,7 +1272,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
   app.get("/api/calendar/events", async (req, res) => {
     try {
-      const events = await GoogleCalendarService.listUpcomingEvents(20);
+      const events = await GoogleCalendarService.listUpcomingEvents(req.storage, 20);
       res.json(events);
     } catch (error) {
       console.error('Error fetching calendar events:', error);
@@ -317,7 +1282,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
   app.get("/api/calendar/calendars", async (req, res) => {
     try {
-      const calendars = await GoogleCalendarService.listCalendars();
+      const calendars = await GoogleCalendarService.listCalendars(req.storage);
       res.json(calendars);
     } catch (error) {
       console.error('Error fetching calendars:', error);
@@ -353,7 +1318,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
       });
 
       const validatedEvent = calendarEventSchema.parse(req.body);
-      const event = await GoogleCalendarService.createEvent(validatedEvent as any);
+      const event = await GoogleCalendarService.createEvent(req.storage, validatedEvent as any);
       res.json(event);
     } catch (error) {
       if (error instanceof z.ZodError) {
@@ -368,7 +1333,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   // Weekly Reviews
   app.get("/api/weekly-reviews", async (req, res) => {
     try {
-      const reviews = await storage.getWeeklyReviews();
+      const reviews = await req.storage.getWeeklyReviews();
       res.json(reviews);
     } catch (error) {
       console.error('Error fetching weekly reviews:', error);
@@ -378,7 +1343,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
   app.get("/api/weekly-reviews/latest", async (req, res) => {
     try {
-      const review = await storage.getLatestWeeklyReview();
+      const review = await req.storage.getLatestWeeklyReview();
       res.json(review || null);
     } catch (error) {
       console.error('Error fetching latest weekly review:', error);
@@ -389,7 +1354,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   app.post("/api/weekly-reviews", async (req, res) => {
     try {
       const review = insertWeeklyReviewSchema.parse(req.body);
-      const created = await storage.createWeeklyReview(review);
+      const created = await req.storage.createWeeklyReview(review);
       res.json(created);
     } catch (error) {
       console.error('Error creating weekly review:', error);
@@ -397,21 +1362,55 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Personal API tokens. Only a browser session can list, create or revoke them.
+  app.get("/api/tokens", rejectApiToken, async (req, res) => {
+    try {
+      const tokens = await req.storage.getApiTokens();
+      res.json(tokens);
+    } catch (error) {
+      console.error('Error fetching API tokens:', error);
+      res.status(500).json({ message: 'Failed to fetch API tokens' });
+    }
+  });
+
+  // The token itself is in this response only; afterwards just its hash is kept
+  app.post("/api/tokens", rejectApiToken, async (req, res) => {
+    try {
+      const data = insertApiTokenSchema.parse(req.body);
+      const { token, tokenHash, tokenPrefix } = generateApiToken();
+      const created = await req.storage.createApiToken(data, tokenHash, tokenPrefix);
+      res.status(201).json({ ...created, token });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ message: 'Invalid API token data', errors: error.errors });
+        return;
+      }
+      console.error('Error creating API token:', error);
+      res.status(500).json({ message: 'Failed to create API token' });
+    }
+  });
+
+  app.delete("/api/tokens/:id", rejectApiToken, async (req, res) => {
+    try {
+      await req.storage.deleteApiToken(Number(req.params.id));
+      res.sendStatus(204);
+    } catch (error) {
+      console.error('Error revoking API token:', error);
+      res.status(500).json({ message: 'Failed to revoke API token' });
+    }
+  });
+
   // Integration Status
   app.get("/api/integrations/status", async (req, res) => {
     try {
-      // Check email configuration
-      const emailConfigured = !!(
-        process.env.EMAIL_ADDRESS &&
-        process.env.EMAIL_PASSWORD &&
-        process.env.IMAP_HOST &&
-        process.env.SMTP_HOST
-      );
+      // Check email configuration (accounts from Settings, else environment variables)
+      const emailAccounts = await EmailService.getAccounts(req.storage);
+      const emailConfigured = emailAccounts.length > 0;
 
       // Check Google Calendar connection
       let calendarConnected = false;
       try {
-        const calendar = await GoogleCalendarService.getCalendarClient();
+        const calendar = await GoogleCalendarService.getCalendarClient(req.storage);
         if (calendar) {
           calendarConnected = true;
         }
@@ -422,7 +1421,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
       res.json({
         email: {
           configured: emailConfigured,
-          address: emailConfigured ? process.env.EMAIL_ADDRESS : null,
+          address: emailConfigured ? emailAccounts[0].email : null,
+          accountCount: emailAccounts.length,
         },
         calendar: {
           connected: calendarConnected,
@@ -438,8 +1438,12 @@ export async function registerRoutes(app: Express): Promise<Server> {
   // Test email connection
   app.post("/api/integrations/email/test", async (req, res) => {
     try {
-      // Test by fetching emails (which tests IMAP connection)
-      await EmailService.fetchEmails();
+      // Test the IMAP and SMTP settings of every configured account
+      const accounts = await EmailService.getAccounts(req.storage);
+      if (accounts.length === 0) {
+        throw new Error('No email account configured');
+      }
+      await Promise.all(accounts.map(account => EmailService.testAccount(account)));
       res.json({ success: true, message: 'Email connection successful' });
     } catch (error) {
       console.error('Email connection test failed:', error);
@@ -450,7 +1454,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   // Test calendar connection
   app.post("/api/integrations/calendar/test", async (req, res) => {
     try {
-      const events = await GoogleCalendarService.getUpcomingEvents(1);
+      const events = await GoogleCalendarService.getUpcomingEvents(req.storage, 1);
       res.json({ success: true, message: 'Calendar connection successful', eventCount: events.length });
     } catch (error) {
       console.error('Calendar connection test failed:', error);
@@ -0,0 +1,62 @@
+import { AgendaKind, TaskStatus, type Agenda, type Person, type UpcomingAgenda } from '@shared/schema';
+import { type IStorage } from '../storage';
+import { listUpcomingEvents } from './google-calendar';
+
+type CalendarEvent = Awaited<ReturnType<typeof listUpcomingEvents>>[number];
+
+const CLOSED_STATUSES: string[] = [TaskStatus.DONE, TaskStatus.TRASH];
+
+// A person agenda comes up when they're invited to the event; a meeting
+// agenda when the event's title contains the meeting's title
+function matchesAgenda(event: CalendarEvent, agenda: Agenda, person: Person | undefined): boolean {
+  if (agenda.kind === AgendaKind.PERSON) {
+    if (!person || person.emails.length === 0) return false;
+    return (event.attendees || []).some(attendee =>
+      !!attendee.email && person.emails.includes(attendee.email.toLowerCase())
+    );
+  }
+
+  const title = agenda.meetingTitle?.trim().toLowerCase();
+  return !!title && !!event.summary?.toLowerCase().includes(title);
+}
+
+// Agendas with open items, each paired with the next calendar event for its
+// person or meeting. Without a connected calendar nothing is upcoming.
+export async function getUpcomingAgendas(storage: IStorage): Promise<UpcomingAgenda[]> {
+  const [agendas, people, tasks] = await Promise.all([
+    storage.getAgendas(),
+    storage.getPeople(),
+    storage.getTasks(),
+  ]);
+
+  const openItems = (agendaId: number) => tasks.filter(task =>
+    task.agendaId === agendaId && !CLOSED_STATUSES.includes(task.status)
+  );
+  const withItems = agendas.filter(agenda => openItems(agenda.id).length > 0);
+  if (withItems.length === 0) return [];
+
+  let events: CalendarEvent[];
+  try {
+    events = await listUpcomingEvents(storage);
+  } catch {
+    return [];
+  }
+
+  // Events are sorted by start time, so the first match is the next one
+  return withItems.flatMap(agenda => {
+    const person = people.find(p => p.id === agenda.personId);
+    const event = events.find(e => matchesAgenda(e, agenda, person));
+    if (!event) return [];
+
+    return [{
+      agenda,
+      event: {
+        id: event.id ?? null,
+        summary: event.summary ?? null,
+        start: event.start?.dateTime || event.start?.date || null,
+        htmlLink: event.htmlLink ?? null,
+      },
+      tasks: openItems(agenda.id),
+    }];
+  }).sort((a, b) => (a.event.start || '').localeCompare(b.event.start || ''));
+}
@@ -0,0 +1,85 @@
+import { createHash } from 'crypto';
+import { promises as fs } from 'fs';
+import path from 'path';
+import {
+  type AttachmentMeta,
+  INLINE_ATTACHMENT_TYPES,
+  BLOCKED_ATTACHMENT_EXTENSIONS,
+  BLOCKED_ATTACHMENT_TYPES,
+} from '@shared/schema';
+
+// Attachment bytes are stored once per distinct content, named by their
+// SHA-256 checksum and fanned out by the first two hex digits
+const ATTACHMENT_DIR = path.resolve(process.env.ATTACHMENT_DIR || 'data/attachments');
+
+const CHECKSUM_PATTERN = /^[a-f0-9]{64}$/;
+
+export function getAttachmentPath(checksum: string): string {
+  if (!CHECKSUM_PATTERN.test(checksum)) {
+    throw new Error(`Invalid attachment checksum: ${checksum}`);
+  }
+  return path.join(ATTACHMENT_DIR, checksum.slice(0, 2), checksum);
+}
+
+export function canPreviewInline(attachment: AttachmentMeta): boolean {
+  return INLINE_ATTACHMENT_TYPES.includes(attachment.contentType.toLowerCase());
+}
+
+// Writes the content unless an identical file is already stored and returns its metadata
+export async function saveAttachment(
+  content: Buffer,
+  details: { filename?: string | null; contentType?: string | null; contentId?: string | null }
+): Promise<AttachmentMeta> {
+  const checksum = createHash('sha256').update(content).digest('hex');
+  const filePath = getAttachmentPath(checksum);
+
+  try {
+    await fs.access(filePath);
+  } catch {
+    await fs.mkdir(path.dirname(filePath), { recursive: true });
+    // Write then rename so a crash never leaves a truncated file under the final name
+    const tempPath = `${filePath}.${process.pid}.tmp`;
+    await fs.writeFile(tempPath, content);
+    await fs.rename(tempPath, filePath);
+  }
+
+  return {
+    filename: details.filename || null,
+    contentType: details.contentType || 'application/octet-stream',
+    size: content.length,
+    checksum,
+    contentId: details.contentId || null,
+  };
+}
+
+export async function attachmentExists(checksum: string): Promise<boolean> {
+  try {
+    await fs.access(getAttachmentPath(checksum));
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+// Executables and scripts are refused by most mail servers, so reject them on upload
+export function isBlockedAttachment(filename: string, contentType: string): boolean {
+  const extension = path.extname(filename).slice(1).toLowerCase();
+  return BLOCKED_ATTACHMENT_EXTENSIONS.includes(extension)
+    || BLOCKED_ATTACHMENT_TYPES.includes(contentType.toLowerCase());
+}
+
+// Nodemailer attachment options reading the stored files from disk
+export async function toMailAttachments(attachments: AttachmentMeta[]) {
+  for (const attachment of attachments) {
+    if (!(await attachmentExists(attachment.checksum))) {
+      throw new Error(`Attachment ${attachment.filename || attachment.checksum} is no longer stored`);
+    }
+  }
+
+  return attachments.map(attachment => ({
+    filename: attachment.filename || undefined,
+    path: getAttachmentPath(attachment.checksum),
+    contentType: attachment.contentType,
+    cid: attachment.contentId || undefined,
+  }));
+}
@@ -0,0 +1,64 @@
+import { createHash } from 'crypto';
+import { TaskStatus, type Capture, type Task } from '@shared/schema';
+import { type IStorage } from '../storage';
+
+// Launchers on flaky networks retry when a response is slow to arrive, so a
+// capture repeated within this window returns the task already created
+const DEDUPE_WINDOW_MS = 2 * 60 * 1000;
+
+// Captures seen recently, keyed by user and content. The task is kept as a
+// promise so a retry that arrives while the first request is still saving
+// waits for it instead of creating a second task.
+const recent = new Map<string, { task: Promise<Task>; expiresAt: number }>();
+
+function dedupeKey(userId: number, capture: Capture): string {
+  const content = [capture.title, capture.notes ?? '', capture.url ?? ''].join('\n').toLowerCase();
+  return `${userId}:${createHash('sha256').update(content).digest('hex')}`;
+}
+
+function pruneExpired(now: number) {
+  for (const [key, entry] of Array.from(recent.entries())) {
+    if (entry.expiresAt <= now) recent.delete(key);
+  }
+}
+
+// A plain-text capture: the first non-blank line is the title and anything
+// after it the notes
+export function parsePlainTextCapture(text: string): Partial<Capture> {
+  const lines = text.replace(/\r\n?/g, '\n').split('\n');
+  const first = lines.findIndex(line => line.trim() !== '');
+  if (first === -1) return {};
+  return {
+    title: lines[first].trim(),
+    notes: lines.slice(first + 1).join('\n').trim() || undefined,
+  };
+}
+
+// Adds a captured item to the inbox. The URL goes in the description, where
+// it shows when the item is processed.
+export async function captureToInbox(storage: IStorage, capture: Capture): Promise<{ task: Task; duplicate: boolean }> {
+  const now = Date.now();
+  pruneExpired(now);
+
+  const key = dedupeKey(storage.userId, capture);
+  const existing = recent.get(key);
+  if (existing) {
+    return { task: await existing.task, duplicate: true };
+  }
+
+  const task = storage.createTask({
+    title: capture.title,
+    description: capture.url ?? null,
+    notes: capture.notes ?? null,
+    status: TaskStatus.INBOX,
+  });
+  recent.set(key, { task, expiresAt: now + DEDUPE_WINDOW_MS });
+
+  try {
+    return { task: await task, duplicate: false };
+  } catch (error) {
+    // Let the retry try again rather than replaying the failure
+    recent.delete(key);
+    throw error;
+  }
+}
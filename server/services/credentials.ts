@@ -0,0 +1,32 @@
+import { createCipheriv, createDecipheriv, createHash, randomBytes } from 'crypto';
+
+// Mailbox passwords are stored encrypted with AES-256-GCM under a key derived
+// from EMAIL_ENCRYPTION_KEY, as `enc:v1:<iv>:<auth tag>:<ciphertext>` in base64
+const ENCRYPTED_PREFIX = 'enc:v1:';
+
+function getKey(): Buffer {
+  const secret = process.env.EMAIL_ENCRYPTION_KEY;
+  if (!secret) {
+    throw new Error(
+      "EMAIL_ENCRYPTION_KEY environment variable is not set. Please add it to your environment."
+    );
+  }
+  return createHash('sha256').update(secret).digest();
+}
+
+export function encryptSecret(plaintext: string): string {
+  const iv = randomBytes(12);
+  const cipher = createCipheriv('aes-256-gcm', getKey(), iv);
+  const ciphertext = Buffer.concat([cipher.update(plaintext, 'utf8'), cipher.final()]);
+  return ENCRYPTED_PREFIX + [iv, cipher.getAuthTag(), ciphertext].map(part => part.toString('base64')).join(':');
+}
+
+// Passwords saved before encryption was added come back as they are
+export function decryptSecret(stored: string): string {
+  if (!stored.startsWith(ENCRYPTED_PREFIX)) return stored;
+
+  const [iv, tag, ciphertext] = stored.slice(ENCRYPTED_PREFIX.length).split(':').map(part => Buffer.from(part, 'base64'));
+  const decipher = createDecipheriv('aes-256-gcm', getKey(), iv);
+  decipher.setAuthTag(tag);
+  return Buffer.concat([decipher.update(ciphertext), decipher.final()]).toString('utf8');
+}
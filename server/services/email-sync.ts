@@ -0,0 +1,98 @@
+import { type EmailSyncStatus } from '@shared/schema';
+import { storageFor, userStorage, type IStorage } from '../storage';
+import { EmailService } from './email';
+
+// How often every configured mailbox is checked for new messages
+const EMAIL_SYNC_INTERVAL_MS = 5 * 60 * 1000;
+
+export class EmailSyncService {
+  private static timer: NodeJS.Timeout | null = null;
+  private static intervalMs = EMAIL_SYNC_INTERVAL_MS;
+  // Runs in progress, last run and its failures by user, so nobody sees or
+  // triggers another user's mailboxes
+  private static inFlight = new Map<number, Promise<void>>();
+  private static lastRunAt = new Map<number, Date>();
+  private static lastErrors = new Map<number, string>();
+
+  // Syncs one user's accounts. Concurrent callers share the run in progress.
+  static syncUser(storage: IStorage): Promise<void> {
+    let run = this.inFlight.get(storage.userId);
+    if (!run) {
+      run = this.runSync(storage).finally(() => {
+        this.inFlight.delete(storage.userId);
+      });
+      this.inFlight.set(storage.userId, run);
+    }
+    return run;
+  }
+
+  static async syncAll(): Promise<void> {
+    for (const user of await userStorage.getUsers()) {
+      await this.syncUser(storageFor(user.id))
+        .catch(err => console.error(`Email sync error for user ${user.id}:`, err));
+    }
+  }
+
+  private static async runSync(storage: IStorage) {
+    const accounts = await EmailService.getAccounts(storage);
+    const results = await Promise.allSettled(
+      accounts.map(account => EmailService.syncAccount(storage, account))
+    );
+
+    const errors = results.flatMap((result, i) => {
+      if (result.status === 'fulfilled') return [];
+      console.error(`Error syncing ${accounts[i].email}:`, result.reason);
+      const message = result.reason instanceof Error ? result.reason.message : String(result.reason);
+      return [`${accounts[i].email}: ${message}`];
+    });
+
+    this.lastRunAt.set(storage.userId, new Date());
+    if (errors.length > 0) {
+      this.lastErrors.set(storage.userId, errors.join('; '));
+    } else {
+      this.lastErrors.delete(storage.userId);
+    }
+  }
+
+  static async getStatus(storage: IStorage): Promise<EmailSyncStatus> {
+    const [accounts, states] = await Promise.all([
+      EmailService.getAccounts(storage),
+      storage.getEmailSyncStates(),
+    ]);
+
+    const lastRunAt = this.lastRunAt.get(storage.userId);
+    const mailboxes = states.flatMap(state => {
+      const account = accounts.find(a => a.id === state.accountId);
+      return account ? [{ ...state, email: account.email }] : [];
+    });
+
+    return {
+      running: this.inFlight.has(storage.userId),
+      lastRunAt: lastRunAt ?? null,
+      nextRunAt: this.timer && lastRunAt
+        ? new Date(lastRunAt.getTime() + this.intervalMs)
+        : null,
+      lastError: this.lastErrors.get(storage.userId) ?? null,
+      mailboxes,
+    };
+  }
+
+  static start(intervalMs: number = EMAIL_SYNC_INTERVAL_MS) {
+    if (this.timer) return;
+    this.intervalMs = intervalMs;
+
+    const run = () => {
+      this.syncAll().catch(err => console.error('Email sync error:', err));
+    };
+
+    run();
+    this.timer = setInterval(run, intervalMs);
+  }
+
+  static stop() {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+}
@@ -1,8 +1,15 @@
 import * as ImapSimple from 'imap-simple';
 import { simpleParser, AddressObject } from 'mailparser';
 import nodemailer from 'nodemailer';
-import { type InsertEmail, EmailFolder } from '@shared/schema';
-import { storage } from '../storage';
+import type Imap from 'imap';
+import type Mail from 'nodemailer/lib/mailer';
+import MailComposer from 'nodemailer/lib/mail-composer';
+import { randomUUID } from 'crypto';
+import { subDays } from 'date-fns';
+import { type InsertEmail, type Email, type EmailAccount, type AttachmentMeta, EmailFolder } from '@shared/schema';
+import { userStorage, type IStorage } from '../storage';
+import { saveAttachment, toMailAttachments } from './attachment-store';
+import { decryptSecret } from './credentials';
 
 // Helper to extract text from address object
 function getAddressText(addr: AddressObject | AddressObject[] | undefined): string {
@@ -11,43 +18,244 @@ function getAddressText(addr: AddressObject | AddressObject[] | undefined): stri
   return addr.text || '';
 }
 
+function sameFlags(stored: unknown, current: string[]): boolean {
+  if (!Array.isArray(stored)) return current.length === 0;
+  return JSON.stringify([...stored].sort()) === JSON.stringify([...current].sort());
+}
+
+function toAddressList(addresses: string | string[] | undefined): string[] {
+  return ([] as string[]).concat(addresses || [])
+    .flatMap(address => address.split(','))
+    .map(address => address.trim())
+    .filter(Boolean);
+}
+
+// Prefers the mailbox the server flags as \Sent (RFC 6154), then common names
+function findSpecialUseMailbox(boxes: Imap.MailBoxes, attrib: string, path = ''): string | null {
+  for (const [name, box] of Object.entries(boxes)) {
+    const fullName = path + name;
+    if (box.attribs?.includes(attrib)) return fullName;
+    if (box.children) {
+      const child = findSpecialUseMailbox(box.children, attrib, fullName + box.delimiter);
+      if (child) return child;
+    }
+  }
+  return null;
+}
+
+function findSentMailbox(boxes: Imap.MailBoxes): string {
+  const flagged = findSpecialUseMailbox(boxes, '\\Sent');
+  if (flagged) return flagged;
+  const byName = Object.keys(boxes).find(name => /^sent( items| mail| messages)?$/i.test(name));
+  return byName || 'Sent';
+}
+
+// mailparser yields a single string or a list, and a string may hold several ids
+function parseReferences(references: string | string[] | undefined): string[] {
+  return ([] as string[]).concat(references || [])
+    .flatMap(reference => reference.split(/\s+/))
+    .filter(Boolean);
+}
+
+async function parseMessage(
+  message: ImapSimple.Message,
+  accountId: number | null,
+  folder: string
+): Promise<InsertEmail | null> {
+  const allParts = message.parts.filter((part: any) => part.which === '');
+  const bodyPart = allParts.length > 0 ? allParts[0] : message.parts[0];
+
+  if (!bodyPart || !bodyPart.body) {
+    return null;
+  }
+
+  const parsed = await simpleParser(bodyPart.body);
+
+  const fromText = getAddressText(parsed.from);
+  const toText = getAddressText(parsed.to);
+  const ccText = getAddressText(parsed.cc);
+  const bccText = getAddressText(parsed.bcc);
+
+  return {
+    accountId,
+    messageId: message.attributes.uid.toString(),
+    subject: parsed.subject || 'No Subject',
+    sender: fromText || 'Unknown Sender',
+    recipients: toText ? [toText] : [],
+    cc: ccText ? [ccText] : [],
+    bcc: bccText ? [bccText] : [],
+    content: parsed.text || '',
+    htmlContent: parsed.html || null,
+    folder,
+    processed: false,
+    flags: message.attributes.flags || [],
+    receivedAt: parsed.date || new Date(),
+    internetMessageId: parsed.messageId || null,
+    inReplyTo: parsed.inReplyTo || null,
+    references: parseReferences(parsed.references),
+    attachments: await Promise.all(
+      parsed.attachments.map(attachment => saveAttachment(attachment.content, {
+        filename: attachment.filename,
+        contentType: attachment.contentType,
+        contentId: attachment.cid,
+      }))
+    )
+  };
+}
+
+// Mailboxes mirrored into the emails table, by IMAP name and local folder
+const SYNC_MAILBOXES = [
+  { mailbox: 'INBOX', folder: EmailFolder.INBOX },
+];
+
+// How far back the first sync of a mailbox reaches (also used after a UIDVALIDITY reset)
+const INITIAL_SYNC_DAYS = 14;
+
+// Messages downloaded per FETCH so a large backlog isn't held in memory at once
+const FETCH_BATCH_SIZE = 25;
+
+export interface MailboxSyncResult {
+  accountId: number | null;
+  mailbox: string;
+  fetched: number;
+  updated: number;
+  deleted: number;
+}
+
+// Connection settings for one mailbox. Accounts stored in email_accounts
+// have an id; the legacy account configured through environment variables
+// has a null id, which is also what its emails carry as accountId. That
+// account belongs to the owner, the first user to register.
+export interface MailAccount {
+  id: number | null;
+  email: string;
+  name: string;
+  user: string;
+  password: string;
+  imapHost: string;
+  imapPort: number;
+  smtpHost: string;
+  smtpPort: number;
+  useSSL: boolean;
+}
+
+// The account an email belongs to
+export type EmailRef = Pick<Email, 'messageId' | 'accountId'>;
+
 // Email configuration
-function getImapConfig(): ImapSimple.ImapSimpleOptions {
-  const user = process.env.EMAIL_ADDRESS?.trim();
+function getEnvAccount(): MailAccount | null {
+  const email = process.env.EMAIL_ADDRESS?.trim();
   const password = process.env.EMAIL_PASSWORD?.trim();
-  const host = process.env.IMAP_HOST?.trim();
+  const imapHost = process.env.IMAP_HOST?.trim();
 
-  if (!user || !password || !host) {
-    throw new Error('Email configuration missing: EMAIL_ADDRESS, EMAIL_PASSWORD, and IMAP_HOST are required');
+  if (!email || !password || !imapHost) {
+    return null;
   }
 
+  return {
+    id: null,
+    email,
+    name: email,
+    user: email,
+    password,
+    imapHost,
+    imapPort: parseInt(process.env.IMAP_PORT || '993'),
+    smtpHost: process.env.SMTP_HOST?.trim() || '',
+    smtpPort: parseInt(process.env.SMTP_PORT || '587'),
+    useSSL: true,
+  };
+}
+
+async function getEnvAccountFor(storage: IStorage): Promise<MailAccount | null> {
+  const envAccount = getEnvAccount();
+  if (!envAccount) return null;
+  const owner = await userStorage.getOwner();
+  return owner?.id === storage.userId ? envAccount : null;
+}
+
+function toMailAccount(account: EmailAccount): MailAccount {
+  return {
+    id: account.id,
+    email: account.email,
+    name: account.name,
+    user: account.username || account.email,
+    password: decryptSecret(account.password),
+    imapHost: account.imapHost,
+    imapPort: account.imapPort,
+    smtpHost: account.smtpHost,
+    smtpPort: account.smtpPort,
+    useSSL: account.useSSL,
+  };
+}
+
+function getImapConfig(account: MailAccount): ImapSimple.ImapSimpleOptions {
   return {
     imap: {
-      user,
-      password,
-      host,
-      port: parseInt(process.env.IMAP_PORT || '993'),
-      tls: true,
+      user: account.user,
+      password: account.password,
+      host: account.imapHost,
+      port: account.imapPort,
+      tls: account.useSSL,
       tlsOptions: { rejectUnauthorized: false }
     }
   };
 }
 
-const transporter = nodemailer.createTransport({
-  host: process.env.SMTP_HOST?.trim(),
-  port: parseInt(process.env.SMTP_PORT || '587'),
-  secure: false,
-  auth: {
-    user: process.env.EMAIL_ADDRESS?.trim(),
-    pass: process.env.EMAIL_PASSWORD?.trim(),
-  },
-});
+function createTransporter(account: MailAccount) {
+  return nodemailer.createTransport({
+    host: account.smtpHost,
+    port: account.smtpPort,
+    // Port 465 is implicit TLS; other ports upgrade with STARTTLS
+    secure: account.smtpPort === 465,
+    auth: {
+      user: account.user,
+      pass: account.password,
+    },
+  });
+}
 
 export class EmailService {
+  // The user's configured accounts, falling back to the environment account
+  // when the owner hasn't added any in Settings
+  static async getAccounts(storage: IStorage): Promise<MailAccount[]> {
+    const accounts = await storage.getEmailAccounts();
+    if (accounts.length > 0) {
+      return accounts.map(toMailAccount);
+    }
+    const envAccount = await getEnvAccountFor(storage);
+    return envAccount ? [envAccount] : [];
+  }
+
+  static async getAccount(storage: IStorage, accountId: number | null): Promise<MailAccount> {
+    if (accountId === null) {
+      const envAccount = await getEnvAccountFor(storage);
+      if (!envAccount) {
+        throw new Error('Email configuration missing: EMAIL_ADDRESS, EMAIL_PASSWORD, and IMAP_HOST are required');
+      }
+      return envAccount;
+    }
+
+    const account = await storage.getEmailAccount(accountId);
+    if (!account) {
+      throw new Error(`Email account ${accountId} not found`);
+    }
+    return toMailAccount(account);
+  }
+
+  // The account new messages are sent from: the one marked default, else the first
+  static async getDefaultAccount(storage: IStorage): Promise<MailAccount> {
+    const [account] = await this.getAccounts(storage);
+    if (!account) {
+      throw new Error('No email account configured');
+    }
+    return account;
+  }
+
   private static async withConnection<T>(
+    account: MailAccount,
     operation: (connection: ImapSimple.ImapSimple) => Promise<T>
   ): Promise<T> {
-    const config = getImapConfig();
+    const config = getImapConfig(account);
     const connection = await ImapSimple.connect(config);
     try {
       return await operation(connection);
@@ -60,128 +268,261 @@ export class EmailService {
     }
   }
 
-  static async fetchEmails(): Promise<InsertEmail[]> {
-    console.log('Connecting to email server...');
-    const imapConfig = getImapConfig();
-    console.log('IMAP Config:', {
-      host: imapConfig.imap.host,
-      port: imapConfig.imap.port,
-      user: imapConfig.imap.user,
-    });
-
-    return this.withConnection(async (connection) => {
-      console.log('Connected to email server');
+  // Mirrors new messages, flag changes and deletions for every synced mailbox
+  // of an account. Progress is recorded per mailbox so each run only
+  // downloads messages above the last seen UID.
+  static async syncAccount(storage: IStorage, account: MailAccount): Promise<MailboxSyncResult[]> {
+    try {
+      return await this.withConnection(account, async (connection) => {
+        const results: MailboxSyncResult[] = [];
+        for (const target of SYNC_MAILBOXES) {
+          results.push(await this.syncMailbox(storage, connection, account, target.mailbox, target.folder));
+        }
+        return results;
+      });
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      for (const target of SYNC_MAILBOXES) {
+        await storage.saveEmailSyncState({ accountId: account.id, mailbox: target.mailbox, lastError: message });
+      }
+      throw error;
+    }
+  }
 
-      await connection.openBox('INBOX');
-      console.log('Opened INBOX');
+  private static async syncMailbox(
+    storage: IStorage,
+    connection: ImapSimple.ImapSimple,
+    account: MailAccount,
+    mailbox: string,
+    folder: string
+  ): Promise<MailboxSyncResult> {
+    // imap-simple resolves the node-imap Box even though its typings say string
+    const box = await connection.openBox(mailbox) as unknown as Imap.Box;
+    const state = await storage.getEmailSyncState(account.id, mailbox);
+    let lastUid = state?.lastUid ?? 0;
+
+    if (state?.uidValidity != null && state.uidValidity !== box.uidvalidity) {
+      console.log(`UIDVALIDITY changed for ${account.email}/${mailbox}, resyncing`);
+      await storage.resetEmailFolder(account.id, folder);
+      lastUid = 0;
+    }
 
-      const searchCriteria = ['UNSEEN'];
-      const fetchOptions = {
+    const { updated, deleted } = lastUid > 0
+      ? await this.reconcileMailbox(storage, connection, account, folder, lastUid)
+      : { updated: 0, deleted: 0 };
+
+    // `n:*` always matches the newest message, even when its UID is below n
+    const criteria = lastUid > 0
+      ? [['UID', `${lastUid + 1}:*`]]
+      : [['SINCE', subDays(new Date(), INITIAL_SYNC_DAYS)]];
+    const found = await connection.search(criteria, { bodies: [] });
+    const newUids = found
+      .map(message => message.attributes.uid)
+      .filter(uid => uid > lastUid)
+      .sort((a, b) => a - b);
+
+    let fetched = 0;
+    for (let i = 0; i < newUids.length; i += FETCH_BATCH_SIZE) {
+      const batch = newUids.slice(i, i + FETCH_BATCH_SIZE);
+      const messages = await connection.search([['UID', batch.join(',')]], {
         bodies: [''],
         struct: true,
         markSeen: false
-      };
-
-      const messages = await connection.search(searchCriteria, fetchOptions);
-      console.log(`Found ${messages.length} unread messages`);
-
-      // Limit to most recent 50 emails
-      const recentMessages = messages.slice(-50).reverse();
-
-      const emails: InsertEmail[] = [];
+      });
 
-      for (const message of recentMessages) {
+      for (const message of messages) {
         try {
-          const allParts = message.parts.filter((part: any) => part.which === '');
-          const bodyPart = allParts.length > 0 ? allParts[0] : message.parts[0];
-
-          if (bodyPart && bodyPart.body) {
-            const parsed = await simpleParser(bodyPart.body);
-
-            const fromText = getAddressText(parsed.from);
-            const toText = getAddressText(parsed.to);
-            const ccText = getAddressText(parsed.cc);
-            const bccText = getAddressText(parsed.bcc);
-
-            const email: InsertEmail = {
-              messageId: message.attributes.uid.toString(),
-              subject: parsed.subject || 'No Subject',
-              sender: fromText || 'Unknown Sender',
-              recipients: toText ? [toText] : [],
-              cc: ccText ? [ccText] : [],
-              bcc: bccText ? [bccText] : [],
-              content: parsed.text || '',
-              htmlContent: parsed.html || null,
-              folder: EmailFolder.INBOX,
-              processed: false,
-              flags: message.attributes.flags || [],
-              receivedAt: parsed.date || new Date(),
-              attachments: parsed.attachments || []
-            };
-
-            emails.push(email);
-            await storage.createEmail(email);
+          const email = await parseMessage(message, account.id, folder);
+          if (email) {
+            const stored = await storage.createEmail(email);
+            const answered = await storage.recordDelegationResponse(stored);
+            for (const task of answered) {
+              console.log(`Response received for delegated task "${task.title}"`);
+            }
+            fetched++;
           }
         } catch (err) {
           console.error('Error parsing email:', err);
         }
       }
+    }
 
-      return emails;
+    // Messages older than the initial window are never fetched, so start
+    // the next run from the mailbox's current end
+    const highestUid = Math.max(
+      lastUid,
+      newUids.length > 0 ? newUids[newUids.length - 1] : 0,
+      box.uidnext ? box.uidnext - 1 : 0
+    );
+
+    await storage.saveEmailSyncState({
+      accountId: account.id,
+      mailbox,
+      uidValidity: box.uidvalidity,
+      lastUid: highestUid,
+      lastSyncedAt: new Date(),
+      lastError: null,
+      fetchedCount: fetched,
+      updatedCount: updated,
+      deletedCount: deleted,
     });
+
+    if (fetched > 0 || updated > 0 || deleted > 0) {
+      console.log(`Synced ${account.email}/${mailbox}: ${fetched} new, ${updated} updated, ${deleted} deleted`);
+    }
+
+    return { accountId: account.id, mailbox, fetched, updated, deleted };
+  }
+
+  // Brings stored flags in line with the server and drops emails expunged
+  // there. Processed emails are kept since tasks may reference them.
+  private static async reconcileMailbox(
+    storage: IStorage,
+    connection: ImapSimple.ImapSimple,
+    account: MailAccount,
+    folder: string,
+    lastUid: number
+  ) {
+    const stored = (await storage.getEmailsInFolder(account.id, folder))
+      .filter(email => /^\d+$/.test(email.messageId));
+    if (stored.length === 0) {
+      return { updated: 0, deleted: 0 };
+    }
+
+    const messages = await connection.search([['UID', `1:${lastUid}`]], { bodies: [] });
+    const serverFlags = new Map(
+      messages.map(message => [message.attributes.uid.toString(), message.attributes.flags])
+    );
+
+    let updated = 0;
+    let deleted = 0;
+    for (const email of stored) {
+      const flags = serverFlags.get(email.messageId);
+      if (!flags) {
+        if (!email.processed) {
+          await storage.deleteEmail(email.id);
+          deleted++;
+        }
+      } else if (!sameFlags(email.flags, flags)) {
+        await storage.updateEmail(email.id, { flags });
+        updated++;
+      }
+    }
+
+    return { updated, deleted };
   }
 
   static async sendEmail(
+    storage: IStorage,
     to: string | string[],
     subject: string,
     text: string,
     html?: string,
     cc?: string | string[],
     bcc?: string | string[],
-    attachments?: any[]
-  ) {
+    attachments?: AttachmentMeta[],
+    accountId?: number | null,
+    threading?: { inReplyTo: string; references: string[] }
+  ): Promise<Email> {
     try {
-      await transporter.sendMail({
-        from: process.env.EMAIL_ADDRESS,
-        to: Array.isArray(to) ? to.join(', ') : to,
-        cc: cc ? (Array.isArray(cc) ? cc.join(', ') : cc) : undefined,
-        bcc: bcc ? (Array.isArray(bcc) ? bcc.join(', ') : bcc) : undefined,
+      const account = accountId === undefined
+        ? await this.getDefaultAccount(storage)
+        : await this.getAccount(storage, accountId);
+
+      // Set our own Message-ID so the Sent copy and later replies can refer to it
+      const domain = account.email.split('@')[1] || 'localhost';
+      const internetMessageId = `<${randomUUID()}@${domain}>`;
+      const toList = toAddressList(to);
+      const ccList = toAddressList(cc);
+      const bccList = toAddressList(bcc);
+
+      const mail: Mail.Options = {
+        from: { name: account.name, address: account.email },
+        to: toList.join(', '),
+        cc: ccList.length > 0 ? ccList.join(', ') : undefined,
+        bcc: bccList.length > 0 ? bccList.join(', ') : undefined,
         subject,
         text,
         html,
-        attachments
+        attachments: attachments ? await toMailAttachments(attachments) : undefined,
+        messageId: internetMessageId,
+        inReplyTo: threading?.inReplyTo,
+        references: threading?.references,
+      };
+
+      await createTransporter(account).sendMail(mail);
+
+      const sent = await storage.createEmail({
+        accountId: account.id,
+        // Sent copies have no IMAP UID of ours, so they are keyed by Message-ID
+        messageId: internetMessageId,
+        subject,
+        sender: `${account.name} <${account.email}>`,
+        recipients: toList,
+        cc: ccList,
+        bcc: bccList,
+        content: text,
+        htmlContent: html || null,
+        folder: EmailFolder.SENT,
+        processed: true,
+        flags: ['\\Seen'],
+        receivedAt: new Date(),
+        attachments: attachments || [],
+        internetMessageId,
+        inReplyTo: threading?.inReplyTo || null,
+        references: threading?.references || null,
       });
+
+      // The message is already delivered, so a failed IMAP copy is only logged
+      this.appendToSentMailbox(account, mail)
+        .catch(err => console.error('Error saving email to Sent mailbox:', err));
+
+      return sent;
     } catch (error) {
       console.error('Error sending email:', error);
       throw error;
     }
   }
 
-  static async markEmailAsRead(messageId: string) {
-    return this.withConnection(async (connection) => {
+  private static async appendToSentMailbox(account: MailAccount, mail: Mail.Options) {
+    // Gmail files SMTP submissions in Sent Mail itself; appending would duplicate them
+    if (/(^|\.)gmail\.com$/i.test(account.smtpHost)) return;
+
+    const raw = await new MailComposer(mail).compile().build();
+    await this.withConnection(account, async (connection) => {
+      const mailbox = findSentMailbox(await connection.getBoxes());
+      await connection.append(raw, { mailbox, flags: ['\\Seen'] });
+    });
+  }
+
+  static async markEmailAsRead(storage: IStorage, email: EmailRef) {
+    const account = await this.getAccount(storage, email.accountId);
+    return this.withConnection(account, async (connection) => {
       await connection.openBox('INBOX');
-      const uid = parseInt(messageId, 10);
+      const uid = parseInt(email.messageId, 10);
       if (!isNaN(uid)) {
         await connection.addFlags(uid, ['\\Seen']);
       }
     });
   }
 
-  static async moveEmailToFolder(messageId: string, targetFolder: string) {
-    return this.withConnection(async (connection) => {
+  static async moveEmailToFolder(storage: IStorage, email: EmailRef, targetFolder: string) {
+    const account = await this.getAccount(storage, email.accountId);
+    return this.withConnection(account, async (connection) => {
       await connection.openBox('INBOX');
-      await connection.moveMessage(messageId, targetFolder);
+      await connection.moveMessage(email.messageId, targetFolder);
     });
   }
 
-  static async archiveEmail(messageId: string) {
-    return this.moveEmailToFolder(messageId, 'Archive');
+  static async archiveEmail(storage: IStorage, email: EmailRef) {
+    return this.moveEmailToFolder(storage, email, 'Archive');
   }
 
-  static async deleteEmail(messageId: string) {
-    return this.withConnection(async (connection) => {
+  static async deleteEmail(storage: IStorage, email: EmailRef) {
+    const account = await this.getAccount(storage, email.accountId);
+    return this.withConnection(account, async (connection) => {
       await connection.openBox('INBOX');
-      const uid = parseInt(messageId, 10);
+      const uid = parseInt(email.messageId, 10);
       if (!isNaN(uid)) {
         await connection.addFlags(uid, ['\\Deleted']);
       }
@@ -195,35 +536,50 @@ export class EmailService {
     });
   }
 
+  // Replies go out from the account the original message arrived on
   static async replyToEmail(
-    originalEmail: { sender: string; subject: string; messageId: string },
+    storage: IStorage,
+    originalEmail: Pick<Email, 'sender' | 'subject' | 'messageId' | 'accountId' | 'internetMessageId' | 'references'>,
     replyText: string,
     replyHtml?: string,
-    attachments?: any[]
-  ) {
+    attachments?: AttachmentMeta[]
+  ): Promise<Email> {
     const subject = originalEmail.subject.startsWith('Re: ')
       ? originalEmail.subject
       : `Re: ${originalEmail.subject}`;
 
-    await this.sendEmail(
+    // In-Reply-To/References let the recipient's client thread our reply
+    const threading = originalEmail.internetMessageId
+      ? {
+          inReplyTo: originalEmail.internetMessageId,
+          references: [...(originalEmail.references || []), originalEmail.internetMessageId],
+        }
+      : undefined;
+
+    const sent = await this.sendEmail(
+      storage,
       originalEmail.sender,
       subject,
       replyText,
       replyHtml,
       undefined,
       undefined,
-      attachments
+      attachments,
+      originalEmail.accountId,
+      threading
     );
 
-    await this.markEmailAsRead(originalEmail.messageId);
+    await this.markEmailAsRead(storage, originalEmail);
+    return sent;
   }
 
   static async forwardEmail(
-    originalEmail: { subject: string; content: string; sender: string },
+    storage: IStorage,
+    originalEmail: Pick<Email, 'subject' | 'content' | 'sender' | 'accountId' | 'attachments'>,
     forwardTo: string | string[],
     additionalText?: string,
-    attachments?: any[]
-  ) {
+    attachments?: AttachmentMeta[]
+  ): Promise<Email> {
     const subject = originalEmail.subject.startsWith('Fwd: ')
       ? originalEmail.subject
       : `Fwd: ${originalEmail.subject}`;
@@ -238,14 +594,27 @@ Subject: ${originalEmail.subject}
 ${originalEmail.content}
     `;
 
-    await this.sendEmail(
+    // Forwarding carries the original attachments along with any new ones
+    const originalAttachments = (originalEmail.attachments || []).filter(attachment => attachment.checksum);
+
+    return this.sendEmail(
+      storage,
       forwardTo,
       subject,
       forwardedContent,
       undefined,
       undefined,
       undefined,
-      attachments
+      [...originalAttachments, ...(attachments || [])],
+      originalEmail.accountId
     );
   }
+
+  // Verifies both the IMAP and SMTP settings of an account
+  static async testAccount(account: MailAccount) {
+    await this.withConnection(account, async (connection) => {
+      await connection.openBox('INBOX');
+    });
+    await createTransporter(account).verify();
+  }
 }
\ No newline at end of file
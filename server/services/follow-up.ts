@@ -0,0 +1,175 @@
+import { addDays, format } from 'date-fns';
+import { type Task } from '@shared/schema';
+import { storageFor, userStorage, type IStorage } from '../storage';
+import { EmailService } from './email';
+
+// How often Waiting For items are checked for passed follow-up dates
+const FOLLOW_UP_INTERVAL_MS = 60 * 60 * 1000;
+
+// FOLLOW_UP_REMINDERS picks who is reminded: "nudge" emails the delegate when
+// their address is known and puts the rest in a digest, "digest" only emails
+// the user, "off" disables reminders
+const FOLLOW_UP_MODES = ['nudge', 'digest', 'off'] as const;
+type FollowUpMode = typeof FOLLOW_UP_MODES[number];
+
+// Days a reminded item waits before it's due for the next reminder
+const FOLLOW_UP_REMINDER_DAYS = parseInt(process.env.FOLLOW_UP_REMINDER_DAYS || '3');
+
+const EMAIL_ADDRESS_PATTERN = /[^\s<>,"]+@[^\s<>,"]+\.[^\s<>,"]+/;
+
+export interface FollowUpRunResult {
+  nudged: number;
+  digested: number;
+}
+
+function getMode(): FollowUpMode {
+  const mode = process.env.FOLLOW_UP_REMINDERS?.trim().toLowerCase() || 'digest';
+  return (FOLLOW_UP_MODES as readonly string[]).includes(mode) ? mode as FollowUpMode : 'digest';
+}
+
+function nudgeBody(task: Task): string {
+  const name = task.waitingFor && !EMAIL_ADDRESS_PATTERN.test(task.waitingFor) ? ` ${task.waitingFor}` : '';
+  return `Hi${name},
+
+Just following up on "${task.title}". Could you let me know where this stands?
+
+Thanks!`;
+}
+
+function digestBody(overdue: Task[], nextFollowUp: Date): string {
+  const lines = overdue.map(task => {
+    const due = task.waitingForFollowUp ? format(task.waitingForFollowUp, 'PP') : 'no date';
+    return `- ${task.title} (waiting for ${task.waitingFor || 'someone'}, follow-up was due ${due})`;
+  });
+
+  return `These Waiting For items are past their follow-up date:
+
+${lines.join('\n')}
+
+Each one will come up again on ${format(nextFollowUp, 'PP')} if nothing changes.`;
+}
+
+export class FollowUpService {
+  private static timer: NodeJS.Timeout | null = null;
+  // Runs in progress by user
+  private static inFlight = new Map<number, Promise<FollowUpRunResult>>();
+
+  // Where a nudge should go: the recipient of the delegation email, then the
+  // person's first known address, then an address typed into Waiting For
+  private static async getDelegateAddress(storage: IStorage, task: Task): Promise<string | null> {
+    if (task.delegationEmailId) {
+      const delegation = await storage.getEmail(task.delegationEmailId);
+      if (delegation && delegation.recipients.length > 0) {
+        return delegation.recipients[0];
+      }
+    }
+    if (task.waitingForId) {
+      const person = await storage.getPerson(task.waitingForId);
+      if (person && person.emails.length > 0) {
+        return person.emails[0];
+      }
+    }
+    return task.waitingFor?.match(EMAIL_ADDRESS_PATTERN)?.[0] ?? null;
+  }
+
+  // Replies in the delegation thread when there is one, so the delegate sees
+  // the original request and their answer is recognised as a response
+  private static async sendNudge(storage: IStorage, task: Task, to: string): Promise<void> {
+    const delegation = task.delegationEmailId ? await storage.getEmail(task.delegationEmailId) : undefined;
+
+    if (delegation?.internetMessageId) {
+      const subject = delegation.subject.startsWith('Re:') ? delegation.subject : `Re: ${delegation.subject}`;
+      await EmailService.sendEmail(storage, to, subject, nudgeBody(task), undefined, undefined, undefined, undefined,
+        delegation.accountId, {
+          inReplyTo: delegation.internetMessageId,
+          references: [...(delegation.references || []), delegation.internetMessageId],
+        });
+    } else {
+      await EmailService.sendEmail(storage, to, `Following up: ${task.title}`, nudgeBody(task));
+    }
+  }
+
+  // Reminds about one user's items. Concurrent callers share the run in
+  // progress so nobody is reminded twice.
+  static sendReminders(storage: IStorage): Promise<FollowUpRunResult> {
+    let run = this.inFlight.get(storage.userId);
+    if (!run) {
+      run = this.runReminders(storage, new Date()).finally(() => {
+        this.inFlight.delete(storage.userId);
+      });
+      this.inFlight.set(storage.userId, run);
+    }
+    return run;
+  }
+
+  private static async sendAllReminders() {
+    for (const user of await userStorage.getUsers()) {
+      await this.sendReminders(storageFor(user.id))
+        .catch(err => console.error(`Follow-up reminder error for user ${user.id}:`, err));
+    }
+  }
+
+  private static async runReminders(storage: IStorage, now: Date): Promise<FollowUpRunResult> {
+    const mode = getMode();
+    const result: FollowUpRunResult = { nudged: 0, digested: 0 };
+    if (mode === 'off') return result;
+
+    const overdue = await storage.getOverdueWaitingTasks(now);
+    if (overdue.length === 0) return result;
+
+    const nextFollowUp = addDays(now, FOLLOW_UP_REMINDER_DAYS);
+    const forDigest: Task[] = [];
+
+    for (const task of overdue) {
+      const address = mode === 'nudge' ? await this.getDelegateAddress(storage, task) : null;
+      if (!address) {
+        forDigest.push(task);
+        continue;
+      }
+
+      try {
+        await this.sendNudge(storage, task, address);
+        await storage.recordFollowUpReminder(task.id, nextFollowUp, `Reminder sent to ${address}`);
+        result.nudged++;
+      } catch (error) {
+        // Left overdue so the next run tries again
+        console.error(`Error sending follow-up reminder for task ${task.id}:`, error);
+      }
+    }
+
+    if (forDigest.length > 0) {
+      const account = await EmailService.getDefaultAccount(storage);
+      const subject = `${forDigest.length} Waiting For item${forDigest.length > 1 ? 's' : ''} to follow up`;
+      await EmailService.sendEmail(storage, account.email, subject, digestBody(forDigest, nextFollowUp), undefined, undefined, undefined,
+        undefined, account.id);
+
+      for (const task of forDigest) {
+        await storage.recordFollowUpReminder(task.id, nextFollowUp, `Included in follow-up digest to ${account.email}`);
+      }
+      result.digested = forDigest.length;
+    }
+
+    if (result.nudged > 0 || result.digested > 0) {
+      console.log(`Follow-up reminders: ${result.nudged} nudged, ${result.digested} in digest`);
+    }
+    return result;
+  }
+
+  static start(intervalMs: number = FOLLOW_UP_INTERVAL_MS) {
+    if (this.timer) return;
+
+    const run = () => {
+      this.sendAllReminders().catch(err => console.error('Follow-up reminder error:', err));
+    };
+
+    run();
+    this.timer = setInterval(run, intervalMs);
+  }
+
+  static stop() {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+}
@@ -1,4 +1,15 @@
 import { google } from 'googleapis';
+import { userStorage, type IStorage } from '../storage';
+
+// The connector is the Google account linked to this deployment, so like the
+// mailbox configured through the environment it belongs to the owner. Every
+// other user sees the calendar as not connected.
+async function assertCalendarOwner(storage: IStorage) {
+  const owner = await userStorage.getOwner();
+  if (owner?.id !== storage.userId) {
+    throw new Error('Google Calendar not connected');
+  }
+}
 
 async function getAccessToken() {
   // Always fetch fresh connection settings - never cache to avoid stale tokens
@@ -34,7 +45,8 @@ async function getAccessToken() {
 // WARNING: Never cache this client.
 // Access tokens expire, so a new client must be created each time.
 // Always call this function again to get a fresh client.
-async function getUncachableGoogleCalendarClient() {
+async function getUncachableGoogleCalendarClient(storage: IStorage) {
+  await assertCalendarOwner(storage);
   const accessToken = await getAccessToken();
 
   const oauth2Client = new google.auth.OAuth2();
@@ -46,18 +58,18 @@ async function getUncachableGoogleCalendarClient() {
 }
 
 // Exported alias for status checking
-export async function getCalendarClient() {
-  return await getUncachableGoogleCalendarClient();
+export async function getCalendarClient(storage: IStorage) {
+  return await getUncachableGoogleCalendarClient(storage);
 }
 
 // Alias for routes.ts
-export async function getUpcomingEvents(maxResults: number = 10) {
-  return await listUpcomingEvents(maxResults);
+export async function getUpcomingEvents(storage: IStorage, maxResults: number = 10) {
+  return await listUpcomingEvents(storage, maxResults);
 }
 
-export async function listCalendars() {
+export async function listCalendars(storage: IStorage) {
   try {
-    const calendar = await getUncachableGoogleCalendarClient();
+    const calendar = await getUncachableGoogleCalendarClient(storage);
     const response = await calendar.calendarList.list();
     return response.data.items || [];
   } catch (error) {
@@ -66,9 +78,9 @@ export async function listCalendars() {
   }
 }
 
-export async function listUpcomingEvents(maxResults: number = 50) {
+export async function listUpcomingEvents(storage: IStorage, maxResults: number = 50) {
   try {
-    const calendar = await getUncachableGoogleCalendarClient();
+    const calendar = await getUncachableGoogleCalendarClient(storage);
     const now = new Date();
     const sevenDaysLater = new Date();
     sevenDaysLater.setDate(sevenDaysLater.getDate() + 7);
@@ -118,7 +130,7 @@ export async function listUpcomingEvents(maxResults: number = 50) {
   }
 }
 
-export async function createEvent(eventDetails: {
+export async function createEvent(storage: IStorage, eventDetails: {
   summary: string;
   description?: string;
   start: { dateTime: string; timeZone?: string } | { date: string };
@@ -126,7 +138,7 @@ export async function createEvent(eventDetails: {
   location?: string;
 }) {
   try {
-    const calendar = await getUncachableGoogleCalendarClient();
+    const calendar = await getUncachableGoogleCalendarClient(storage);
     const response = await calendar.events.insert({
       calendarId: 'primary',
       requestBody: eventDetails,
@@ -138,8 +150,9 @@ export async function createEvent(eventDetails: {
   }
 }
 
-export async function checkConnection() {
+export async function checkConnection(storage: IStorage) {
   try {
+    await assertCalendarOwner(storage);
     await getAccessToken();
     return { connected: true };
   } catch (error) {
@@ -0,0 +1,39 @@
+import { storageFor, userStorage } from '../storage';
+
+// How often the tickler file is checked for tasks whose date has arrived
+const TICKLER_INTERVAL_MS = 15 * 60 * 1000;
+
+export class TicklerService {
+  private static timer: NodeJS.Timeout | null = null;
+
+  static async releaseDueTasks(): Promise<number> {
+    const now = new Date();
+    let count = 0;
+    for (const user of await userStorage.getUsers()) {
+      const released = await storageFor(user.id).releaseTickledTasks(now);
+      count += released.length;
+    }
+    if (count > 0) {
+      console.log(`Tickler released ${count} deferred task(s)`);
+    }
+    return count;
+  }
+
+  static start(intervalMs: number = TICKLER_INTERVAL_MS) {
+    if (this.timer) return;
+
+    const run = () => {
+      this.releaseDueTasks().catch(err => console.error('Tickler error:', err));
+    };
+
+    run();
+    this.timer = setInterval(run, intervalMs);
+  }
+
+  static stop() {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+}
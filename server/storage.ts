@@ -1,34 +1,353 @@
-import { eq, desc } from "drizzle-orm";
+import { eq, desc, asc, sql, and, or, ne, inArray, isNull, isNotNull, lte, getTableColumns, type SQL, type Column } from "drizzle-orm";
 import { db } from "./db";
 import {
-  Task, InsertTask,
+  User, InsertUser,
+  ApiToken, PublicApiToken, InsertApiToken,
+  Task, InsertTask, TaskEvent, TaskDependency,
   Project, InsertProject,
+  Area, InsertArea,
   Context, InsertContext,
+  Person, InsertPerson, PersonSuggestion,
+  Agenda, InsertAgenda,
+  Template, InsertTemplate, InstantiateTemplate,
   Email, InsertEmail,
+  EmailAccount, InsertEmailAccount,
+  EmailSyncState, InsertEmailSyncState,
+  EmailDraft, InsertEmailDraft,
   WeeklyReview, InsertWeeklyReview,
+  ProcessingResult, InboxItemTypeValue,
+  CloseProject,
+  SearchResult,
+  SearchResultType,
+  searchDocuments,
+  TaskStatus,
+  TaskEventField,
+  ProjectStatus,
+  EmailFolder,
+  InboxItemType,
+  users,
+  apiTokens,
   tasks,
+  taskEvents,
+  taskDependencies,
   projects,
+  areas,
   contexts,
+  people,
+  agendas,
+  templates,
   emails,
+  emailAccounts,
+  emailSyncStates,
+  emailDrafts,
+  attachmentUploads,
   weeklyReviews,
 } from "@shared/schema";
+import { nextOccurrence } from "@shared/recurrence";
+import { addDays, startOfDay } from "date-fns";
+import { getQueuedActionIds } from "@shared/project-tree";
+import { getBlockers, isResolved } from "@shared/task-dependencies";
+import { encryptSecret } from "./services/credentials";
 
+type Transaction = Parameters<Parameters<typeof db.transaction>[0]>[0];
+
+// Every API token column except the hash, which never leaves the server
+const { tokenHash: _tokenHash, ...publicApiTokenColumns } = getTableColumns(apiTokens);
+
+
+// Joins the thread of the nearest ancestor already stored, otherwise uses the
+// root named in References so replies that arrive before their parent still
+// group with it once the parent is synced
+async function resolveThreadId(userId: number, email: InsertEmail): Promise<string | null> {
+  const ancestors = [email.inReplyTo, ...[...(email.references || [])].reverse()]
+    .filter((id): id is string => !!id);
+
+  if (ancestors.length > 0) {
+    const [parent] = await db.select({ threadId: emails.threadId })
+      .from(emails)
+      .where(and(
+        eq(emails.userId, userId),
+        inArray(emails.internetMessageId, ancestors),
+        isNotNull(emails.threadId)
+      ))
+      .limit(1);
+    if (parent?.threadId) return parent.threadId;
+  }
+
+  return email.references?.[0] ?? email.inReplyTo ?? email.internetMessageId ?? null;
+}
+
+// Emails and sync state from the environment-configured account have a null accountId
+function forAccount(column: Column, accountId: number | null): SQL {
+  return accountId === null ? isNull(column) : eq(column, accountId);
+}
+
+// Name and bare lowercase address from a header value like `Jane Doe <jane@example.com>`
+function parseAddress(value: string): { name: string; address: string } {
+  const match = value.match(/^\s*"?([^"<]*?)"?\s*<([^>]+)>/);
+  if (!match) {
+    const address = value.trim().toLowerCase();
+    return { name: address, address };
+  }
+  const address = match[2].trim().toLowerCase();
+  return { name: match[1].trim() || address, address };
+}
+
+// Whether a jsonb[] attachments column holds a file with this checksum
+function hasAttachment(column: Column, checksum: string): SQL {
+  return sql`exists (select 1 from unnest(${column}) as attachment where attachment->>'checksum' = ${checksum})`;
+}
+
+const EMAIL_ADDRESS_PATTERN = /^[^\s@<>]+@[^\s@<>]+$/;
+
+// Finds the person with this name (ignoring case) or address, creating them
+// when there's none. A newly seen address is added to the person's list.
+async function findOrCreatePerson(tx: Transaction, userId: number, name: string, email?: string | null): Promise<Person> {
+  const address = email?.trim().toLowerCase()
+    || (EMAIL_ADDRESS_PATTERN.test(name) ? name.toLowerCase() : null);
+
+  const [existing] = await tx.select()
+    .from(people)
+    .where(and(eq(people.userId, userId), or(
+      sql`lower(${people.name}) = lower(${name})`,
+      address ? sql`${address} = any(${people.emails})` : undefined
+    )))
+    .limit(1);
+
+  if (existing) {
+    if (!address || existing.emails.includes(address)) return existing;
+    const [updated] = await tx.update(people)
+      .set({ emails: [...existing.emails, address] })
+      .where(eq(people.id, existing.id))
+      .returning();
+    return updated;
+  }
+
+  const [created] = await tx.insert(people)
+    .values({ userId, name, emails: address ? [address] : [] })
+    .returning();
+  return created;
+}
+
+// Keeps waitingFor (the name shown in every list) and waitingForId in step.
+// A picked person supplies the name; a typed name is linked to its person.
+async function resolveWaitingFor<T extends Partial<Task>>(tx: Transaction, userId: number, task: T): Promise<T> {
+  if (task.waitingForId) {
+    const [person] = await tx.select()
+      .from(people)
+      .where(and(eq(people.id, task.waitingForId), eq(people.userId, userId)));
+    if (!person) throw new Error("Person not found");
+    return { ...task, waitingFor: person.name };
+  }
+
+  if (task.waitingFor === undefined) {
+    return task.waitingForId === null ? { ...task, waitingFor: null } : task;
+  }
+
+  const name = task.waitingFor?.trim();
+  if (!name) return { ...task, waitingFor: null, waitingForId: null };
+
+  const person = await findOrCreatePerson(tx, userId, name);
+  return { ...task, waitingFor: person.name, waitingForId: person.id };
+}
+
+// A task joining a project goes to the end of its actions unless the caller
+// placed it explicitly
+async function placeInProject<T extends Partial<Task>>(
+  tx: Transaction,
+  task: T,
+  previousProjectId: number | null = null
+): Promise<T> {
+  if (!task.projectId || task.projectId === previousProjectId || task.sortOrder !== undefined) return task;
+
+  const [{ last }] = await tx.select({ last: sql<number | null>`max(${tasks.sortOrder})` })
+    .from(tasks)
+    .where(eq(tasks.projectId, task.projectId));
+  return { ...task, sortOrder: last === null ? 0 : last + 1 };
+}
+
+// Fields tracked in task history, keyed by event field name
+const TRACKED_TASK_FIELDS = [
+  TaskEventField.STATUS,
+  TaskEventField.PROJECT,
+  TaskEventField.CONTEXT,
+] as const;
+
+// Completion timestamp for a status change: set when a task enters done,
+// cleared when it leaves done, untouched otherwise
+function completedAtFor(previousStatus: string | undefined, nextStatus: string | undefined) {
+  if (nextStatus === undefined || nextStatus === previousStatus) return undefined;
+  return nextStatus === TaskStatus.DONE ? new Date() : null;
+}
+
+const OPEN_PROJECT_STATUSES: string[] = [ProjectStatus.ACTIVE, ProjectStatus.ON_HOLD];
+
+// Fields that follow a project's status change: isActive tracks whether it's
+// still open and completedAt is stamped when it's completed
+function projectStatusFields(previousStatus: string | undefined, nextStatus: string | undefined): Partial<Project> {
+  if (nextStatus === undefined || nextStatus === previousStatus) return {};
+  return {
+    isActive: OPEN_PROJECT_STATUSES.includes(nextStatus),
+    completedAt: nextStatus === ProjectStatus.COMPLETED ? new Date() : null,
+  };
+}
+
+// Creates the next occurrence of a recurring task that was just completed,
+// carrying over its organization. Nothing is created once the rule has ended.
+async function spawnNextOccurrence(tx: Transaction, completed: Task): Promise<void> {
+  if (!completed.recurrence) return;
+
+  const dueDate = nextOccurrence(completed.recurrence, completed.dueDate ?? new Date());
+  if (!dueDate) return;
+
+  await tx.insert(tasks).values({
+    userId: completed.userId,
+    title: completed.title,
+    description: completed.description,
+    status: TaskStatus.NEXT_ACTION,
+    projectId: completed.projectId,
+    contextId: completed.contextId,
+    timeEstimate: completed.timeEstimate,
+    energyLevel: completed.energyLevel,
+    notes: completed.notes,
+    sortOrder: completed.sortOrder,
+    recurrence: completed.recurrence,
+    dueDate,
+  });
+}
+
+// Notes in the history of each task that was waiting on `finished` and has
+// nothing else open to wait on
+async function recordUnblocked(tx: Transaction, finished: Task): Promise<void> {
+  const dependents = await tx.select({ taskId: taskDependencies.taskId })
+    .from(taskDependencies)
+    .where(eq(taskDependencies.dependsOnId, finished.id));
+  if (dependents.length === 0) return;
+
+  const dependentIds = dependents.map(dependent => dependent.taskId);
+  const links = await tx.select().from(taskDependencies).where(inArray(taskDependencies.taskId, dependentIds));
+  const blockerTasks = await tx.select()
+    .from(tasks)
+    .where(inArray(tasks.id, links.map(link => link.dependsOnId)));
+  const blockers = getBlockers(blockerTasks, links);
+
+  const unblocked = dependentIds.filter(id => !blockers.has(id));
+  if (unblocked.length === 0) return;
+
+  await tx.insert(taskEvents).values(unblocked.map(taskId => ({
+    taskId,
+    field: TaskEventField.UNBLOCKED,
+    fromValue: null,
+    toValue: null,
+    note: `"${finished.title}" was ${finished.status === TaskStatus.DONE ? "done" : "trashed"}`,
+  })));
+}
+
+// Updates a task and records a task_events row for every tracked field that
+// changed. Completing a recurring task spawns its next occurrence, and
+// finishing a task unblocks whatever was waiting on it. Returns undefined
+// when the task doesn't exist. `respawn: false` completes a recurring task
+// without creating its next occurrence.
+async function applyTaskUpdate(
+  tx: Transaction,
+  userId: number,
+  id: number,
+  task: Partial<Task>,
+  { respawn = true }: { respawn?: boolean } = {}
+): Promise<Task | undefined> {
+  const [existing] = await tx.select().from(tasks).where(and(eq(tasks.id, id), eq(tasks.userId, userId)));
+  if (!existing) return undefined;
+
+  const updates: Partial<Task> = await placeInProject(tx, await resolveWaitingFor(tx, userId, task), existing.projectId);
+  const completedAt = completedAtFor(existing.status, task.status);
+  if (completedAt !== undefined) {
+    updates.completedAt = completedAt;
+  }
+
+  const [updated] = await tx.update(tasks)
+    .set(updates)
+    .where(eq(tasks.id, id))
+    .returning();
+
+  const events = TRACKED_TASK_FIELDS
+    .filter((field) => task[field] !== undefined && task[field] !== existing[field])
+    .map((field) => ({
+      taskId: id,
+      field,
+      fromValue: existing[field] === null ? null : String(existing[field]),
+      toValue: updated[field] === null ? null : String(updated[field]),
+    }));
+
+  if (events.length > 0) {
+    await tx.insert(taskEvents).values(events);
+  }
+
+  if (completedAt && respawn) {
+    await spawnNextOccurrence(tx, updated);
+  }
+
+  if (!isResolved(existing) && isResolved(updated)) {
+    await recordUnblocked(tx, updated);
+  }
+
+  return updated;
+}
+
+// A project created from a template along with its tasks, in template order
+export interface TemplateInstance {
+  project: Project;
+  tasks: Task[];
+}
+
+export interface InboxProcessingOutcome {
+  task?: Task;
+  email?: Email;
+  // Other emails in the email's conversation, processed along with it
+  threadEmails?: Email[];
+  project?: Project;
+}
+
+// Everything a signed-in user reads or writes. Each instance is bound to one
+// user and only ever sees that user's rows; see storageFor().
 export interface IStorage {
+  readonly userId: number;
+
   // Tasks
   getTasks(): Promise<Task[]>;
+  getTask(id: number): Promise<Task | undefined>;
   getTasksByStatus(status: string): Promise<Task[]>;
+  getAvailableNextActions(): Promise<Task[]>;
   getTasksByProject(projectId: number): Promise<Task[]>;
+  reorderProjectTasks(projectId: number, taskIds: number[]): Promise<Task[]>;
   getTasksByContext(contextId: number): Promise<Task[]>;
   createTask(task: InsertTask): Promise<Task>;
   updateTask(id: number, task: Partial<Task>): Promise<Task>;
   deleteTask(id: number): Promise<void>;
+  getTaskHistory(taskId: number): Promise<TaskEvent[]>;
+  releaseTickledTasks(now: Date): Promise<Task[]>;
+  getOverdueWaitingTasks(now: Date): Promise<Task[]>;
+  recordFollowUpReminder(id: number, nextFollowUp: Date, note: string): Promise<Task | undefined>;
+
+  // Task dependencies
+  getTaskDependencies(): Promise<TaskDependency[]>;
+  addTaskDependency(taskId: number, dependsOnId: number): Promise<TaskDependency>;
+  removeTaskDependency(taskId: number, dependsOnId: number): Promise<void>;
 
   // Projects
   getProjects(): Promise<Project[]>;
   getProject(id: number): Promise<Project | undefined>;
   createProject(project: InsertProject): Promise<Project>;
   updateProject(id: number, project: Partial<Project>): Promise<Project>;
+  closeProject(id: number, close: CloseProject): Promise<Project | undefined>;
   deleteProject(id: number): Promise<void>;
+  closeInactiveProjects(): Promise<number>;
+
+  // Areas
+  getAreas(): Promise<Area[]>;
+  getArea(id: number): Promise<Area | undefined>;
+  createArea(area: InsertArea): Promise<Area>;
+  updateArea(id: number, area: Partial<Area>): Promise<Area>;
+  deleteArea(id: number): Promise<void>;
 
   // Contexts
   getContexts(): Promise<Context[]>;
@@ -37,104 +356,412 @@ export interface IStorage {
   updateContext(id: number, context: Partial<Context>): Promise<Context>;
   deleteContext(id: number): Promise<void>;
 
+  // People
+  getPeople(): Promise<Person[]>;
+  getPerson(id: number): Promise<Person | undefined>;
+  createPerson(person: InsertPerson): Promise<Person>;
+  updatePerson(id: number, person: Partial<Person>): Promise<Person>;
+  deletePerson(id: number): Promise<void>;
+  mergePeople(sourceId: number, targetId: number): Promise<Person | undefined>;
+  addPersonEmail(id: number, email: string): Promise<void>;
+  getPersonSuggestions(limit?: number): Promise<PersonSuggestion[]>;
+  linkWaitingForPeople(): Promise<number>;
+
+  // Agendas
+  getAgendas(): Promise<Agenda[]>;
+  getAgenda(id: number): Promise<Agenda | undefined>;
+  createAgenda(agenda: InsertAgenda): Promise<Agenda>;
+  updateAgenda(id: number, agenda: Partial<Agenda>): Promise<Agenda>;
+  deleteAgenda(id: number): Promise<void>;
+
+  // Templates
+  getTemplates(): Promise<Template[]>;
+  getTemplate(id: number): Promise<Template | undefined>;
+  createTemplate(template: InsertTemplate): Promise<Template>;
+  updateTemplate(id: number, template: Partial<InsertTemplate>): Promise<Template>;
+  deleteTemplate(id: number): Promise<void>;
+  instantiateTemplate(id: number, options: InstantiateTemplate): Promise<TemplateInstance | undefined>;
+
   // Emails
   getEmails(): Promise<Email[]>;
+  getEmail(id: number): Promise<Email | undefined>;
+  getEmailThread(threadId: string): Promise<Email[]>;
   createEmail(email: InsertEmail): Promise<Email>;
   updateEmail(id: number, email: Partial<Email>): Promise<Email>;
   deleteEmail(id: number): Promise<void>;
+  getEmailsInFolder(accountId: number | null, folder: string): Promise<Email[]>;
+  resetEmailFolder(accountId: number | null, folder: string): Promise<void>;
+  recordDelegationResponse(email: Email): Promise<Task[]>;
+
+  // Email Drafts
+  getEmailDrafts(): Promise<EmailDraft[]>;
+  getEmailDraft(key: string): Promise<EmailDraft | undefined>;
+  saveEmailDraft(key: string, draft: InsertEmailDraft): Promise<EmailDraft>;
+  deleteEmailDraft(key: string): Promise<void>;
+
+  // Attachments
+  recordAttachmentUpload(checksum: string): Promise<void>;
+  // The checksums among these the user uploaded or has on an email or task
+  getOwnedAttachmentChecksums(checksums: string[]): Promise<Set<string>>;
+
+  // Email Sync State
+  getEmailSyncStates(): Promise<EmailSyncState[]>;
+  getEmailSyncState(accountId: number | null, mailbox: string): Promise<EmailSyncState | undefined>;
+  saveEmailSyncState(state: InsertEmailSyncState): Promise<EmailSyncState>;
   markEmailAsProcessed(id: number): Promise<Email>;
 
+  // Email Accounts
+  getEmailAccounts(): Promise<EmailAccount[]>;
+  getEmailAccount(id: number): Promise<EmailAccount | undefined>;
+  createEmailAccount(account: InsertEmailAccount): Promise<EmailAccount>;
+  updateEmailAccount(id: number, account: Partial<EmailAccount>): Promise<EmailAccount>;
+  deleteEmailAccount(id: number): Promise<void>;
+
+  // Inbox processing
+  processInboxItem(
+    type: InboxItemTypeValue,
+    id: number,
+    result: ProcessingResult
+  ): Promise<InboxProcessingOutcome | undefined>;
+
+  // Search
+  search(query: string, limit?: number): Promise<SearchResult[]>;
+
   // Weekly Reviews
   getWeeklyReviews(): Promise<WeeklyReview[]>;
   getLatestWeeklyReview(): Promise<WeeklyReview | undefined>;
   createWeeklyReview(review: InsertWeeklyReview): Promise<WeeklyReview>;
+
+  // API tokens
+  getApiTokens(): Promise<PublicApiToken[]>;
+  createApiToken(token: InsertApiToken, tokenHash: string, tokenPrefix: string): Promise<PublicApiToken>;
+  deleteApiToken(id: number): Promise<void>;
 }
 
 export class DatabaseStorage implements IStorage {
+  constructor(readonly userId: number) {}
+
+  // Condition limiting a query to rows owned by this storage's user
+  private owned(column: Column): SQL {
+    return eq(column, this.userId);
+  }
+
   // Tasks
   async getTasks(): Promise<Task[]> {
-    return await db.select().from(tasks);
+    return await db.select().from(tasks).where(this.owned(tasks.userId));
+  }
+
+  async getTask(id: number): Promise<Task | undefined> {
+    const [task] = await db.select().from(tasks).where(and(eq(tasks.id, id), this.owned(tasks.userId)));
+    return task;
   }
 
   async getTasksByStatus(status: string): Promise<Task[]> {
-    return await db.select().from(tasks).where(eq(tasks.status, status));
+    return await db.select().from(tasks).where(and(eq(tasks.status, status), this.owned(tasks.userId)));
+  }
+
+  // Next actions minus those queued behind another in a sequential project
+  // and those still waiting on an unfinished task
+  async getAvailableNextActions(): Promise<Task[]> {
+    const [nextActions, allProjects, dependencies] = await Promise.all([
+      this.getTasksByStatus(TaskStatus.NEXT_ACTION),
+      db.select().from(projects).where(and(eq(projects.sequential, true), this.owned(projects.userId))),
+      this.getTaskDependencies(),
+    ]);
+    const queued = getQueuedActionIds(allProjects, nextActions);
+
+    const blockerIds = dependencies.map(dependency => dependency.dependsOnId);
+    const blockerTasks = blockerIds.length > 0
+      ? await db.select().from(tasks).where(inArray(tasks.id, blockerIds))
+      : [];
+    const blockers = getBlockers(blockerTasks, dependencies);
+
+    return nextActions.filter(task => !queued.has(task.id) && !blockers.has(task.id));
   }
 
   async getTasksByProject(projectId: number): Promise<Task[]> {
-    return await db.select().from(tasks).where(eq(tasks.projectId, projectId));
+    return await db.select()
+      .from(tasks)
+      .where(and(eq(tasks.projectId, projectId), this.owned(tasks.userId)))
+      .orderBy(asc(tasks.sortOrder), asc(tasks.id));
+  }
+
+  // Renumbers the project's actions in the given order. Ids from other
+  // projects are ignored; actions left out keep their place after the rest.
+  async reorderProjectTasks(projectId: number, taskIds: number[]): Promise<Task[]> {
+    return await db.transaction(async (tx) => {
+      const current = await tx.select()
+        .from(tasks)
+        .where(and(eq(tasks.projectId, projectId), this.owned(tasks.userId)))
+        .orderBy(asc(tasks.sortOrder), asc(tasks.id));
+
+      const ordered = [
+        ...taskIds.flatMap(id => current.filter(task => task.id === id)),
+        ...current.filter(task => !taskIds.includes(task.id)),
+      ];
+      for (let index = 0; index < ordered.length; index++) {
+        if (ordered[index].sortOrder !== index) {
+          await tx.update(tasks).set({ sortOrder: index }).where(eq(tasks.id, ordered[index].id));
+        }
+      }
+      return ordered.map((task, index) => ({ ...task, sortOrder: index }));
+    });
   }
 
   async getTasksByContext(contextId: number): Promise<Task[]> {
-    return await db.select().from(tasks).where(eq(tasks.contextId, contextId));
+    return await db.select().from(tasks).where(and(eq(tasks.contextId, contextId), this.owned(tasks.userId)));
   }
 
   async createTask(task: InsertTask): Promise<Task> {
-    const [created] = await db.insert(tasks).values(task).returning();
-    return created;
+    return await db.transaction(async (tx) => {
+      const [created] = await tx.insert(tasks)
+        .values({
+          ...await placeInProject(tx, await resolveWaitingFor(tx, this.userId, task)),
+          userId: this.userId,
+          completedAt: task.status === TaskStatus.DONE ? new Date() : null,
+        })
+        .returning();
+      return created;
+    });
   }
 
   async updateTask(id: number, task: Partial<Task>): Promise<Task> {
-    const [updated] = await db.update(tasks)
-      .set(task)
-      .where(eq(tasks.id, id))
-      .returning();
+    const updated = await db.transaction((tx) => applyTaskUpdate(tx, this.userId, id, task));
 
     if (!updated) throw new Error("Task not found");
     return updated;
   }
 
   async deleteTask(id: number): Promise<void> {
-    await db.delete(tasks).where(eq(tasks.id, id));
+    await db.delete(tasks).where(and(eq(tasks.id, id), this.owned(tasks.userId)));
+  }
+
+  async getTaskHistory(taskId: number): Promise<TaskEvent[]> {
+    const rows = await db.select({ event: taskEvents })
+      .from(taskEvents)
+      .innerJoin(tasks, eq(taskEvents.taskId, tasks.id))
+      .where(and(eq(taskEvents.taskId, taskId), this.owned(tasks.userId)))
+      .orderBy(desc(taskEvents.createdAt), desc(taskEvents.id));
+    return rows.map(row => row.event);
+  }
+
+  // Clears the tickle date of every task whose date has arrived. Incubated
+  // (someday) items return to the inbox so they get re-clarified; everything
+  // else simply becomes visible again in its list.
+  async releaseTickledTasks(now: Date): Promise<Task[]> {
+    return await db.transaction(async (tx) => {
+      const due = await tx.select()
+        .from(tasks)
+        .where(and(isNotNull(tasks.tickleDate), lte(tasks.tickleDate, now), this.owned(tasks.userId)));
+
+      const released: Task[] = [];
+      for (const task of due) {
+        const updated = await applyTaskUpdate(tx, this.userId, task.id, {
+          tickleDate: null,
+          ...(task.status === TaskStatus.SOMEDAY && { status: TaskStatus.INBOX }),
+        });
+        if (updated) released.push(updated);
+      }
+      return released;
+    });
+  }
+
+  // Waiting For items past their follow-up date that haven't been answered yet
+  async getOverdueWaitingTasks(now: Date): Promise<Task[]> {
+    return await db.select()
+      .from(tasks)
+      .where(and(
+        eq(tasks.status, TaskStatus.WAITING),
+        isNotNull(tasks.waitingForFollowUp),
+        lte(tasks.waitingForFollowUp, now),
+        isNull(tasks.responseReceivedAt),
+        this.owned(tasks.userId)
+      ))
+      .orderBy(asc(tasks.waitingForFollowUp));
+  }
+
+  // Pushes the follow-up date forward and records the reminder in task history
+  async recordFollowUpReminder(id: number, nextFollowUp: Date, note: string): Promise<Task | undefined> {
+    return await db.transaction(async (tx) => {
+      const [existing] = await tx.select().from(tasks).where(and(eq(tasks.id, id), this.owned(tasks.userId)));
+      if (!existing) return undefined;
+
+      const [updated] = await tx.update(tasks)
+        .set({ waitingForFollowUp: nextFollowUp })
+        .where(eq(tasks.id, id))
+        .returning();
+
+      await tx.insert(taskEvents).values({
+        taskId: id,
+        field: TaskEventField.FOLLOW_UP,
+        fromValue: existing.waitingForFollowUp?.toISOString() ?? null,
+        toValue: nextFollowUp.toISOString(),
+        note,
+      });
+
+      return updated;
+    });
+  }
+
+  // Task dependencies
+  async getTaskDependencies(): Promise<TaskDependency[]> {
+    const rows = await db.select({ dependency: taskDependencies })
+      .from(taskDependencies)
+      .innerJoin(tasks, eq(taskDependencies.taskId, tasks.id))
+      .where(this.owned(tasks.userId))
+      .orderBy(asc(taskDependencies.id));
+    return rows.map(row => row.dependency);
+  }
+
+  // Adding a dependency that already exists returns the existing one. Both
+  // tasks must belong to the user.
+  async addTaskDependency(taskId: number, dependsOnId: number): Promise<TaskDependency> {
+    const [task, blocker] = await Promise.all([this.getTask(taskId), this.getTask(dependsOnId)]);
+    if (!task || !blocker) throw new Error("Task not found");
+
+    const [created] = await db.insert(taskDependencies)
+      .values({ taskId, dependsOnId })
+      .onConflictDoNothing()
+      .returning();
+    if (created) return created;
+
+    const [existing] = await db.select()
+      .from(taskDependencies)
+      .where(and(eq(taskDependencies.taskId, taskId), eq(taskDependencies.dependsOnId, dependsOnId)));
+    return existing;
+  }
+
+  async removeTaskDependency(taskId: number, dependsOnId: number): Promise<void> {
+    if (!await this.getTask(taskId)) return;
+    await db.delete(taskDependencies)
+      .where(and(eq(taskDependencies.taskId, taskId), eq(taskDependencies.dependsOnId, dependsOnId)));
   }
 
   // Projects
   async getProjects(): Promise<Project[]> {
-    return await db.select().from(projects);
+    return await db.select().from(projects).where(this.owned(projects.userId));
   }
 
   async getProject(id: number): Promise<Project | undefined> {
-    const [project] = await db.select().from(projects).where(eq(projects.id, id));
+    const [project] = await db.select().from(projects).where(and(eq(projects.id, id), this.owned(projects.userId)));
     return project;
   }
 
   async createProject(project: InsertProject): Promise<Project> {
-    const [created] = await db.insert(projects).values(project).returning();
+    const [created] = await db.insert(projects)
+      .values({
+        ...project,
+        userId: this.userId,
+        ...(project.parentId && { areaId: null }),
+        ...projectStatusFields(undefined, project.status),
+      })
+      .returning();
     return created;
   }
 
+  // Sub-projects take their area from the top-level project, so moving a
+  // project under another one drops its own area
   async updateProject(id: number, project: Partial<Project>): Promise<Project> {
+    const existing = await this.getProject(id);
+    if (!existing) throw new Error("Project not found");
+
     const [updated] = await db.update(projects)
-      .set(project)
+      .set({
+        ...project,
+        ...(project.parentId && { areaId: null }),
+        ...projectStatusFields(existing.status, project.status),
+      })
       .where(eq(projects.id, id))
       .returning();
-
-    if (!updated) throw new Error("Project not found");
     return updated;
   }
 
+  // Completes or drops a project and moves its open next actions to
+  // done, trash or someday, recording each move in task history
+  async closeProject(id: number, close: CloseProject): Promise<Project | undefined> {
+    return await db.transaction(async (tx) => {
+      const [existing] = await tx.select().from(projects).where(and(eq(projects.id, id), this.owned(projects.userId)));
+      if (!existing) return undefined;
+
+      const [updated] = await tx.update(projects)
+        .set({ status: close.status, ...projectStatusFields(existing.status, close.status) })
+        .where(eq(projects.id, id))
+        .returning();
+
+      const remaining = await tx.select({ id: tasks.id })
+        .from(tasks)
+        .where(and(eq(tasks.projectId, id), eq(tasks.status, TaskStatus.NEXT_ACTION)));
+      // A closed project has nothing left to repeat, so recurring actions
+      // finish without a next occurrence
+      for (const task of remaining) {
+        await applyTaskUpdate(tx, this.userId, task.id, { status: close.remainingTasks }, { respawn: false });
+      }
+
+      return updated;
+    });
+  }
+
   async deleteProject(id: number): Promise<void> {
-    await db.delete(projects).where(eq(projects.id, id));
+    await db.delete(projects).where(and(eq(projects.id, id), this.owned(projects.userId)));
+  }
+
+  // Projects checked off before they had a status were only marked inactive
+  async closeInactiveProjects(): Promise<number> {
+    const closed = await db.update(projects)
+      .set({ status: ProjectStatus.COMPLETED })
+      .where(and(eq(projects.isActive, false), eq(projects.status, ProjectStatus.ACTIVE), this.owned(projects.userId)))
+      .returning({ id: projects.id });
+    return closed.length;
+  }
+
+  // Areas
+  async getAreas(): Promise<Area[]> {
+    return await db.select().from(areas).where(this.owned(areas.userId)).orderBy(asc(areas.name));
+  }
+
+  async getArea(id: number): Promise<Area | undefined> {
+    const [area] = await db.select().from(areas).where(and(eq(areas.id, id), this.owned(areas.userId)));
+    return area;
+  }
+
+  async createArea(area: InsertArea): Promise<Area> {
+    const [created] = await db.insert(areas).values({ ...area, userId: this.userId }).returning();
+    return created;
+  }
+
+  async updateArea(id: number, area: Partial<Area>): Promise<Area> {
+    const [updated] = await db.update(areas)
+      .set(area)
+      .where(and(eq(areas.id, id), this.owned(areas.userId)))
+      .returning();
+
+    if (!updated) throw new Error("Area not found");
+    return updated;
+  }
+
+  async deleteArea(id: number): Promise<void> {
+    await db.delete(areas).where(and(eq(areas.id, id), this.owned(areas.userId)));
   }
 
   // Contexts
   async getContexts(): Promise<Context[]> {
-    return await db.select().from(contexts);
+    return await db.select().from(contexts).where(this.owned(contexts.userId));
   }
 
   async getContext(id: number): Promise<Context | undefined> {
-    const [context] = await db.select().from(contexts).where(eq(contexts.id, id));
+    const [context] = await db.select().from(contexts).where(and(eq(contexts.id, id), this.owned(contexts.userId)));
     return context;
   }
 
   async createContext(context: InsertContext): Promise<Context> {
-    const [created] = await db.insert(contexts).values(context).returning();
+    const [created] = await db.insert(contexts).values({ ...context, userId: this.userId }).returning();
     return created;
   }
 
   async updateContext(id: number, context: Partial<Context>): Promise<Context> {
     const [updated] = await db.update(contexts)
       .set(context)
-      .where(eq(contexts.id, id))
+      .where(and(eq(contexts.id, id), this.owned(contexts.userId)))
       .returning();
 
     if (!updated) throw new Error("Context not found");
@@ -142,32 +769,263 @@ export class DatabaseStorage implements IStorage {
   }
 
   async deleteContext(id: number): Promise<void> {
-    await db.delete(contexts).where(eq(contexts.id, id));
+    await db.delete(contexts).where(and(eq(contexts.id, id), this.owned(contexts.userId)));
+  }
+
+  // People
+  async getPeople(): Promise<Person[]> {
+    return await db.select().from(people).where(this.owned(people.userId)).orderBy(asc(people.name));
+  }
+
+  async getPerson(id: number): Promise<Person | undefined> {
+    const [person] = await db.select().from(people).where(and(eq(people.id, id), this.owned(people.userId)));
+    return person;
+  }
+
+  async createPerson(person: InsertPerson): Promise<Person> {
+    const [created] = await db.insert(people).values({ ...person, userId: this.userId }).returning();
+    return created;
+  }
+
+  // A rename is copied to the tasks that show the person's name
+  async updatePerson(id: number, person: Partial<Person>): Promise<Person> {
+    return await db.transaction(async (tx) => {
+      const [updated] = await tx.update(people)
+        .set(person)
+        .where(and(eq(people.id, id), this.owned(people.userId)))
+        .returning();
+      if (!updated) throw new Error("Person not found");
+
+      if (person.name !== undefined) {
+        await tx.update(tasks)
+          .set({ waitingFor: updated.name })
+          .where(and(eq(tasks.waitingForId, id), this.owned(tasks.userId)));
+        await tx.update(agendas)
+          .set({ name: updated.name })
+          .where(and(eq(agendas.personId, id), this.owned(agendas.userId)));
+      }
+      return updated;
+    });
+  }
+
+  async deletePerson(id: number): Promise<void> {
+    await db.delete(people).where(and(eq(people.id, id), this.owned(people.userId)));
+  }
+
+  // Folds a duplicate into the person kept: their tasks, addresses and notes
+  // move over and the duplicate is deleted
+  async mergePeople(sourceId: number, targetId: number): Promise<Person | undefined> {
+    return await db.transaction(async (tx) => {
+      const [source] = await tx.select().from(people).where(and(eq(people.id, sourceId), this.owned(people.userId)));
+      const [target] = await tx.select().from(people).where(and(eq(people.id, targetId), this.owned(people.userId)));
+      if (!source || !target) return undefined;
+
+      await tx.update(tasks)
+        .set({ waitingForId: target.id, waitingFor: target.name })
+        .where(eq(tasks.waitingForId, source.id));
+      await tx.delete(people).where(eq(people.id, source.id));
+
+      const [merged] = await tx.update(people)
+        .set({
+          emails: Array.from(new Set([...target.emails, ...source.emails])),
+          notes: [target.notes, source.notes].filter(Boolean).join("\n\n") || null,
+        })
+        .where(eq(people.id, target.id))
+        .returning();
+      return merged;
+    });
+  }
+
+  async addPersonEmail(id: number, email: string): Promise<void> {
+    const address = email.trim().toLowerCase();
+    await db.update(people)
+      .set({ emails: sql`array_append(${people.emails}, ${address})` })
+      .where(and(eq(people.id, id), this.owned(people.userId), sql`not (${address} = any(${people.emails}))`));
+  }
+
+  // Frequent senders of received mail whose address isn't on anyone yet
+  async getPersonSuggestions(limit: number = 20): Promise<PersonSuggestion[]> {
+    const [senders, known] = await Promise.all([
+      db.select({ sender: emails.sender, count: sql<number>`count(*)::int` })
+        .from(emails)
+        .where(and(ne(emails.folder, EmailFolder.SENT), this.owned(emails.userId)))
+        .groupBy(emails.sender)
+        .orderBy(desc(sql`count(*)`)),
+      db.select({ emails: people.emails }).from(people).where(this.owned(people.userId)),
+    ]);
+
+    const knownAddresses = new Set(known.flatMap(person => person.emails));
+    const suggestions = new Map<string, PersonSuggestion>();
+    for (const { sender, count } of senders) {
+      const { name, address } = parseAddress(sender);
+      if (!EMAIL_ADDRESS_PATTERN.test(address) || knownAddresses.has(address)) continue;
+
+      const existing = suggestions.get(address);
+      if (existing) {
+        existing.messageCount += count;
+      } else {
+        suggestions.set(address, { name, email: address, messageCount: count });
+      }
+    }
+
+    return Array.from(suggestions.values())
+      .sort((a, b) => b.messageCount - a.messageCount)
+      .slice(0, limit);
+  }
+
+  // Links tasks saved with a free-text waitingFor before people existed
+  async linkWaitingForPeople(): Promise<number> {
+    return await db.transaction(async (tx) => {
+      const unlinked = await tx.select()
+        .from(tasks)
+        .where(and(isNotNull(tasks.waitingFor), isNull(tasks.waitingForId), this.owned(tasks.userId)));
+
+      for (const task of unlinked) {
+        const resolved = await resolveWaitingFor(tx, this.userId, { waitingFor: task.waitingFor });
+        await tx.update(tasks).set(resolved).where(eq(tasks.id, task.id));
+      }
+      return unlinked.length;
+    });
+  }
+
+  // Agendas
+  async getAgendas(): Promise<Agenda[]> {
+    return await db.select().from(agendas).where(this.owned(agendas.userId)).orderBy(asc(agendas.name));
+  }
+
+  async getAgenda(id: number): Promise<Agenda | undefined> {
+    const [agenda] = await db.select().from(agendas).where(and(eq(agendas.id, id), this.owned(agendas.userId)));
+    return agenda;
+  }
+
+  async createAgenda(agenda: InsertAgenda): Promise<Agenda> {
+    const [created] = await db.insert(agendas).values({ ...agenda, userId: this.userId }).returning();
+    return created;
+  }
+
+  async updateAgenda(id: number, agenda: Partial<Agenda>): Promise<Agenda> {
+    const [updated] = await db.update(agendas)
+      .set(agenda)
+      .where(and(eq(agendas.id, id), this.owned(agendas.userId)))
+      .returning();
+
+    if (!updated) throw new Error("Agenda not found");
+    return updated;
+  }
+
+  async deleteAgenda(id: number): Promise<void> {
+    await db.delete(agendas).where(and(eq(agendas.id, id), this.owned(agendas.userId)));
+  }
+
+  // Templates
+  async getTemplates(): Promise<Template[]> {
+    return await db.select().from(templates).where(this.owned(templates.userId)).orderBy(asc(templates.name));
+  }
+
+  async getTemplate(id: number): Promise<Template | undefined> {
+    const [template] = await db.select().from(templates).where(and(eq(templates.id, id), this.owned(templates.userId)));
+    return template;
+  }
+
+  async createTemplate(template: InsertTemplate): Promise<Template> {
+    const [created] = await db.insert(templates).values({ ...template, userId: this.userId }).returning();
+    return created;
+  }
+
+  async updateTemplate(id: number, template: Partial<InsertTemplate>): Promise<Template> {
+    const [updated] = await db.update(templates)
+      .set(template)
+      .where(and(eq(templates.id, id), this.owned(templates.userId)))
+      .returning();
+
+    if (!updated) throw new Error("Template not found");
+    return updated;
+  }
+
+  async deleteTemplate(id: number): Promise<void> {
+    await db.delete(templates).where(and(eq(templates.id, id), this.owned(templates.userId)));
+  }
+
+  // Creates a project with one next action per template item. Contexts that
+  // have since been deleted are dropped rather than failing the whole project.
+  async instantiateTemplate(id: number, options: InstantiateTemplate): Promise<TemplateInstance | undefined> {
+    return await db.transaction(async (tx) => {
+      const [template] = await tx.select().from(templates).where(and(eq(templates.id, id), this.owned(templates.userId)));
+      if (!template) return undefined;
+
+      const [project] = await tx.insert(projects).values({
+        userId: this.userId,
+        name: options.name || template.name,
+        description: template.description,
+        sequential: template.sequential,
+        parentId: options.parentId ?? null,
+        areaId: options.parentId ? null : options.areaId ?? null,
+      }).returning();
+
+      if (template.items.length === 0) return { project, tasks: [] };
+
+      const contextIds = new Set(
+        (await tx.select({ id: contexts.id }).from(contexts).where(this.owned(contexts.userId))).map(c => c.id)
+      );
+      const startDate = startOfDay(options.startDate ?? new Date());
+
+      const created = await tx.insert(tasks).values(template.items.map((item, index) => ({
+        userId: this.userId,
+        title: item.title,
+        description: item.description ?? null,
+        status: TaskStatus.NEXT_ACTION,
+        projectId: project.id,
+        sortOrder: index,
+        contextId: item.contextId && contextIds.has(item.contextId) ? item.contextId : null,
+        timeEstimate: item.timeEstimate ?? null,
+        energyLevel: item.energyLevel ?? null,
+        dueDate: typeof item.dueOffsetDays === "number" ? addDays(startDate, item.dueOffsetDays) : null,
+      }))).returning();
+
+      return { project, tasks: created.sort((a, b) => a.sortOrder - b.sortOrder) };
+    });
   }
 
   // Emails
   async getEmails(): Promise<Email[]> {
-    return await db.select().from(emails);
+    return await db.select().from(emails).where(this.owned(emails.userId));
+  }
+
+  async getEmail(id: number): Promise<Email | undefined> {
+    const [email] = await db.select().from(emails).where(and(eq(emails.id, id), this.owned(emails.userId)));
+    return email;
   }
 
   async createEmail(email: InsertEmail): Promise<Email> {
-    // Check if email with this messageId already exists
+    // Check if email with this messageId already exists for the account
     const [existing] = await db.select()
       .from(emails)
-      .where(eq(emails.messageId, email.messageId));
+      .where(and(
+        eq(emails.messageId, email.messageId),
+        forAccount(emails.accountId, email.accountId ?? null),
+        this.owned(emails.userId)
+      ));
 
     if (existing) {
       return existing;
     }
 
-    const [created] = await db.insert(emails).values(email).returning();
+    const threadId = email.threadId ?? await resolveThreadId(this.userId, email);
+    const [created] = await db.insert(emails).values({ ...email, userId: this.userId, threadId }).returning();
     return created;
   }
 
+  async getEmailThread(threadId: string): Promise<Email[]> {
+    return await db.select()
+      .from(emails)
+      .where(and(eq(emails.threadId, threadId), this.owned(emails.userId)))
+      .orderBy(asc(emails.receivedAt));
+  }
+
   async updateEmail(id: number, email: Partial<Email>): Promise<Email> {
     const [updated] = await db.update(emails)
       .set(email)
-      .where(eq(emails.id, id))
+      .where(and(eq(emails.id, id), this.owned(emails.userId)))
       .returning();
 
     if (!updated) throw new Error("Email not found");
@@ -175,36 +1033,514 @@ export class DatabaseStorage implements IStorage {
   }
 
   async deleteEmail(id: number): Promise<void> {
-    await db.delete(emails).where(eq(emails.id, id));
+    await db.delete(emails).where(and(eq(emails.id, id), this.owned(emails.userId)));
+  }
+
+  // Flags waiting tasks whose delegation email this one answers: it must be in
+  // the same thread and come from someone the delegation was addressed to
+  async recordDelegationResponse(email: Email): Promise<Task[]> {
+    if (!email.threadId || email.folder === EmailFolder.SENT) return [];
+
+    const candidates = await db.select({ task: tasks, delegation: emails })
+      .from(tasks)
+      .innerJoin(emails, eq(tasks.delegationEmailId, emails.id))
+      .where(and(
+        eq(emails.threadId, email.threadId),
+        eq(tasks.status, TaskStatus.WAITING),
+        isNull(tasks.responseReceivedAt),
+        this.owned(tasks.userId)
+      ));
+
+    const sender = parseAddress(email.sender).address;
+    const taskIds = candidates
+      .filter(({ delegation }) =>
+        [...delegation.recipients, ...(delegation.cc || [])].some(recipient => parseAddress(recipient).address === sender)
+      )
+      .map(({ task }) => task.id);
+    if (taskIds.length === 0) return [];
+
+    return await db.update(tasks)
+      .set({ responseEmailId: email.id, responseReceivedAt: email.receivedAt })
+      .where(inArray(tasks.id, taskIds))
+      .returning();
+  }
+
+  async getEmailsInFolder(accountId: number | null, folder: string): Promise<Email[]> {
+    return await db.select()
+      .from(emails)
+      .where(and(forAccount(emails.accountId, accountId), eq(emails.folder, folder), this.owned(emails.userId)));
+  }
+
+  // Called when a mailbox's UIDVALIDITY changes and its stored UIDs no longer
+  // identify the same messages. Unprocessed emails are dropped to be fetched
+  // again; processed ones are kept for their tasks but re-keyed so they can't
+  // collide with the new UIDs.
+  async resetEmailFolder(accountId: number | null, folder: string): Promise<void> {
+    const inFolder = and(forAccount(emails.accountId, accountId), eq(emails.folder, folder), this.owned(emails.userId));
+    await db.transaction(async (tx) => {
+      await tx.delete(emails).where(and(inFolder, eq(emails.processed, false)));
+      await tx.update(emails)
+        .set({ messageId: sql`'stale:' || ${emails.messageId}` })
+        .where(and(inFolder, sql`${emails.messageId} ~ '^[0-9]+$'`));
+    });
   }
 
   async markEmailAsProcessed(id: number): Promise<Email> {
     const [updated] = await db.update(emails)
       .set({ processed: true })
-      .where(eq(emails.id, id))
+      .where(and(eq(emails.id, id), this.owned(emails.userId)))
       .returning();
 
     if (!updated) throw new Error("Email not found");
     return updated;
   }
 
+  // Email Accounts
+  async getEmailAccounts(): Promise<EmailAccount[]> {
+    return await db.select()
+      .from(emailAccounts)
+      .where(this.owned(emailAccounts.userId))
+      .orderBy(desc(emailAccounts.isDefault), asc(emailAccounts.id));
+  }
+
+  async getEmailAccount(id: number): Promise<EmailAccount | undefined> {
+    const [account] = await db.select()
+      .from(emailAccounts)
+      .where(and(eq(emailAccounts.id, id), this.owned(emailAccounts.userId)));
+    return account;
+  }
+
+  // Only one account can be the default sender, so marking an account as
+  // default clears the flag on the user's other accounts
+  async createEmailAccount(account: InsertEmailAccount): Promise<EmailAccount> {
+    return await db.transaction(async (tx) => {
+      const [created] = await tx.insert(emailAccounts)
+        .values({ ...account, password: encryptSecret(account.password), userId: this.userId })
+        .returning();
+      if (created.isDefault) {
+        await tx.update(emailAccounts)
+          .set({ isDefault: false })
+          .where(and(ne(emailAccounts.id, created.id), this.owned(emailAccounts.userId)));
+      }
+      return created;
+    });
+  }
+
+  // Passwords are encrypted on the way in; EmailService decrypts them to connect
+  async updateEmailAccount(id: number, account: Partial<EmailAccount>): Promise<EmailAccount> {
+    const updated = await db.transaction(async (tx) => {
+      const [result] = await tx.update(emailAccounts)
+        .set(account.password !== undefined ? { ...account, password: encryptSecret(account.password) } : account)
+        .where(and(eq(emailAccounts.id, id), this.owned(emailAccounts.userId)))
+        .returning();
+      if (result?.isDefault && account.isDefault) {
+        await tx.update(emailAccounts)
+          .set({ isDefault: false })
+          .where(and(ne(emailAccounts.id, id), this.owned(emailAccounts.userId)));
+      }
+      return result;
+    });
+
+    if (!updated) throw new Error("Email account not found");
+    return updated;
+  }
+
+  async deleteEmailAccount(id: number): Promise<void> {
+    await db.delete(emailAccounts).where(and(eq(emailAccounts.id, id), this.owned(emailAccounts.userId)));
+  }
+
+  // Email Drafts
+  async getEmailDrafts(): Promise<EmailDraft[]> {
+    return await db.select()
+      .from(emailDrafts)
+      .where(this.owned(emailDrafts.userId))
+      .orderBy(desc(emailDrafts.updatedAt));
+  }
+
+  async getEmailDraft(key: string): Promise<EmailDraft | undefined> {
+    const [draft] = await db.select()
+      .from(emailDrafts)
+      .where(and(eq(emailDrafts.key, key), this.owned(emailDrafts.userId)));
+    return draft;
+  }
+
+  async saveEmailDraft(key: string, draft: InsertEmailDraft): Promise<EmailDraft> {
+    const [saved] = await db.insert(emailDrafts)
+      .values({ ...draft, key, userId: this.userId })
+      .onConflictDoUpdate({
+        target: [emailDrafts.userId, emailDrafts.key],
+        set: { ...draft, updatedAt: new Date() },
+      })
+      .returning();
+    return saved;
+  }
+
+  async deleteEmailDraft(key: string): Promise<void> {
+    await db.delete(emailDrafts).where(and(eq(emailDrafts.key, key), this.owned(emailDrafts.userId)));
+  }
+
+  // Attachments
+  async recordAttachmentUpload(checksum: string): Promise<void> {
+    await db.insert(attachmentUploads).values({ userId: this.userId, checksum }).onConflictDoNothing();
+  }
+
+  async getOwnedAttachmentChecksums(checksums: string[]): Promise<Set<string>> {
+    const owned = new Set<string>();
+    for (const checksum of Array.from(new Set(checksums))) {
+      const [upload] = await db.select({ id: attachmentUploads.id })
+        .from(attachmentUploads)
+        .where(and(eq(attachmentUploads.checksum, checksum), this.owned(attachmentUploads.userId)))
+        .limit(1);
+      const [email] = upload ? [] : await db.select({ id: emails.id })
+        .from(emails)
+        .where(and(this.owned(emails.userId), hasAttachment(emails.attachments, checksum)))
+        .limit(1);
+      const [task] = upload || email ? [] : await db.select({ id: tasks.id })
+        .from(tasks)
+        .where(and(this.owned(tasks.userId), hasAttachment(tasks.attachments, checksum)))
+        .limit(1);
+      if (upload || email || task) owned.add(checksum);
+    }
+    return owned;
+  }
+
+  // Email Sync State
+  async getEmailSyncStates(): Promise<EmailSyncState[]> {
+    return await db.select()
+      .from(emailSyncStates)
+      .where(this.owned(emailSyncStates.userId))
+      .orderBy(asc(emailSyncStates.accountId), asc(emailSyncStates.mailbox));
+  }
+
+  async getEmailSyncState(accountId: number | null, mailbox: string): Promise<EmailSyncState | undefined> {
+    const [state] = await db.select()
+      .from(emailSyncStates)
+      .where(and(
+        forAccount(emailSyncStates.accountId, accountId),
+        eq(emailSyncStates.mailbox, mailbox),
+        this.owned(emailSyncStates.userId)
+      ));
+    return state;
+  }
+
+  async saveEmailSyncState(state: InsertEmailSyncState): Promise<EmailSyncState> {
+    const [saved] = await db.insert(emailSyncStates)
+      .values({ ...state, userId: this.userId })
+      .onConflictDoUpdate({
+        target: [emailSyncStates.accountId, emailSyncStates.mailbox],
+        set: { ...state, userId: this.userId },
+      })
+      .returning();
+    return saved;
+  }
+
+  // Inbox processing
+  // Applies every write for a processing decision in a single transaction so
+  // a failure can't leave an email processed without its task (or an orphan
+  // project). Returns undefined when the inbox item doesn't exist.
+  async processInboxItem(
+    type: InboxItemTypeValue,
+    id: number,
+    result: ProcessingResult
+  ): Promise<InboxProcessingOutcome | undefined> {
+    return await db.transaction(async (tx) => {
+      const outcome: InboxProcessingOutcome = {};
+
+      if (type === InboxItemType.TASK) {
+        const [existing] = await tx.select().from(tasks).where(and(eq(tasks.id, id), this.owned(tasks.userId)));
+        if (!existing) return undefined;
+      } else {
+        const [existing] = await tx.select().from(emails).where(and(eq(emails.id, id), this.owned(emails.userId)));
+        if (!existing) return undefined;
+        outcome.email = existing;
+      }
+
+      const updateItemTask = async (updates: Partial<Task>) => {
+        outcome.task = await applyTaskUpdate(tx, this.userId, id, updates);
+      };
+
+      // A conversation is processed as one unit, so the whole thread is marked
+      const inThread = outcome.email?.threadId
+        ? and(eq(emails.threadId, outcome.email.threadId), this.owned(emails.userId))
+        : eq(emails.id, id);
+
+      const markEmailProcessed = async () => {
+        const updated = await tx.update(emails)
+          .set({ processed: true })
+          .where(and(inThread, or(eq(emails.id, id), eq(emails.processed, false))))
+          .returning();
+        outcome.email = updated.find(email => email.id === id);
+        outcome.threadEmails = updated.filter(email => email.id !== id);
+      };
+
+      switch (result.action) {
+        case "trash":
+          if (type === InboxItemType.TASK) {
+            await updateItemTask({ status: TaskStatus.TRASH });
+          } else {
+            await tx.delete(emails)
+              .where(and(inThread, or(eq(emails.id, id), eq(emails.processed, false))));
+          }
+          break;
+
+        case "reference":
+        case "someday":
+        case "do-now":
+          if (type === InboxItemType.TASK) {
+            const updates: Partial<Task> = {
+              status: result.action === "reference" ? TaskStatus.REFERENCE
+                : result.action === "someday" ? TaskStatus.SOMEDAY
+                : TaskStatus.DONE,
+            };
+            if (result.action === "reference" && result.task?.referenceCategory) {
+              updates.referenceCategory = result.task.referenceCategory;
+            }
+            if (result.action === "someday" && result.task?.notes) {
+              updates.notes = result.task.notes;
+            }
+            await updateItemTask(updates);
+          } else {
+            await markEmailProcessed();
+          }
+          break;
+
+        case "delegate":
+        case "next-action": {
+          const taskData = { ...result.task };
+          if (result.createProject) {
+            const [project] = await tx.insert(projects).values({
+              userId: this.userId,
+              name: result.createProject.name,
+              description: result.createProject.description,
+              isActive: true,
+            }).returning();
+            outcome.project = project;
+            taskData.projectId = project.id;
+          }
+
+          if (type === InboxItemType.EMAIL) {
+            // The task links the email's attachments unless the caller picked a subset
+            const [created] = await tx.insert(tasks)
+              .values({
+                ...await placeInProject(tx, await resolveWaitingFor(tx, this.userId, taskData)),
+                userId: this.userId,
+                title: taskData.title!,
+                emailId: id,
+                attachments: taskData.attachments ?? outcome.email!.attachments,
+              })
+              .returning();
+            outcome.task = created;
+            await markEmailProcessed();
+          } else {
+            await updateItemTask(taskData);
+          }
+          break;
+        }
+
+        case "defer":
+          // Deferred items stay out of sight until the tickler releases them
+          if (type === InboxItemType.TASK) {
+            const [updated] = await tx.update(tasks)
+              .set({
+                deferCount: sql`${tasks.deferCount} + 1`,
+                tickleDate: result.task!.tickleDate,
+              })
+              .where(eq(tasks.id, id))
+              .returning();
+            outcome.task = updated;
+          } else {
+            const [created] = await tx.insert(tasks).values({
+              userId: this.userId,
+              title: result.task?.title || outcome.email!.subject,
+              description: outcome.email!.content,
+              status: TaskStatus.INBOX,
+              emailId: id,
+              attachments: outcome.email!.attachments,
+              deferCount: 1,
+              tickleDate: result.task!.tickleDate,
+            }).returning();
+            outcome.task = created;
+            await markEmailProcessed();
+          }
+          break;
+      }
+
+      return outcome;
+    });
+  }
+
+  // Search
+  // Ranked full-text search across tasks, projects and emails. Snippets are
+  // produced by ts_headline with matched terms wrapped in <mark>.
+  async search(query: string, limit: number = 30): Promise<SearchResult[]> {
+    const tsQuery = sql`websearch_to_tsquery('english', ${query})`;
+    const headline = (text: SQL) =>
+      sql<string>`ts_headline('english', ${text}, ${tsQuery}, 'StartSel=<mark>, StopSel=</mark>, MaxFragments=2, MaxWords=20, MinWords=5')`;
+    const rank = (document: SQL) => sql<number>`ts_rank(${document}, ${tsQuery})`;
+
+    const [taskHits, projectHits, emailHits] = await Promise.all([
+      db.select({
+        id: tasks.id,
+        title: tasks.title,
+        status: tasks.status,
+        snippet: headline(sql`coalesce(${tasks.description}, '') || ' ' || coalesce(${tasks.notes}, '')`),
+        rank: rank(searchDocuments.tasks),
+      })
+        .from(tasks)
+        .where(and(sql`${searchDocuments.tasks} @@ ${tsQuery}`, this.owned(tasks.userId)))
+        .orderBy(desc(rank(searchDocuments.tasks)))
+        .limit(limit),
+      db.select({
+        id: projects.id,
+        title: projects.name,
+        snippet: headline(sql`coalesce(${projects.description}, '')`),
+        rank: rank(searchDocuments.projects),
+      })
+        .from(projects)
+        .where(and(sql`${searchDocuments.projects} @@ ${tsQuery}`, this.owned(projects.userId)))
+        .orderBy(desc(rank(searchDocuments.projects)))
+        .limit(limit),
+      db.select({
+        id: emails.id,
+        title: emails.subject,
+        sender: emails.sender,
+        snippet: headline(sql`${emails.content}`),
+        rank: rank(searchDocuments.emails),
+      })
+        .from(emails)
+        .where(and(sql`${searchDocuments.emails} @@ ${tsQuery}`, this.owned(emails.userId)))
+        .orderBy(desc(rank(searchDocuments.emails)))
+        .limit(limit),
+    ]);
+
+    const results: SearchResult[] = [
+      ...taskHits.map((hit) => ({ type: SearchResultType.TASK, ...hit })),
+      ...projectHits.map((hit) => ({ type: SearchResultType.PROJECT, ...hit })),
+      ...emailHits.map(({ sender, ...hit }) => ({
+        type: SearchResultType.EMAIL,
+        ...hit,
+        snippet: hit.snippet.trim() ? hit.snippet : sender,
+      })),
+    ];
+
+    return results
+      .sort((a, b) => b.rank - a.rank)
+      .slice(0, limit);
+  }
+
   // Weekly Reviews
   async getWeeklyReviews(): Promise<WeeklyReview[]> {
-    return await db.select().from(weeklyReviews).orderBy(desc(weeklyReviews.completedAt));
+    return await db.select()
+      .from(weeklyReviews)
+      .where(this.owned(weeklyReviews.userId))
+      .orderBy(desc(weeklyReviews.completedAt));
   }
 
   async getLatestWeeklyReview(): Promise<WeeklyReview | undefined> {
     const [review] = await db.select()
       .from(weeklyReviews)
+      .where(this.owned(weeklyReviews.userId))
       .orderBy(desc(weeklyReviews.completedAt))
       .limit(1);
     return review;
   }
 
   async createWeeklyReview(review: InsertWeeklyReview): Promise<WeeklyReview> {
-    const [created] = await db.insert(weeklyReviews).values(review).returning();
+    const [created] = await db.insert(weeklyReviews).values({ ...review, userId: this.userId }).returning();
     return created;
   }
+
+  // API tokens
+  async getApiTokens(): Promise<PublicApiToken[]> {
+    return await db.select(publicApiTokenColumns)
+      .from(apiTokens)
+      .where(this.owned(apiTokens.userId))
+      .orderBy(desc(apiTokens.createdAt));
+  }
+
+  async createApiToken(token: InsertApiToken, tokenHash: string, tokenPrefix: string): Promise<PublicApiToken> {
+    const [created] = await db.insert(apiTokens)
+      .values({ ...token, tokenHash, tokenPrefix, userId: this.userId })
+      .returning(publicApiTokenColumns);
+    return created;
+  }
+
+  // Revoking a token deletes it; requests carrying it are refused from then on
+  async deleteApiToken(id: number): Promise<void> {
+    await db.delete(apiTokens).where(and(eq(apiTokens.id, id), this.owned(apiTokens.userId)));
+  }
+}
+
+// Storage for one signed-in user
+export function storageFor(userId: number): IStorage {
+  return new DatabaseStorage(userId);
+}
+
+// Tables whose rows belong to a user through their userId column
+const OWNED_TABLES = [
+  tasks, projects, areas, contexts, people, agendas, templates,
+  emails, emailAccounts, emailDrafts, emailSyncStates, attachmentUploads, weeklyReviews,
+];
+
+export interface IUserStorage {
+  getUser(id: number): Promise<User | undefined>;
+  getUserByUsername(username: string): Promise<User | undefined>;
+  getUsers(): Promise<User[]>;
+  getOwner(): Promise<User | undefined>;
+  createUser(user: InsertUser): Promise<User>;
+  getApiTokenByHash(tokenHash: string): Promise<ApiToken | undefined>;
+  touchApiToken(id: number, now: Date): Promise<void>;
+}
+
+export class DatabaseUserStorage implements IUserStorage {
+  async getUser(id: number): Promise<User | undefined> {
+    const [user] = await db.select().from(users).where(eq(users.id, id));
+    return user;
+  }
+
+  // Usernames are matched ignoring case
+  async getUserByUsername(username: string): Promise<User | undefined> {
+    const [user] = await db.select()
+      .from(users)
+      .where(sql`lower(${users.username}) = lower(${username})`);
+    return user;
+  }
+
+  async getUsers(): Promise<User[]> {
+    return await db.select().from(users).orderBy(asc(users.id));
+  }
+
+  // The first account registered. It owns the data saved before accounts
+  // existed and the mailbox configured through environment variables.
+  async getOwner(): Promise<User | undefined> {
+    const [owner] = await db.select().from(users).orderBy(asc(users.id)).limit(1);
+    return owner;
+  }
+
+  // `user.password` must already be hashed
+  async createUser(user: InsertUser): Promise<User> {
+    return await db.transaction(async (tx) => {
+      const [created] = await tx.insert(users).values(user).returning();
+
+      const [first] = await tx.select({ id: users.id }).from(users).orderBy(asc(users.id)).limit(1);
+      if (first.id === created.id) {
+        for (const table of OWNED_TABLES) {
+          await tx.update(table).set({ userId: created.id }).where(isNull(table.userId));
+        }
+      }
+      return created;
+    });
+  }
+
+  // Looks a bearer token up across all users, before anyone is known
+  async getApiTokenByHash(tokenHash: string): Promise<ApiToken | undefined> {
+    const [token] = await db.select().from(apiTokens).where(eq(apiTokens.tokenHash, tokenHash));
+    return token;
+  }
+
+  async touchApiToken(id: number, now: Date): Promise<void> {
+    await db.update(apiTokens).set({ lastUsedAt: now }).where(eq(apiTokens.id, id));
+  }
 }
 
-export const storage = new DatabaseStorage();
+export const userStorage = new DatabaseUserStorage();
@@ -0,0 +1,125 @@
+import { ProjectStatus, TaskStatus, type Project, type Task } from "./schema";
+
+export interface ProjectNode {
+  project: Project;
+  children: ProjectNode[];
+  // Next actions filed directly on this project
+  nextActions: number;
+  // Next actions anywhere in this project's subtree, including its own
+  totalNextActions: number;
+  // Active (not on hold) with no next action anywhere below it
+  stalled: boolean;
+  // Stalled projects in the subtree, including this one
+  stalledCount: number;
+}
+
+// Top-level project of a project, following parentId links. Stops at a cycle
+// so bad data can't hang the caller.
+export function getRootProject(projects: Project[], project: Project): Project {
+  const byId = new Map(projects.map((p) => [p.id, p]));
+  const seen = new Set<number>();
+  let current = project;
+  while (current.parentId !== null && !seen.has(current.id)) {
+    seen.add(current.id);
+    const parent = byId.get(current.parentId);
+    if (!parent) break;
+    current = parent;
+  }
+  return current;
+}
+
+// Area a project belongs to, inherited from its top-level project
+export function getProjectAreaId(projects: Project[], project: Project): number | null {
+  return getRootProject(projects, project).areaId;
+}
+
+// Whether making `parentId` the parent of project `id` would put the project
+// underneath itself
+export function wouldCreateCycle(projects: Project[], id: number, parentId: number | null): boolean {
+  if (parentId === null) return false;
+  const byId = new Map(projects.map((p) => [p.id, p]));
+  const seen = new Set<number>();
+  let current: number | null = parentId;
+  while (current !== null && !seen.has(current)) {
+    if (current === id) return true;
+    seen.add(current);
+    current = byId.get(current)?.parentId ?? null;
+  }
+  return false;
+}
+
+// Builds the project outline and rolls next-action counts and stalled status
+// up from sub-projects. Closed (completed or dropped) projects are left out
+// along with everything below them.
+export function buildProjectTree(projects: Project[], tasks: Task[]): ProjectNode[] {
+  const active = projects.filter((p) => p.isActive);
+  const activeIds = new Set(active.map((p) => p.id));
+
+  const nextActionsByProject = new Map<number, number>();
+  for (const task of tasks) {
+    if (task.projectId !== null && task.status === TaskStatus.NEXT_ACTION) {
+      nextActionsByProject.set(task.projectId, (nextActionsByProject.get(task.projectId) || 0) + 1);
+    }
+  }
+
+  const childrenOf = new Map<number | null, Project[]>();
+  for (const project of active) {
+    // Children of a completed parent have nowhere to hang, so they're skipped
+    const parentId = project.parentId !== null && projects.some((p) => p.id === project.parentId)
+      ? project.parentId
+      : null;
+    if (parentId !== null && !activeIds.has(parentId)) continue;
+    childrenOf.set(parentId, [...(childrenOf.get(parentId) || []), project]);
+  }
+
+  const build = (project: Project, ancestors: Set<number>): ProjectNode => {
+    const path = new Set(ancestors).add(project.id);
+    const children = (childrenOf.get(project.id) || [])
+      .filter((child) => !path.has(child.id))
+      .map((child) => build(child, path));
+
+    const nextActions = nextActionsByProject.get(project.id) || 0;
+    const totalNextActions = children.reduce((sum, child) => sum + child.totalNextActions, nextActions);
+    const stalled = project.status === ProjectStatus.ACTIVE && totalNextActions === 0;
+
+    return {
+      project,
+      children,
+      nextActions,
+      totalNextActions,
+      stalled,
+      stalledCount: children.reduce((sum, child) => sum + child.stalledCount, stalled ? 1 : 0),
+    };
+  };
+
+  return (childrenOf.get(null) || []).map((project) => build(project, new Set()));
+}
+
+// Order a project's actions are meant to be done in
+export function compareTaskOrder(a: Task, b: Task): number {
+  return a.sortOrder - b.sortOrder || a.id - b.id;
+}
+
+// Next actions still waiting their turn: in a sequential project only the
+// first remaining next action is available, so the rest are queued behind it.
+// Completing that action makes the next one the first.
+export function getQueuedActionIds(projects: Project[], tasks: Task[]): Set<number> {
+  const sequentialIds = new Set(projects.filter((p) => p.sequential).map((p) => p.id));
+  const queued = new Set<number>();
+
+  const byProject = new Map<number, Task[]>();
+  for (const task of tasks) {
+    if (task.projectId === null || !sequentialIds.has(task.projectId) || task.status !== TaskStatus.NEXT_ACTION) continue;
+    byProject.set(task.projectId, [...(byProject.get(task.projectId) || []), task]);
+  }
+
+  for (const actions of Array.from(byProject.values())) {
+    actions.sort(compareTaskOrder).slice(1).forEach((task) => queued.add(task.id));
+  }
+  return queued;
+}
+
+// Every node in the outline, parents before their children
+export function flattenProjectTree(nodes: ProjectNode[]): ProjectNode[] {
+  return nodes.flatMap((node) => [node, ...flattenProjectTree(node.children)]);
+}
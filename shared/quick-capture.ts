@@ -0,0 +1,200 @@
+import { addDays, addWeeks, isValid, parseISO, startOfDay } from "date-fns";
+import { EnergyLevel, TimeEstimate, type Context, type InsertTask, type Project } from "./schema";
+
+// A context or project named in the input. `id` is null when nothing by that
+// name exists yet, so the caller can offer to create it.
+export interface QuickCaptureMatch {
+  name: string;
+  id: number | null;
+}
+
+export interface ParsedQuickCapture {
+  // The input with every applied token taken out. Unknown @context and
+  // #project tokens stay in so nothing typed is lost.
+  title: string;
+  context: QuickCaptureMatch | null;
+  project: QuickCaptureMatch | null;
+  timeEstimate: string | null;
+  energyLevel: string | null;
+  dueDate: Date | null;
+}
+
+const WEEKDAYS = ["sunday", "monday", "tuesday", "wednesday", "thursday", "friday", "saturday"];
+
+const ENERGY_ALIASES: Record<string, string> = {
+  low: EnergyLevel.LOW,
+  lo: EnergyLevel.LOW,
+  medium: EnergyLevel.MEDIUM,
+  med: EnergyLevel.MEDIUM,
+  high: EnergyLevel.HIGH,
+  hi: EnergyLevel.HIGH,
+};
+
+function isToken(word: string): boolean {
+  return /^[@#~!]./.test(word) || /^due:./i.test(word);
+}
+
+// Context names are conventionally saved with their @, but either form matches
+function normalizeContextName(name: string): string {
+  return name.replace(/^@/, "").toLowerCase();
+}
+
+// Longest run of words starting at `start` that names one of `candidates`,
+// so multi-word names like `#Q4 Planning` are found
+function matchName<T>(
+  words: string[],
+  start: number,
+  candidates: T[],
+  nameOf: (candidate: T) => string,
+): { match: T; length: number } | null {
+  for (let length = words.length - start; length > 0; length--) {
+    const phrase = words.slice(start, start + length).join(" ");
+    const match = candidates.find((candidate) => nameOf(candidate) === phrase);
+    if (match) return { match, length };
+  }
+  return null;
+}
+
+// `~15m`, `~1h`, `~2h+`: rounded up to the nearest estimate bucket
+export function parseTimeEstimate(value: string): string | null {
+  const match = /^(\d+(?:\.\d+)?)\s*(m|min|mins|h|hr|hrs)(\+)?$/i.exec(value);
+  if (!match) return null;
+  const minutes = parseFloat(match[1]) * (match[2].toLowerCase().startsWith("h") ? 60 : 1);
+  if (match[3] || minutes > 60) return TimeEstimate.HOURS_2_PLUS;
+  if (minutes <= 15) return TimeEstimate.MINUTES_15;
+  if (minutes <= 30) return TimeEstimate.MINUTES_30;
+  return TimeEstimate.HOUR_1;
+}
+
+// `today`, `tomorrow`, a weekday (the next one after today), `3d`/`2w` from
+// today or a `yyyy-MM-dd` date
+export function parseDueDate(value: string, now: Date = new Date()): Date | null {
+  const today = startOfDay(now);
+  const lower = value.toLowerCase();
+
+  if (lower === "today") return today;
+  if (lower === "tomorrow" || lower === "tmr") return addDays(today, 1);
+
+  if (lower.length >= 3) {
+    const weekday = WEEKDAYS.findIndex((day) => day.startsWith(lower));
+    if (weekday !== -1) {
+      return addDays(today, ((weekday - today.getDay() + 6) % 7) + 1);
+    }
+  }
+
+  const relative = /^(\d+)([dw])$/.exec(lower);
+  if (relative) {
+    const amount = Number(relative[1]);
+    return relative[2] === "d" ? addDays(today, amount) : addWeeks(today, amount);
+  }
+
+  if (/^\d{4}-\d{2}-\d{2}$/.test(lower)) {
+    const date = parseISO(lower);
+    return isValid(date) ? date : null;
+  }
+  return null;
+}
+
+// Reads inline syntax out of a quick capture, e.g.
+// `Call Bob about invoice @phone #Q4 Planning ~15m !low due:fri`.
+// A #project that doesn't exist yet runs up to the next token; an unknown
+// @context is one word. When a kind of token appears twice the last wins.
+// Tokens that don't parse (`!!`, `due:someday`) are left in the title.
+export function parseQuickCapture(
+  input: string,
+  contexts: Context[],
+  projects: Project[],
+  now: Date = new Date(),
+): ParsedQuickCapture {
+  const words = input.trim().split(/\s+/).filter(Boolean);
+  const activeProjects = projects.filter((project) => project.isActive);
+  const titleWords: string[] = [];
+  const result: ParsedQuickCapture = {
+    title: "",
+    context: null,
+    project: null,
+    timeEstimate: null,
+    energyLevel: null,
+    dueDate: null,
+  };
+
+  let i = 0;
+  while (i < words.length) {
+    const word = words[i];
+
+    if (word.length > 1 && word.startsWith("@")) {
+      const lowered = words.map((w, index) => index === i ? normalizeContextName(w) : w.toLowerCase());
+      const found = matchName(lowered, i, contexts, (context) => normalizeContextName(context.name));
+      if (found) {
+        result.context = { name: found.match.name, id: found.match.id };
+        i += found.length;
+      } else {
+        result.context = { name: word, id: null };
+        titleWords.push(word);
+        i++;
+      }
+      continue;
+    }
+
+    if (word.length > 1 && word.startsWith("#")) {
+      const lowered = words.map((w, index) => (index === i ? w.slice(1) : w).toLowerCase());
+      const found = matchName(lowered, i, activeProjects, (project) => project.name.toLowerCase());
+      if (found) {
+        result.project = { name: found.match.name, id: found.match.id };
+        i += found.length;
+      } else {
+        let end = i + 1;
+        while (end < words.length && !isToken(words[end])) end++;
+        const phrase = words.slice(i, end);
+        result.project = { name: phrase.join(" ").slice(1), id: null };
+        titleWords.push(...phrase);
+        i = end;
+      }
+      continue;
+    }
+
+    const timeEstimate = word.startsWith("~") ? parseTimeEstimate(word.slice(1)) : null;
+    if (timeEstimate) {
+      result.timeEstimate = timeEstimate;
+      i++;
+      continue;
+    }
+
+    const energyLevel = word.startsWith("!") ? ENERGY_ALIASES[word.slice(1).toLowerCase()] : undefined;
+    if (energyLevel) {
+      result.energyLevel = energyLevel;
+      i++;
+      continue;
+    }
+
+    const dueDate = /^due:/i.test(word) ? parseDueDate(word.slice(4), now) : null;
+    if (dueDate) {
+      result.dueDate = dueDate;
+      i++;
+      continue;
+    }
+
+    titleWords.push(word);
+    i++;
+  }
+
+  result.title = titleWords.join(" ");
+  return result;
+}
+
+// Task fields a parsed capture sets. Contexts and projects that don't exist
+// yet are skipped; only fields the input mentioned are included.
+export function getQuickCaptureFields(parsed: ParsedQuickCapture): Partial<InsertTask> {
+  const fields: Partial<InsertTask> = { title: parsed.title };
+  if (parsed.context?.id) fields.contextId = parsed.context.id;
+  if (parsed.project?.id) fields.projectId = parsed.project.id;
+  if (parsed.timeEstimate) fields.timeEstimate = parsed.timeEstimate;
+  if (parsed.energyLevel) fields.energyLevel = parsed.energyLevel;
+  if (parsed.dueDate) fields.dueDate = parsed.dueDate;
+  return fields;
+}
+
+// Whether the input used any inline syntax worth previewing
+export function hasQuickCaptureTokens(parsed: ParsedQuickCapture): boolean {
+  return !!(parsed.context || parsed.project || parsed.timeEstimate || parsed.energyLevel || parsed.dueDate);
+}
@@ -0,0 +1,66 @@
+import { addDays, addMonths, addWeeks, format, parseISO, startOfDay, startOfWeek } from "date-fns";
+import { RecurrenceFrequency, type RecurrenceRule } from "./schema";
+
+export const WEEKDAY_NAMES = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"];
+
+// Next date strictly after `from` that matches the rule, ignoring endDate
+function advance(from: Date, rule: RecurrenceRule): Date {
+  const interval = rule.interval || 1;
+
+  if (rule.frequency === RecurrenceFrequency.DAILY) {
+    return addDays(from, interval);
+  }
+
+  if (rule.frequency === RecurrenceFrequency.MONTHLY) {
+    return addMonths(from, interval);
+  }
+
+  const weekdays = [...(rule.weekdays || [])].sort((a, b) => a - b);
+  if (weekdays.length === 0) {
+    return addWeeks(from, interval);
+  }
+
+  // Remaining selected weekdays in the current week come first, then the
+  // first selected weekday of the week `interval` weeks later
+  const laterThisWeek = weekdays.find((day) => day > from.getDay());
+  if (laterThisWeek !== undefined) {
+    return addDays(from, laterThisWeek - from.getDay());
+  }
+  const nextWeekStart = addWeeks(startOfWeek(from), interval);
+  const next = addDays(nextWeekStart, weekdays[0]);
+  next.setHours(from.getHours(), from.getMinutes(), from.getSeconds(), from.getMilliseconds());
+  return next;
+}
+
+// Due date for the occurrence after one due at `previousDue`. Occurrences that
+// would already be overdue are skipped so completing a late task doesn't spawn
+// a backlog. Returns null once the rule's end date has passed.
+export function nextOccurrence(rule: RecurrenceRule, previousDue: Date, now: Date = new Date()): Date | null {
+  const today = startOfDay(now);
+  let next = advance(previousDue, rule);
+  while (next < today) {
+    next = advance(next, rule);
+  }
+
+  if (rule.endDate && startOfDay(next) > parseISO(rule.endDate)) {
+    return null;
+  }
+  return next;
+}
+
+// Short human-readable summary, e.g. "Every 2 weeks on Mon, Thu"
+export function describeRecurrence(rule: RecurrenceRule): string {
+  const interval = rule.interval || 1;
+  const unit = rule.frequency === RecurrenceFrequency.DAILY ? "day"
+    : rule.frequency === RecurrenceFrequency.WEEKLY ? "week"
+    : "month";
+
+  let summary = interval === 1 ? `Every ${unit}` : `Every ${interval} ${unit}s`;
+  if (rule.frequency === RecurrenceFrequency.WEEKLY && rule.weekdays?.length) {
+    summary += ` on ${[...rule.weekdays].sort((a, b) => a - b).map((day) => WEEKDAY_NAMES[day]).join(", ")}`;
+  }
+  if (rule.endDate) {
+    summary += ` until ${format(parseISO(rule.endDate), "PP")}`;
+  }
+  return summary;
+}
@@ -1,4 +1,5 @@
-import { pgTable, text, serial, integer, boolean, timestamp, jsonb } from "drizzle-orm/pg-core";
+import { pgTable, text, serial, integer, bigint, boolean, timestamp, jsonb, varchar, index, unique, uniqueIndex, type AnyPgColumn } from "drizzle-orm/pg-core";
+import { sql } from "drizzle-orm";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
 
@@ -28,6 +29,13 @@ export const EnergyLevel = {
   LOW: "low",
 } as const;
 
+// Recurrence frequencies for repeating tasks
+export const RecurrenceFrequency = {
+  DAILY: "daily",
+  WEEKLY: "weekly",
+  MONTHLY: "monthly",
+} as const;
+
 // Email folder types
 export const EmailFolder = {
   INBOX: "INBOX",
@@ -37,44 +45,242 @@ export const EmailFolder = {
   TRASH: "TRASH",
 } as const;
 
+// Full-text search documents. Shared by the GIN expression indexes below and
+// the search query in storage so Postgres can use the indexes - keep in sync.
+export const searchDocuments = {
+  tasks: sql`(setweight(to_tsvector('english', coalesce(title, '')), 'A') || setweight(to_tsvector('english', coalesce(description, '') || ' ' || coalesce(notes, '')), 'B'))`,
+  projects: sql`(setweight(to_tsvector('english', coalesce(name, '')), 'A') || setweight(to_tsvector('english', coalesce(description, '') || ' ' || coalesce(outcome, '')), 'B'))`,
+  emails: sql`(setweight(to_tsvector('english', coalesce(subject, '')), 'A') || setweight(to_tsvector('english', coalesce(sender, '')), 'B') || setweight(to_tsvector('english', coalesce(content, '')), 'C'))`,
+};
+
+// Search result types
+export const SearchResultType = {
+  TASK: "task",
+  PROJECT: "project",
+  EMAIL: "email",
+} as const;
+
+// What a personal API token may do. `read` covers GET requests, `write`
+// covers everything (reads included) and `capture` only adds to the inbox.
+export const ApiTokenScope = {
+  CAPTURE: "capture",
+  READ: "read",
+  WRITE: "write",
+} as const;
+
+// People who sign in. Every top-level table below carries the owning
+// user's id; task history and dependencies belong to users through their
+// tasks. Rows saved before accounts existed have no user until the first
+// account to register claims them.
+export const users = pgTable("users", {
+  id: serial("id").primaryKey(),
+  username: text("username").notNull().unique(),
+  // scrypt hash and salt, see server/auth.ts
+  password: text("password").notNull(),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+});
+
+// Login sessions, read and written by connect-pg-simple
+export const sessions = pgTable("sessions", {
+  sid: varchar("sid").primaryKey(),
+  sess: jsonb("sess").notNull(),
+  expire: timestamp("expire", { precision: 6 }).notNull(),
+}, (table) => [
+  index("sessions_expire_idx").on(table.expire),
+]);
+
+// Personal access tokens for scripts and automations, sent as
+// `Authorization: Bearer <token>`. Only a SHA-256 hash of the token is kept;
+// the prefix is stored so the token can be recognised in Settings.
+export const apiTokens = pgTable("api_tokens", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  name: text("name").notNull(),
+  tokenHash: text("token_hash").notNull().unique(),
+  tokenPrefix: text("token_prefix").notNull(),
+  scopes: text("scopes").array().notNull(),
+  lastUsedAt: timestamp("last_used_at"),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+});
+
+// Owning user column shared by every top-level table
+const ownerId = () => integer("user_id").references(() => users.id, { onDelete: "cascade" });
+
 // Tasks table
 export const tasks = pgTable("tasks", {
   id: serial("id").primaryKey(),
+  userId: ownerId(),
   title: text("title").notNull(),
   description: text("description"),
   status: text("status", { enum: Object.values(TaskStatus) as [string, ...string[]] }).notNull().default(TaskStatus.INBOX),
   projectId: integer("project_id").references(() => projects.id),
+  // Position among the project's actions; ties fall back to id
+  sortOrder: integer("sort_order").notNull().default(0),
   contextId: integer("context_id").references(() => contexts.id),
   dueDate: timestamp("due_date"),
+  tickleDate: timestamp("tickle_date"),
   emailId: integer("email_id").references(() => emails.id),
   deferCount: integer("defer_count").notNull().default(0),
   timeEstimate: text("time_estimate", { enum: Object.values(TimeEstimate) as [string, ...string[]] }),
   energyLevel: text("energy_level", { enum: Object.values(EnergyLevel) as [string, ...string[]] }),
+  // Name of the person waited on, kept in step with waitingForId
   waitingFor: text("waiting_for"),
+  waitingForId: integer("waiting_for_id").references(() => people.id, { onDelete: "set null" }),
+  // Agenda the item is parked on until the person or meeting comes up
+  agendaId: integer("agenda_id").references(() => agendas.id, { onDelete: "set null" }),
   waitingForFollowUp: timestamp("waiting_for_follow_up"),
   referenceCategory: text("reference_category"),
   notes: text("notes"),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+  updatedAt: timestamp("updated_at").notNull().defaultNow().$onUpdate(() => new Date()),
+  completedAt: timestamp("completed_at"),
+  recurrence: jsonb("recurrence").$type<RecurrenceRule>(),
+  // Files carried over from the email the task was created from
+  attachments: jsonb("attachments").array().$type<AttachmentMeta[]>(),
+  // Email sent when the task was delegated, and the delegate's reply once synced
+  delegationEmailId: integer("delegation_email_id").references(() => emails.id, { onDelete: "set null" }),
+  responseEmailId: integer("response_email_id").references(() => emails.id, { onDelete: "set null" }),
+  responseReceivedAt: timestamp("response_received_at"),
+}, () => [
+  index("tasks_search_idx").using("gin", searchDocuments.tasks),
+]);
+
+// Task fields whose changes are recorded in task_events
+export const TaskEventField = {
+  STATUS: "status",
+  PROJECT: "projectId",
+  CONTEXT: "contextId",
+  FOLLOW_UP: "waitingForFollowUp",
+  // Recorded when the last open task this one depended on was finished
+  UNBLOCKED: "unblocked",
+} as const;
+
+// Task history - one row per change of a tracked task field
+export const taskEvents = pgTable("task_events", {
+  id: serial("id").primaryKey(),
+  taskId: integer("task_id").notNull().references(() => tasks.id, { onDelete: "cascade" }),
+  field: text("field", { enum: Object.values(TaskEventField) as [string, ...string[]] }).notNull(),
+  fromValue: text("from_value"),
+  toValue: text("to_value"),
+  // Free-text detail for events that aren't plain edits, e.g. who was reminded
+  note: text("note"),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
 });
 
-// Projects table
+// A task that can't start until another is finished. The other task may be
+// anything open, including a Waiting For item.
+export const taskDependencies = pgTable("task_dependencies", {
+  id: serial("id").primaryKey(),
+  taskId: integer("task_id").notNull().references(() => tasks.id, { onDelete: "cascade" }),
+  dependsOnId: integer("depends_on_id").notNull().references(() => tasks.id, { onDelete: "cascade" }),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+}, (table) => [
+  unique("task_dependencies_task_depends_on_unique").on(table.taskId, table.dependsOnId),
+]);
+
+// Project lifecycle. Active and on-hold projects are still open; on-hold ones
+// are parked on purpose and never count as stalled.
+export const ProjectStatus = {
+  ACTIVE: "active",
+  ON_HOLD: "on_hold",
+  COMPLETED: "completed",
+  DROPPED: "dropped",
+} as const;
+
+// Areas of focus - the responsibilities projects roll up to
+export const areas = pgTable("areas", {
+  id: serial("id").primaryKey(),
+  userId: ownerId(),
+  name: text("name").notNull(),
+  description: text("description"),
+}, (table) => [
+  unique("areas_user_name_unique").on(table.userId, table.name),
+]);
+
+// Projects table. Sub-projects have a parentId and take their area from the
+// top-level project above them, so only top-level projects carry an areaId.
+// isActive mirrors status (true while active or on hold) and is kept in step
+// by storage.
 export const projects = pgTable("projects", {
   id: serial("id").primaryKey(),
+  userId: ownerId(),
   name: text("name").notNull(),
   description: text("description"),
+  // What "done" looks like
+  outcome: text("outcome"),
+  targetDate: timestamp("target_date"),
+  status: text("status", { enum: Object.values(ProjectStatus) as [string, ...string[]] }).notNull().default(ProjectStatus.ACTIVE),
+  completedAt: timestamp("completed_at"),
   isActive: boolean("is_active").notNull().default(true),
+  // Sequential projects expose only their first remaining next action
+  sequential: boolean("sequential").notNull().default(false),
+  parentId: integer("parent_id").references((): AnyPgColumn => projects.id, { onDelete: "set null" }),
+  areaId: integer("area_id").references(() => areas.id, { onDelete: "set null" }),
+}, () => [
+  index("projects_search_idx").using("gin", searchDocuments.projects),
+]);
+
+// People tasks are delegated to or waiting on. Names are unique ignoring case
+// so "Bob" and "bob" are the same person; addresses are stored lowercase.
+export const people = pgTable("people", {
+  id: serial("id").primaryKey(),
+  userId: ownerId(),
+  name: text("name").notNull(),
+  emails: text("emails").array().notNull().default(sql`'{}'::text[]`),
+  notes: text("notes"),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+}, (table) => [
+  uniqueIndex("people_user_name_idx").on(table.userId, sql`lower(${table.name})`),
+]);
+
+// GTD agendas - things to discuss with a person or at a recurring meeting
+export const AgendaKind = {
+  PERSON: "person",
+  MEETING: "meeting",
+} as const;
+
+export const agendas = pgTable("agendas", {
+  id: serial("id").primaryKey(),
+  userId: ownerId(),
+  kind: text("kind", { enum: Object.values(AgendaKind) as [string, ...string[]] }).notNull(),
+  name: text("name").notNull(),
+  personId: integer("person_id").references(() => people.id, { onDelete: "cascade" }),
+  // Calendar events whose title contains this (ignoring case) are the meeting
+  meetingTitle: text("meeting_title"),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
 });
 
+// Reusable checklists, e.g. "Travel prep". Items are task blueprints kept in
+// order; creating a project from a template turns each into a next action.
+export const templates = pgTable("templates", {
+  id: serial("id").primaryKey(),
+  userId: ownerId(),
+  name: text("name").notNull(),
+  description: text("description"),
+  // Projects created from the template are sequential
+  sequential: boolean("sequential").notNull().default(false),
+  items: jsonb("items").$type<TemplateItem[]>().notNull().default([]),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+}, (table) => [
+  unique("templates_user_name_unique").on(table.userId, table.name),
+]);
+
 // Contexts table (e.g., @home, @work, @computer)
 export const contexts = pgTable("contexts", {
   id: serial("id").primaryKey(),
-  name: text("name").notNull().unique(),
+  userId: ownerId(),
+  name: text("name").notNull(),
   color: text("color").notNull(),
-});
+}, (table) => [
+  unique("contexts_user_name_unique").on(table.userId, table.name),
+]);
 
 // Enhanced email messages table
 export const emails = pgTable("emails", {
   id: serial("id").primaryKey(),
-  messageId: text("message_id").notNull().unique(),
+  userId: ownerId(),
+  accountId: integer("account_id").references(() => emailAccounts.id, { onDelete: "set null" }),
+  messageId: text("message_id").notNull(),
   subject: text("subject").notNull(),
   sender: text("sender").notNull(),
   recipients: text("recipients").array().notNull(),
@@ -86,25 +292,100 @@ export const emails = pgTable("emails", {
   processed: boolean("processed").notNull().default(false),
   flags: jsonb("flags").notNull().default({}),
   receivedAt: timestamp("received_at").notNull(),
-  attachments: jsonb("attachments").array(),
-});
+  attachments: jsonb("attachments").array().$type<AttachmentMeta[]>(),
+  // RFC 5322 threading headers. messageId above is the IMAP UID; these are the
+  // Message-ID, In-Reply-To and References header values.
+  internetMessageId: text("internet_message_id"),
+  inReplyTo: text("in_reply_to"),
+  references: text("references").array(),
+  // Message-ID of the conversation's root; emails sharing it form one thread
+  threadId: text("thread_id"),
+}, (table) => [
+  index("emails_search_idx").using("gin", searchDocuments.emails),
+  index("emails_thread_id_idx").on(table.threadId),
+  // IMAP UIDs are only unique per mailbox, so dedupe per account
+  unique("emails_account_message_id_unique").on(table.accountId, table.messageId).nullsNotDistinct(),
+]);
 
 // Email account settings
 export const emailAccounts = pgTable("email_accounts", {
   id: serial("id").primaryKey(),
-  email: text("email").notNull().unique(),
+  userId: ownerId(),
+  email: text("email").notNull(),
   name: text("display_name").notNull(),
+  username: text("username"),
+  password: text("password").notNull(),
   imapHost: text("imap_host").notNull(),
   imapPort: integer("imap_port").notNull(),
   smtpHost: text("smtp_host").notNull(),
   smtpPort: integer("smtp_port").notNull(),
   useSSL: boolean("use_ssl").notNull().default(true),
   isDefault: boolean("is_default").notNull().default(false),
-});
+}, (table) => [
+  unique("email_accounts_user_email_unique").on(table.userId, table.email),
+]);
+
+// How an email draft was started in the composer
+export const ComposerMode = {
+  NEW: "new",
+  REPLY: "reply",
+  FORWARD: "forward",
+} as const;
+
+// Autosaved composer state. `key` names the compose session, e.g.
+// "reply-12" so reopening a reply to email 12 picks the draft back up.
+export const emailDrafts = pgTable("email_drafts", {
+  id: serial("id").primaryKey(),
+  userId: ownerId(),
+  key: text("key").notNull(),
+  mode: text("mode", { enum: Object.values(ComposerMode) as [string, ...string[]] }).notNull().default(ComposerMode.NEW),
+  originalEmailId: integer("original_email_id").references(() => emails.id, { onDelete: "cascade" }),
+  accountId: integer("account_id").references(() => emailAccounts.id, { onDelete: "set null" }),
+  to: text("to").notNull().default(""),
+  cc: text("cc").notNull().default(""),
+  bcc: text("bcc").notNull().default(""),
+  subject: text("subject").notNull().default(""),
+  body: text("body").notNull().default(""),
+  attachments: jsonb("attachments").array().$type<AttachmentMeta[]>(),
+  updatedAt: timestamp("updated_at").notNull().defaultNow().$onUpdate(() => new Date()),
+}, (table) => [
+  unique("email_drafts_user_key_unique").on(table.userId, table.key),
+]);
+
+// Files a user staged through POST /api/attachments. The attachment store is
+// shared by everyone, so this is what lets the uploader reference a checksum.
+export const attachmentUploads = pgTable("attachment_uploads", {
+  id: serial("id").primaryKey(),
+  userId: ownerId(),
+  checksum: text("checksum").notNull(),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+}, (table) => [
+  unique("attachment_uploads_user_checksum_unique").on(table.userId, table.checksum),
+]);
+
+// IMAP sync progress per account and mailbox. UIDs are only meaningful while
+// the mailbox UIDVALIDITY is unchanged; both are unsigned 32-bit on the wire.
+export const emailSyncStates = pgTable("email_sync_states", {
+  id: serial("id").primaryKey(),
+  userId: ownerId(),
+  accountId: integer("account_id").references(() => emailAccounts.id, { onDelete: "cascade" }),
+  mailbox: text("mailbox").notNull(),
+  uidValidity: bigint("uid_validity", { mode: "number" }),
+  lastUid: bigint("last_uid", { mode: "number" }).notNull().default(0),
+  lastSyncedAt: timestamp("last_synced_at"),
+  lastError: text("last_error"),
+  // Counts from the most recent run
+  fetchedCount: integer("fetched_count").notNull().default(0),
+  updatedCount: integer("updated_count").notNull().default(0),
+  deletedCount: integer("deleted_count").notNull().default(0),
+}, (table) => [
+  unique("email_sync_states_account_mailbox_unique").on(table.accountId, table.mailbox).nullsNotDistinct(),
+]);
 
 // Weekly reviews table - tracks GTD weekly review sessions
 export const weeklyReviews = pgTable("weekly_reviews", {
   id: serial("id").primaryKey(),
+  userId: ownerId(),
   completedAt: timestamp("completed_at").notNull().defaultNow(),
   projectsReviewed: integer("projects_reviewed").notNull().default(0),
   stalledProjectsFound: integer("stalled_projects_found").notNull().default(0),
@@ -120,37 +401,299 @@ const nullableDate = z.preprocess(
   z.coerce.date().nullable()
 ).optional();
 
+// Repeat schedule for a task: every `interval` days/weeks/months, optionally
+// on specific weekdays (0 = Sunday) for weekly rules, until `endDate` (yyyy-MM-dd)
+export const recurrenceRuleSchema = z.object({
+  frequency: z.enum(Object.values(RecurrenceFrequency) as [string, ...string[]]),
+  interval: z.number().int().min(1).default(1),
+  weekdays: z.array(z.number().int().min(0).max(6)).optional(),
+  endDate: z.string().regex(/^\d{4}-\d{2}-\d{2}$/).nullable().optional(),
+});
+
+// One task blueprint in a template. A due offset dates the task that many
+// days after the project is started.
+export const templateItemSchema = z.object({
+  title: z.string().trim().min(1),
+  description: z.string().nullable().optional(),
+  contextId: z.number().int().nullable().optional(),
+  timeEstimate: z.enum(Object.values(TimeEstimate) as [string, ...string[]]).nullable().optional(),
+  energyLevel: z.enum(Object.values(EnergyLevel) as [string, ...string[]]).nullable().optional(),
+  dueOffsetDays: z.number().int().min(0).nullable().optional(),
+});
+
+// Attachment metadata kept on emails and tasks. The bytes live in the
+// content-addressed attachment store under their SHA-256 checksum.
+export const attachmentMetaSchema = z.object({
+  filename: z.string().nullable(),
+  contentType: z.string(),
+  size: z.number().int().min(0),
+  checksum: z.string().regex(/^[a-f0-9]{64}$/),
+  contentId: z.string().nullable().optional(),
+});
+
+// Attachment types a browser may render inline; anything else is only offered as a download
+export const INLINE_ATTACHMENT_TYPES = [
+  "image/png",
+  "image/jpeg",
+  "image/gif",
+  "image/webp",
+  "application/pdf",
+];
+
+// Limits for files uploaded to attach to outgoing mail
+export const MAX_ATTACHMENT_SIZE = 20 * 1024 * 1024;
+export const BLOCKED_ATTACHMENT_EXTENSIONS = [
+  "exe", "msi", "bat", "cmd", "com", "scr", "pif", "cpl", "vbs", "vbe", "js", "jse", "wsf", "ps1", "jar", "sh",
+];
+export const BLOCKED_ATTACHMENT_TYPES = [
+  "application/x-msdownload",
+  "application/x-msdos-program",
+  "application/x-ms-installer",
+  "application/x-sh",
+  "application/java-archive",
+];
+
 // Insert schemas
-export const insertTaskSchema = createInsertSchema(tasks).omit({ id: true }).extend({
+export const insertTaskSchema = createInsertSchema(tasks).omit({
+  id: true,
+  userId: true,
+  createdAt: true,
+  updatedAt: true,
+  completedAt: true,
+}).extend({
   dueDate: nullableDate,
+  tickleDate: nullableDate,
   waitingForFollowUp: nullableDate,
+  recurrence: recurrenceRuleSchema.nullable().optional(),
+  attachments: z.array(attachmentMetaSchema).nullable().optional(),
+});
+export const insertProjectSchema = createInsertSchema(projects).omit({
+  id: true,
+  userId: true,
+  isActive: true,
+  completedAt: true,
+}).extend({
+  targetDate: nullableDate,
+});
+export const insertAreaSchema = createInsertSchema(areas).omit({ id: true, userId: true }).extend({
+  name: z.string().trim().min(1),
 });
-export const insertProjectSchema = createInsertSchema(projects).omit({ id: true });
-export const insertContextSchema = createInsertSchema(contexts).omit({ id: true });
-export const insertEmailSchema = createInsertSchema(emails).omit({ id: true }).extend({
+export const insertContextSchema = createInsertSchema(contexts).omit({ id: true, userId: true });
+export const insertTemplateSchema = createInsertSchema(templates).omit({ id: true, userId: true, createdAt: true }).extend({
+  name: z.string().trim().min(1),
+  items: z.array(templateItemSchema),
+});
+export const insertAgendaSchema = createInsertSchema(agendas).omit({ id: true, userId: true, createdAt: true }).extend({
+  name: z.string().trim().min(1),
+}).refine(
+  (agenda) => agenda.kind !== AgendaKind.PERSON || !!agenda.personId,
+  { message: "A person agenda needs a person", path: ["personId"] }
+).refine(
+  (agenda) => agenda.kind !== AgendaKind.MEETING || !!agenda.meetingTitle?.trim(),
+  { message: "A meeting agenda needs the meeting's title", path: ["meetingTitle"] }
+);
+export const insertPersonSchema = createInsertSchema(people).omit({ id: true, userId: true, createdAt: true }).extend({
+  name: z.string().trim().min(1),
+  emails: z.array(z.string().trim().toLowerCase().email()).default([]),
+});
+export const insertEmailSchema = createInsertSchema(emails).omit({ id: true, userId: true }).extend({
   receivedAt: z.coerce.date(),
+  attachments: z.array(attachmentMetaSchema).nullable().optional(),
+});
+export const insertEmailAccountSchema = createInsertSchema(emailAccounts).omit({ id: true, userId: true }).extend({
+  email: z.string().email(),
+  password: z.string().min(1),
+  imapPort: z.coerce.number().int().positive(),
+  smtpPort: z.coerce.number().int().positive(),
 });
-export const insertEmailAccountSchema = createInsertSchema(emailAccounts).omit({ id: true });
-export const insertWeeklyReviewSchema = createInsertSchema(weeklyReviews).omit({ id: true }).extend({
+export const insertEmailDraftSchema = createInsertSchema(emailDrafts).omit({
+  id: true,
+  userId: true,
+  key: true,
+  updatedAt: true,
+}).extend({
+  attachments: z.array(attachmentMetaSchema).nullable().optional(),
+});
+export const insertWeeklyReviewSchema = createInsertSchema(weeklyReviews).omit({ id: true, userId: true }).extend({
   completedAt: z.coerce.date().optional(),
 });
 
+export const insertUserSchema = createInsertSchema(users).pick({ username: true, password: true }).extend({
+  username: z.string().trim().min(3).max(64),
+  password: z.string().min(8),
+});
+
+export const insertApiTokenSchema = z.object({
+  name: z.string().trim().min(1).max(100),
+  scopes: z.array(z.enum(Object.values(ApiTokenScope) as [string, ...string[]])).min(1),
+});
+
+// Quick capture from launchers and shortcuts (POST /api/capture). Blank
+// fields, as form posts send them, count as missing.
+const optionalField = <T extends z.ZodTypeAny>(schema: T) => z.preprocess(
+  (val) => (typeof val === "string" && val.trim() === "" ? undefined : val),
+  schema.optional()
+);
+
+export const captureSchema = z.object({
+  title: z.string().trim().min(1).max(500),
+  notes: optionalField(z.string().trim()),
+  url: optionalField(z.string().trim().url()),
+});
+
 // Update schemas (partial versions for PATCH endpoints)
 export const updateTaskSchema = insertTaskSchema.partial();
 export const updateProjectSchema = insertProjectSchema.partial();
+export const updateAreaSchema = insertAreaSchema.partial();
 export const updateContextSchema = insertContextSchema.partial();
+export const updateTemplateSchema = insertTemplateSchema.partial();
+export const updatePersonSchema = insertPersonSchema.partial();
+export const updateAgendaSchema = z.object({
+  name: z.string().trim().min(1).optional(),
+  meetingTitle: z.string().trim().min(1).optional(),
+});
 export const updateEmailSchema = insertEmailSchema.partial();
+export const updateEmailAccountSchema = insertEmailAccountSchema.partial();
+
+// Inbox processing - the outcome of the GTD decision tree in ProcessingDialog
+export const InboxItemType = {
+  TASK: "task",
+  EMAIL: "email",
+} as const;
+
+export const processingResultSchema = z.object({
+  action: z.enum(["trash", "reference", "someday", "do-now", "delegate", "next-action", "defer"]),
+  task: updateTaskSchema.optional(),
+  createProject: z.object({
+    name: z.string().min(1),
+    description: z.string().optional(),
+  }).optional(),
+  // Sent to the delegate before the waiting task is created
+  delegationEmail: z.object({
+    to: z.string().email(),
+    subject: z.string().min(1),
+    body: z.string(),
+    accountId: z.number().int().nullable().optional(),
+  }).optional(),
+}).refine(
+  (result) => !["delegate", "next-action"].includes(result.action) || !!result.task?.title,
+  { message: "A next action title is required", path: ["task", "title"] }
+).refine(
+  (result) => result.action !== "defer" || !!result.task?.tickleDate,
+  { message: "A defer-until date is required", path: ["task", "tickleDate"] }
+).refine(
+  (result) => result.action === "delegate" || !result.delegationEmail,
+  { message: "Only delegated items can send a delegation email", path: ["delegationEmail"] }
+);
+
+// Starting a project from a template. The name defaults to the template's and
+// due offsets count from startDate, today if not given.
+export const instantiateTemplateSchema = z.object({
+  name: z.string().trim().min(1).optional(),
+  startDate: nullableDate,
+  areaId: z.number().int().nullable().optional(),
+  parentId: z.number().int().nullable().optional(),
+});
+
+export const insertTaskDependencySchema = z.object({
+  dependsOnId: z.number().int(),
+});
+
+// New order of a project's actions, first to last
+export const taskOrderSchema = z.object({
+  taskIds: z.array(z.number().int()).min(1),
+});
+
+// Completing or dropping a project, and what becomes of its remaining next actions
+export const closeProjectSchema = z.object({
+  status: z.enum([ProjectStatus.COMPLETED, ProjectStatus.DROPPED]),
+  remainingTasks: z.enum([TaskStatus.DONE, TaskStatus.TRASH, TaskStatus.SOMEDAY]),
+});
 
 // Types
+export type User = typeof users.$inferSelect;
+// User as returned by the API - the password hash never leaves the server
+export type PublicUser = Omit<User, "password">;
+export type ApiToken = typeof apiTokens.$inferSelect;
+// API token as listed in Settings - the hash never leaves the server
+export type PublicApiToken = Omit<ApiToken, "tokenHash">;
+// Returned once, when the token is created; only then is the secret shown
+export type CreatedApiToken = PublicApiToken & { token: string };
 export type Task = typeof tasks.$inferSelect;
 export type Project = typeof projects.$inferSelect;
+export type Area = typeof areas.$inferSelect;
+export type TaskEvent = typeof taskEvents.$inferSelect;
+export type TaskDependency = typeof taskDependencies.$inferSelect;
 export type Context = typeof contexts.$inferSelect;
+export type Person = typeof people.$inferSelect;
+export type Agenda = typeof agendas.$inferSelect;
+export type Template = typeof templates.$inferSelect;
 export type Email = typeof emails.$inferSelect;
 export type EmailAccount = typeof emailAccounts.$inferSelect;
+// Email account as returned by the API - the mailbox password never leaves the server
+export type PublicEmailAccount = Omit<EmailAccount, "password">;
+export type EmailSyncState = typeof emailSyncStates.$inferSelect;
+export type EmailDraft = typeof emailDrafts.$inferSelect;
+export type InsertEmailSyncState = typeof emailSyncStates.$inferInsert;
 export type WeeklyReview = typeof weeklyReviews.$inferSelect;
+export type InsertUser = z.infer<typeof insertUserSchema>;
+export type InsertApiToken = z.infer<typeof insertApiTokenSchema>;
+export type Capture = z.infer<typeof captureSchema>;
 export type InsertTask = z.infer<typeof insertTaskSchema>;
 export type InsertProject = z.infer<typeof insertProjectSchema>;
+export type InsertArea = z.infer<typeof insertAreaSchema>;
 export type InsertContext = z.infer<typeof insertContextSchema>;
+export type InsertPerson = z.infer<typeof insertPersonSchema>;
+export type InsertAgenda = z.infer<typeof insertAgendaSchema>;
+export type InsertTemplate = z.infer<typeof insertTemplateSchema>;
 export type InsertEmail = z.infer<typeof insertEmailSchema>;
 export type InsertEmailAccount = z.infer<typeof insertEmailAccountSchema>;
-export type InsertWeeklyReview = z.infer<typeof insertWeeklyReviewSchema>;
\ No newline at end of file
+export type InsertEmailDraft = z.infer<typeof insertEmailDraftSchema>;
+export type InsertWeeklyReview = z.infer<typeof insertWeeklyReviewSchema>;
+export type InboxItemTypeValue = typeof InboxItemType[keyof typeof InboxItemType];
+export type ProcessingResult = z.infer<typeof processingResultSchema>;
+export type CloseProject = z.infer<typeof closeProjectSchema>;
+export type InstantiateTemplate = z.infer<typeof instantiateTemplateSchema>;
+export type TemplateItem = z.infer<typeof templateItemSchema>;
+export type RecurrenceRule = z.infer<typeof recurrenceRuleSchema>;
+export type AttachmentMeta = z.infer<typeof attachmentMetaSchema>;
+export type ApiTokenScopeValue = typeof ApiTokenScope[keyof typeof ApiTokenScope];
+export type SearchResultTypeValue = typeof SearchResultType[keyof typeof SearchResultType];
+
+// An agenda with open items whose person or meeting is on the calendar soon
+export interface UpcomingAgenda {
+  agenda: Agenda;
+  event: {
+    id: string | null;
+    summary: string | null;
+    start: string | null;
+    htmlLink: string | null;
+  };
+  tasks: Task[];
+}
+
+// A sender seen in synced mail who isn't in the people registry yet
+export interface PersonSuggestion {
+  name: string;
+  email: string;
+  messageCount: number;
+}
+
+// Background IMAP sync, as reported by GET /api/emails/sync-status
+export interface EmailSyncStatus {
+  running: boolean;
+  lastRunAt: Date | null;
+  nextRunAt: Date | null;
+  lastError: string | null;
+  mailboxes: (EmailSyncState & { email: string })[];
+}
+
+// A ranked full-text search hit; `snippet` marks matched terms with <mark>
+export interface SearchResult {
+  type: SearchResultTypeValue;
+  id: number;
+  title: string;
+  snippet: string;
+  rank: number;
+  status?: string;
+}
\ No newline at end of file
@@ -0,0 +1,72 @@
+import { TaskStatus, type Task, type TaskDependency } from "./schema";
+
+type DependencyLink = Pick<TaskDependency, "taskId" | "dependsOnId">;
+
+// A blocker stops counting once it's done or thrown away
+export function isResolved(task: Pick<Task, "status">): boolean {
+  return task.status === TaskStatus.DONE || task.status === TaskStatus.TRASH;
+}
+
+// Whether making `taskId` wait on `dependsOnId` would close a loop, i.e.
+// `dependsOnId` already waits on `taskId` somewhere up its chain
+export function wouldCreateDependencyCycle(
+  dependencies: DependencyLink[],
+  taskId: number,
+  dependsOnId: number
+): boolean {
+  const seen = new Set<number>();
+  const pending = [dependsOnId];
+  while (pending.length > 0) {
+    const current = pending.pop()!;
+    if (current === taskId) return true;
+    if (seen.has(current)) continue;
+    seen.add(current);
+    for (const dependency of dependencies) {
+      if (dependency.taskId === current) pending.push(dependency.dependsOnId);
+    }
+  }
+  return false;
+}
+
+// Unfinished tasks each task is waiting on. Tasks missing from the map
+// aren't blocked.
+export function getBlockers(tasks: Task[], dependencies: DependencyLink[]): Map<number, Task[]> {
+  const byId = new Map(tasks.map((task) => [task.id, task]));
+  const blockers = new Map<number, Task[]>();
+  for (const dependency of dependencies) {
+    const blocker = byId.get(dependency.dependsOnId);
+    if (!blocker || isResolved(blocker)) continue;
+    blockers.set(dependency.taskId, [...(blockers.get(dependency.taskId) || []), blocker]);
+  }
+  return blockers;
+}
+
+export interface DependencyChainLink {
+  task: Task;
+  depth: number;
+}
+
+// Everything a task waits on, directly or further up, nearest first. Each
+// task appears once even when several paths lead to it.
+export function getDependencyChain(
+  taskId: number,
+  tasks: Task[],
+  dependencies: DependencyLink[]
+): DependencyChainLink[] {
+  const byId = new Map(tasks.map((task) => [task.id, task]));
+  const chain: DependencyChainLink[] = [];
+  const seen = new Set<number>([taskId]);
+
+  const visit = (id: number, depth: number) => {
+    for (const dependency of dependencies) {
+      if (dependency.taskId !== id || seen.has(dependency.dependsOnId)) continue;
+      const task = byId.get(dependency.dependsOnId);
+      if (!task) continue;
+      seen.add(task.id);
+      chain.push({ task, depth });
+      visit(task.id, depth + 1);
+    }
+  };
+  visit(taskId, 0);
+  return chain;
+}